@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Session } from '@supabase/supabase-js';
-import { supabase } from './lib/supabaseClient';
+import { getRepository, onRepositoryChange, signOut } from './data';
+import { AuthSession } from './data/repository';
 import Layout from './components/Layout';
 import TeamPage from './pages/TeamPage';
 import SchedulePage from './pages/SchedulePage';
@@ -13,7 +13,7 @@ import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 
 function App() {
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [loading, setLoading] = useState(true); // Start loading until session is checked
   const [currentPage, _setCurrentPage] = useState('team'); // Default page if logged in
   const [previousPage, setPreviousPage] = useState<string | null>(null);
@@ -21,34 +21,50 @@ function App() {
 
   // --- Authentication Effect ---
   useEffect(() => {
-    // Check initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setLoading(false); // Finished checking initial session
-    });
+    let unsubscribe = () => {};
+
+    // Check the session of the active backend and listen for auth state changes (login, logout)
+    const subscribe = () => {
+      const repository = getRepository();
+      repository.getSession().then(session => {
+        if (repository !== getRepository()) return; // Backend switched while checking
+        setSession(session);
+        setLoading(false); // Finished checking initial session
+      });
+
+      unsubscribe = repository.onAuthStateChange(session => {
+        setSession(session);
+        if (!session) {
+          // If user logs out, reset relevant state
+          _setCurrentPage('team'); // Reset to default page
+          setPreviousPage(null);
+          setSelectedGameId(null);
+        }
+        // No need to setLoading(false) here as initial load is handled above
+      });
+    };
 
-    // Listen for auth state changes (login, logout)
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-      if (!session) {
-        // If user logs out, reset relevant state
-        _setCurrentPage('team'); // Reset to default page
-        setPreviousPage(null);
-        setSelectedGameId(null);
-      }
-      // No need to setLoading(false) here as initial load is handled above
+    subscribe();
+    // Switching between accounts and guest mode replaces the backend, so re-subscribe to the new one
+    const unsubscribeRepository = onRepositoryChange(() => {
+      unsubscribe();
+      subscribe();
     });
 
-    // Cleanup subscription on unmount
-    return () => subscription.unsubscribe();
+    // Cleanup subscriptions on unmount
+    return () => {
+      unsubscribeRepository();
+      unsubscribe();
+    };
   }, []);
   // --- End Authentication Effect ---
 
   // --- Logout Handler ---
   const handleLogout = async () => {
     setLoading(true); // Optional: show loading state during logout
-    const { error } = await supabase.auth.signOut();
-    if (error) {
+    try {
+      await signOut();
+    } catch (error) {
       console.error('Error logging out:', error);
       // Handle error appropriately, maybe show a notification
     }
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { Game, Player } from '../context/TeamContext';
+import { CardType, getCardCounts, isSentOff } from '../lib/cards';
+
+interface AddCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game;
+  teamName: string;
+  players: Player[];
+  onAddCard: (team: 'home' | 'away', cardType: CardType, playerId: string | null) => Promise<void>;
+}
+
+const AddCardModal: React.FC<AddCardModalProps> = ({ isOpen, onClose, game, teamName, players, onAddCard }) => {
+  const userTeam: 'home' | 'away' = game.location;
+  const [team, setTeam] = useState<'home' | 'away'>(userTeam);
+  const [cardType, setCardType] = useState<CardType>('yellow_card');
+  const [playerId, setPlayerId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTeam(userTeam);
+      setCardType('yellow_card');
+      setPlayerId('');
+      setIsSaving(false);
+    }
+  }, [isOpen, userTeam]);
+
+  // Players in this game's lineup who are still in play
+  const eligiblePlayers = useMemo(() => {
+    const lineupIds = new Set(game.lineup.map(p => p.id));
+    return players
+      .filter(p => lineupIds.has(p.id) && !isSentOff(game.events, p.id))
+      .sort((a, b) => a.first_name.localeCompare(b.first_name));
+  }, [players, game.lineup, game.events]);
+
+  if (!isOpen) return null;
+
+  const isUserTeamCard = team === userTeam;
+  const teamNames = { home: game.location === 'home' ? teamName : game.opponent, away: game.location === 'away' ? teamName : game.opponent };
+  const isSecondYellow = isUserTeamCard && cardType === 'yellow_card' && !!playerId && getCardCounts(game.events, playerId).yellow === 1;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isUserTeamCard && !playerId) { alert('Please select the player who was booked.'); return; }
+    setIsSaving(true);
+    await onAddCard(team, cardType, isUserTeamCard ? playerId : null);
+    setIsSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Record Card</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X size={24} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Card */}
+          <div className="flex space-x-3">
+            <button type="button" onClick={() => setCardType('yellow_card')} disabled={isSaving} className={`flex-1 flex items-center justify-center space-x-2 px-4 py-2 border rounded-md transition-colors ${cardType === 'yellow_card' ? 'bg-yellow-100 border-yellow-400 text-yellow-800' : 'border-gray-300 text-gray-600 hover:bg-gray-100'} disabled:opacity-50`}>
+              <span className="w-3 h-4 rounded-sm bg-yellow-400 border border-yellow-500"></span><span>Yellow</span>
+            </button>
+            <button type="button" onClick={() => setCardType('red_card')} disabled={isSaving} className={`flex-1 flex items-center justify-center space-x-2 px-4 py-2 border rounded-md transition-colors ${cardType === 'red_card' ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'} disabled:opacity-50`}>
+              <span className="w-3 h-4 rounded-sm bg-red-600 border border-red-700"></span><span>Red</span>
+            </button>
+          </div>
+
+          {/* Team */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Team</label>
+            <div className="flex space-x-3">
+              {(['home', 'away'] as const).map(t => (
+                <button key={t} type="button" onClick={() => setTeam(t)} disabled={isSaving} className={`flex-1 px-4 py-2 border rounded-md transition-colors truncate ${team === t ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'} disabled:opacity-50`}>
+                  {teamNames[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Player (our team only) */}
+          {isUserTeamCard && (
+            <div>
+              <label htmlFor="cardPlayer" className="block text-sm font-medium text-gray-700 mb-1">Player</label>
+              <select id="cardPlayer" value={playerId} onChange={(e) => setPlayerId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" disabled={isSaving}>
+                <option value="" disabled>Select player</option>
+                {eligiblePlayers.map(p => (
+                  <option key={p.id} value={p.id}>{`${p.first_name} ${p.last_name}`.trim()}{p.number ? ` (#${p.number})` : ''}{getCardCounts(game.events, p.id).yellow > 0 ? ' - booked' : ''}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {(isSecondYellow || (isUserTeamCard && cardType === 'red_card')) && (
+            <p className="text-sm text-red-600">{isSecondYellow ? 'Second yellow: the player' : 'The player'} will be sent off and cannot be replaced.</p>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Cancel</button>
+            <button type="submit" disabled={isSaving} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center">
+              {isSaving ? <Loader2 className="animate-spin mr-2" size={18} /> : null}
+              {isSaving ? 'Saving...' : 'Record'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddCardModal;
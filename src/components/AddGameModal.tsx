@@ -1,22 +1,27 @@
 import React, { useState, useEffect, useContext } from 'react';
 import { Users, Calendar, Clock, Home, Plane, X, Trophy, Repeat, Loader2 } from 'lucide-react'; // Added Loader2
 import { TeamContext } from '../context/TeamContext';
+import { PeriodConfig } from '../lib/periods';
+import PeriodSettingsFields from './PeriodSettingsFields';
+import GameFormatField from './GameFormatField';
 
 interface AddGameModalProps {
   isOpen: boolean;
   onClose: () => void;
   // Updated signature for async operation
-  onAddGame: (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string) => Promise<void>;
+  onAddGame: (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string, periods?: PeriodConfig, fieldPlayerCount?: number | null) => Promise<void>;
 }
 
 const AddGameModal: React.FC<AddGameModalProps> = ({ isOpen, onClose, onAddGame }) => {
-  const { gameHistory, getMostRecentSeason, getMostRecentCompetition } = useContext(TeamContext);
+  const { games, gameHistory, getMostRecentSeason, getMostRecentCompetition, sport } = useContext(TeamContext);
   const [opponent, setOpponent] = useState('');
   const [date, setDate] = useState('');
   const [time, setTime] = useState('');
   const [location, setLocation] = useState<'home' | 'away'>('home');
   const [season, setSeason] = useState('');
   const [competition, setCompetition] = useState('');
+  const [periods, setPeriods] = useState<PeriodConfig>(sport.defaultPeriods);
+  const [fieldPlayerCount, setFieldPlayerCount] = useState<number | null>(sport.defaultFieldPlayerCount);
   const [isAdding, setIsAdding] = useState(false); // Loading state
 
   useEffect(() => {
@@ -28,9 +33,13 @@ const AddGameModal: React.FC<AddGameModalProps> = ({ isOpen, onClose, onAddGame
       setLocation('home');
       setSeason(getMostRecentSeason() || '');
       setCompetition(getMostRecentCompetition() || '');
+      // Teams usually keep the same match structure and format, so start from the latest game's (or the sport's defaults)
+      const latestGame = games[0];
+      setPeriods(latestGame ? { period_count: latestGame.period_count, period_minutes: latestGame.period_minutes, break_minutes: latestGame.break_minutes } : sport.defaultPeriods);
+      setFieldPlayerCount(latestGame ? latestGame.field_player_count : sport.defaultFieldPlayerCount);
       setIsAdding(false); // Reset loading state
     }
-  }, [isOpen, getMostRecentSeason, getMostRecentCompetition]);
+  }, [isOpen, games, getMostRecentSeason, getMostRecentCompetition, sport]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,7 +47,7 @@ const AddGameModal: React.FC<AddGameModalProps> = ({ isOpen, onClose, onAddGame
       setIsAdding(true);
       try {
         // Await the async add game function
-        await onAddGame(opponent.trim(), date, time, location, season, competition);
+        await onAddGame(opponent.trim(), date, time, location, season, competition, periods, fieldPlayerCount);
         // onClose(); // Context handler closes modal now (or SchedulePage does)
       } catch (error) {
         // Error handling is done in the context, but we stop loading here
@@ -149,6 +158,12 @@ const AddGameModal: React.FC<AddGameModalProps> = ({ isOpen, onClose, onAddGame
             </div>
           </div>
 
+          {/* Periods */}
+          <PeriodSettingsFields value={periods} onChange={setPeriods} disabled={isAdding} />
+
+          {/* Format */}
+          <GameFormatField value={fieldPlayerCount} onChange={setFieldPlayerCount} sport={sport} disabled={isAdding} />
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-3 pt-4">
             <button type="button" onClick={onClose} disabled={isAdding} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Cancel</button>
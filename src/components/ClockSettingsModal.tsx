@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { X, Bell, Volume2, Timer } from 'lucide-react';
+import { ClockSettings, normalizeAlertMinutes, normalizeStintMinutes } from '../lib/clockSettings';
+import { playAlertBeep, unlockAlertSound } from '../lib/alertSound';
+
+interface ClockSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ClockSettings;
+  onSave: (settings: ClockSettings) => void;
+}
+
+const ClockSettingsModal: React.FC<ClockSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [mode, setMode] = useState<ClockSettings['mode']>('countUp');
+  const [alertMinutes, setAlertMinutes] = useState('');
+  const [alertAtPeriodEnd, setAlertAtPeriodEnd] = useState(true);
+  const [sound, setSound] = useState(true);
+  const [fieldStintMinutes, setFieldStintMinutes] = useState('');
+  const [benchStintMinutes, setBenchStintMinutes] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(settings.mode);
+      setAlertMinutes(settings.alertMinutes.join(', '));
+      setAlertAtPeriodEnd(settings.alertAtPeriodEnd);
+      setSound(settings.sound);
+      setFieldStintMinutes(settings.fieldStintMinutes?.toString() ?? '');
+      setBenchStintMinutes(settings.benchStintMinutes?.toString() ?? '');
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entries = alertMinutes.split(',').map(m => m.trim()).filter(Boolean);
+    if (entries.some(m => !/^\d+$/.test(m) || Number(m) === 0)) {
+      alert('Alert times must be whole minutes, e.g. "5, 1".');
+      return;
+    }
+    if ([fieldStintMinutes, benchStintMinutes].some(m => m.trim() !== '' && normalizeStintMinutes(m.trim()) === null)) {
+      alert('Playtime alerts must be whole minutes, or empty for none.');
+      return;
+    }
+    onSave({ mode, alertMinutes: normalizeAlertMinutes(entries), alertAtPeriodEnd, sound, fieldStintMinutes: normalizeStintMinutes(fieldStintMinutes.trim()), benchStintMinutes: normalizeStintMinutes(benchStintMinutes.trim()) });
+    onClose();
+  };
+
+  const handleTestSound = () => { unlockAlertSound(); playAlertBeep(1); };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Clock Settings</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Display Mode */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Clock</label>
+            <div className="flex space-x-3">
+              <button type="button" onClick={() => setMode('countUp')} className={`flex-1 px-4 py-2 border rounded-md transition-colors ${mode === 'countUp' ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}>Count up</button>
+              <button type="button" onClick={() => setMode('countDown')} className={`flex-1 px-4 py-2 border rounded-md transition-colors ${mode === 'countDown' ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}>Count down</button>
+            </div>
+          </div>
+
+          {/* Alerts */}
+          <div>
+            <label htmlFor="alertMinutes" className="block text-sm font-medium text-gray-700 mb-1">Alert at minutes left</label>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"><Bell size={18} className="text-gray-400" /></span>
+              <input type="text" id="alertMinutes" inputMode="numeric" value={alertMinutes} onChange={(e) => setAlertMinutes(e.target.value)} className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" placeholder="e.g., 5, 1 (empty for none)" />
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={alertAtPeriodEnd} onChange={(e) => setAlertAtPeriodEnd(e.target.checked)} className="rounded border-gray-300 text-red-600 focus:ring-red-500" />
+            <span>Alert when the period is over</span>
+          </label>
+          {/* Playtime Alerts */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1"><Timer size={14} /><span>Alert when a player has been in a row</span></span>
+            <div className="flex space-x-3">
+              <div className="flex-1">
+                <label htmlFor="fieldStintMinutes" className="block text-xs text-gray-500 mb-1">On the field (min)</label>
+                <input type="text" id="fieldStintMinutes" inputMode="numeric" value={fieldStintMinutes} onChange={(e) => setFieldStintMinutes(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" placeholder="Off" />
+              </div>
+              <div className="flex-1">
+                <label htmlFor="benchStintMinutes" className="block text-xs text-gray-500 mb-1">On the bench (min)</label>
+                <input type="text" id="benchStintMinutes" inputMode="numeric" value={benchStintMinutes} onChange={(e) => setBenchStintMinutes(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" placeholder="Off" />
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={sound} onChange={(e) => setSound(e.target.checked)} className="rounded border-gray-300 text-red-600 focus:ring-red-500" />
+              <span>Play a sound</span>
+            </label>
+            <button type="button" onClick={handleTestSound} className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"><Volume2 size={16} /><span>Test</span></button>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition">Cancel</button>
+            <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ClockSettingsModal;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Clock, Trash2, Loader2 } from 'lucide-react';
+import { Game, GameEvent, GameEventChanges, Player } from '../context/TeamContext';
+import { GOAL_TYPE_OPTIONS, GoalType, getGoalPoints } from '../lib/goals';
+import { SportDefinition } from '../lib/sports';
+import { INACTIVE_REASON_OPTIONS, InactiveReason } from '../lib/inactiveReasons';
+import { isSentOff } from '../lib/cards';
+
+interface EditEventModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game;
+  teamName: string;
+  sport: SportDefinition; // Which goal details apply
+  events: GameEvent[]; // One timeline row: a goal, a card, an injury, or the in/out halves of a substitution
+  players: Player[];
+  onUpdateEvents: (updates: { id: string; changes: GameEventChanges }[]) => Promise<void>;
+  onDeleteEvents: (eventIds: string[]) => Promise<void>;
+}
+
+const formatGameSeconds = (totalSeconds: number): string =>
+  `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(Math.round(totalSeconds % 60)).padStart(2, '0')}`;
+
+// Accepts "mm:ss" or plain minutes ("12" = 12:00); null if invalid
+const parseGameSeconds = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,3})(?::([0-5]\d))?$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + (match[2] ? parseInt(match[2], 10) : 0);
+};
+
+const EditEventModal: React.FC<EditEventModalProps> = ({ isOpen, onClose, game, teamName, sport, events, players, onUpdateEvents, onDeleteEvents }) => {
+  const goalEvent = events.find(e => e.type === 'goal');
+  const subInEvent = events.find(e => e.type === 'substitution' && e.playerInId);
+  const subOutEvent = events.find(e => e.type === 'substitution' && e.playerOutId);
+  const cardEvent = events.find(e => e.type === 'yellow_card' || e.type === 'red_card');
+  const inactiveEvent = events.find(e => e.type === 'player_inactive');
+
+  const [team, setTeam] = useState<'home' | 'away'>('home');
+  const [scorerId, setScorerId] = useState('');
+  const [assistId, setAssistId] = useState('');
+  const [goalType, setGoalType] = useState<GoalType | ''>('');
+  const [ownGoalPlayerId, setOwnGoalPlayerId] = useState('');
+  const [points, setPoints] = useState(1);
+  const [playerInId, setPlayerInId] = useState('');
+  const [playerOutId, setPlayerOutId] = useState('');
+  const [cardPlayerId, setCardPlayerId] = useState('');
+  const [inactiveReason, setInactiveReason] = useState<InactiveReason>('injury');
+  const [note, setNote] = useState('');
+  const [time, setTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && events.length > 0) {
+      setTeam(events[0].team);
+      setScorerId(goalEvent?.scorerPlayerId ?? '');
+      setAssistId(goalEvent?.assistPlayerId ?? '');
+      setGoalType(goalEvent?.goalType ?? '');
+      setOwnGoalPlayerId(goalEvent?.goalType === 'own_goal' ? goalEvent.playerId ?? '' : '');
+      setPoints(goalEvent ? getGoalPoints(goalEvent) : 1);
+      setPlayerInId(subInEvent?.playerInId ?? '');
+      setPlayerOutId(subOutEvent?.playerOutId ?? '');
+      setCardPlayerId(cardEvent?.playerId ?? '');
+      setInactiveReason(inactiveEvent?.inactiveReason ?? 'injury');
+      setNote(inactiveEvent?.note ?? '');
+      setTime(formatGameSeconds(events[0].gameSeconds));
+      setIsSaving(false);
+    }
+  }, [isOpen, events, goalEvent, subInEvent, subOutEvent, cardEvent, inactiveEvent]);
+
+  const sortedPlayers = useMemo(() => [...players].sort((a, b) => a.first_name.localeCompare(b.first_name)), [players]);
+
+  if (!isOpen || events.length === 0) return null;
+
+  const userTeam: 'home' | 'away' = game.location;
+  const isUserTeamGoal = team === userTeam;
+  const cardName = cardEvent?.type === 'red_card' ? 'Red Card' : 'Yellow Card';
+  const isOwnGoal = goalType === 'own_goal';
+  const teamNames = { home: game.location === 'home' ? teamName : game.opponent, away: game.location === 'away' ? teamName : game.opponent };
+
+  // A card edit or delete can change who is sent off, and the lineup is moved to match; the coach sees how first
+  const getSentOffChanges = (newEvents: GameEvent[]): string[] => {
+    const playerIds = [...new Set([cardEvent?.playerId, cardPlayerId].filter((id): id is string => !!id))];
+    return playerIds.flatMap(playerId => {
+      const lineupState = game.lineup.find(p => p.id === playerId);
+      const player = players.find(p => p.id === playerId);
+      if (!lineupState || !player) return [];
+      const wasSentOff = isSentOff(game.events, playerId);
+      const willBeSentOff = isSentOff(newEvents, playerId);
+      if (!wasSentOff && willBeSentOff && lineupState.location !== 'inactive') return [`${player.first_name} will be sent off and leave play.`];
+      if (wasSentOff && !willBeSentOff && lineupState.location === 'inactive') return [`${player.first_name} will no longer be sent off and returns to the bench.`];
+      return [];
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const gameSeconds = parseGameSeconds(time);
+    if (gameSeconds === null) { alert('Please enter the time as mm:ss.'); return; }
+    if (goalEvent && isUserTeamGoal && !isOwnGoal && scorerId && scorerId === assistId) { alert('The scorer cannot also be the assist.'); return; }
+    if (subInEvent && subOutEvent && playerInId === playerOutId) { alert('A player cannot be substituted for themselves.'); return; }
+    if ((subInEvent && !playerInId) || (subOutEvent && !playerOutId)) { alert('Please select the substituted players.'); return; }
+    if (cardEvent && isUserTeamGoal && !cardPlayerId) { alert('Please select the player who was booked.'); return; }
+
+    const updates: { id: string; changes: GameEventChanges }[] = [];
+    if (goalEvent) {
+      updates.push({ id: goalEvent.id, changes: {
+        team,
+        // Opponent goals and own goals are not credited to our players
+        scorerPlayerId: isUserTeamGoal && !isOwnGoal ? scorerId || null : null,
+        assistPlayerId: isUserTeamGoal && !isOwnGoal ? assistId || null : null,
+        goalType: goalType || null,
+        points: points === 1 ? null : points,
+        // Our player who scored an own goal for the opponent
+        playerId: !isUserTeamGoal && isOwnGoal ? ownGoalPlayerId || null : null,
+        gameSeconds,
+      } });
+    }
+    if (inactiveEvent) updates.push({ id: inactiveEvent.id, changes: { inactiveReason, note: note.trim() || null, gameSeconds } });
+    if (cardEvent) updates.push({ id: cardEvent.id, changes: { team, playerId: isUserTeamGoal ? cardPlayerId : null, gameSeconds } });
+    if (subInEvent) updates.push({ id: subInEvent.id, changes: { playerInId, gameSeconds } });
+    if (subOutEvent) updates.push({ id: subOutEvent.id, changes: { playerOutId, gameSeconds } });
+    if (cardEvent) {
+      const changesById = new Map(updates.map(u => [u.id, u.changes]));
+      const sentOffChanges = getSentOffChanges(game.events.map(event => ({ ...event, ...changesById.get(event.id) })));
+      if (sentOffChanges.length > 0 && !window.confirm(`${sentOffChanges.join('\n')}\n\nSave the ${cardName.toLowerCase()}?`)) return;
+    }
+
+    setIsSaving(true);
+    await onUpdateEvents(updates);
+    setIsSaving(false);
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    const sentOffChanges = cardEvent ? getSentOffChanges(game.events.filter(event => event.id !== cardEvent.id)) : [];
+    if (!window.confirm(goalEvent ? `Delete this ${sport.scoreLabel.toLowerCase()}? The score will be updated.` : cardEvent ? [`Delete this ${cardName.toLowerCase()}?`, ...sentOffChanges].join('\n') : inactiveEvent ? 'Delete this injury? The player stays inactive.' : 'Delete this substitution?')) return;
+    setIsSaving(true);
+    await onDeleteEvents(events.map(e => e.id));
+    setIsSaving(false);
+    onClose();
+  };
+
+  const selectClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50";
+  const renderPlayerOptions = () => sortedPlayers.map(p => (
+    <option key={p.id} value={p.id}>{`${p.first_name} ${p.last_name}`.trim()}{p.number ? ` (#${p.number})` : ''}</option>
+  ));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">{goalEvent ? `Edit ${sport.scoreLabel}` : cardEvent ? `Edit ${cardName}` : inactiveEvent ? 'Edit Injury' : 'Edit Substitution'}</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X size={24} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Team (goals and cards; substitutions are always our team) */}
+          {(goalEvent || cardEvent) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Team</label>
+              <div className="flex space-x-3">
+                {(['home', 'away'] as const).map(t => (
+                  <button key={t} type="button" onClick={() => setTeam(t)} disabled={isSaving} className={`flex-1 px-4 py-2 border rounded-md transition-colors truncate ${team === t ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'} disabled:opacity-50`}>
+                    {teamNames[t]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {goalEvent && sport.scoringActions.length > 1 && (
+            <div>
+              <label htmlFor="editEventPoints" className="block text-sm font-medium text-gray-700 mb-1">Points</label>
+              <select id="editEventPoints" value={points} onChange={(e) => setPoints(Number(e.target.value))} className={selectClassName} disabled={isSaving}>
+                {sport.scoringActions.map(action => (
+                  <option key={action.points} value={action.points}>{action.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {goalEvent && sport.hasGoalTypes && (
+            <div>
+              <label htmlFor="editEventGoalType" className="block text-sm font-medium text-gray-700 mb-1">Goal Type</label>
+              <select id="editEventGoalType" value={goalType} onChange={(e) => setGoalType(e.target.value as GoalType | '')} className={selectClassName} disabled={isSaving}>
+                <option value="">Not recorded</option>
+                {GOAL_TYPE_OPTIONS.map(option => (
+                  <option key={option.type} value={option.type}>{option.type === 'own_goal' ? `Own goal (${isUserTeamGoal ? 'opponent' : teamName})` : option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {goalEvent && !isUserTeamGoal && isOwnGoal && (
+            <div>
+              <label htmlFor="editEventOwnGoalPlayer" className="block text-sm font-medium text-gray-700 mb-1">Own Goal By</label>
+              <select id="editEventOwnGoalPlayer" value={ownGoalPlayerId} onChange={(e) => setOwnGoalPlayerId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                <option value="">Unknown</option>
+                {renderPlayerOptions()}
+              </select>
+            </div>
+          )}
+
+          {goalEvent && isUserTeamGoal && !isOwnGoal && (
+            <>
+              <div>
+                <label htmlFor="editEventScorer" className="block text-sm font-medium text-gray-700 mb-1">Scorer</label>
+                <select id="editEventScorer" value={scorerId} onChange={(e) => setScorerId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                  <option value="">Unknown</option>
+                  {renderPlayerOptions()}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="editEventAssist" className="block text-sm font-medium text-gray-700 mb-1">Assist</label>
+                <select id="editEventAssist" value={assistId} onChange={(e) => setAssistId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                  <option value="">None</option>
+                  {renderPlayerOptions()}
+                </select>
+              </div>
+            </>
+          )}
+
+          {cardEvent && isUserTeamGoal && (
+            <div>
+              <label htmlFor="editEventCardPlayer" className="block text-sm font-medium text-gray-700 mb-1">Player</label>
+              <select id="editEventCardPlayer" value={cardPlayerId} onChange={(e) => setCardPlayerId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                <option value="" disabled>Select player</option>
+                {renderPlayerOptions()}
+              </select>
+            </div>
+          )}
+
+          {inactiveEvent && (
+            <>
+              <div>
+                <label htmlFor="editEventInactiveReason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select id="editEventInactiveReason" value={inactiveReason} onChange={(e) => setInactiveReason(e.target.value as InactiveReason)} className={selectClassName} disabled={isSaving}>
+                  {INACTIVE_REASON_OPTIONS.map(option => (
+                    <option key={option.reason} value={option.reason}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="editEventNote" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                <input type="text" id="editEventNote" value={note} onChange={(e) => setNote(e.target.value)} className={selectClassName} placeholder="e.g., Twisted ankle" disabled={isSaving} />
+              </div>
+            </>
+          )}
+
+          {subInEvent && (
+            <div>
+              <label htmlFor="editEventPlayerIn" className="block text-sm font-medium text-gray-700 mb-1">Player In</label>
+              <select id="editEventPlayerIn" value={playerInId} onChange={(e) => setPlayerInId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                <option value="" disabled>Select player</option>
+                {renderPlayerOptions()}
+              </select>
+            </div>
+          )}
+          {subOutEvent && (
+            <div>
+              <label htmlFor="editEventPlayerOut" className="block text-sm font-medium text-gray-700 mb-1">Player Out</label>
+              <select id="editEventPlayerOut" value={playerOutId} onChange={(e) => setPlayerOutId(e.target.value)} className={selectClassName} disabled={isSaving}>
+                <option value="" disabled>Select player</option>
+                {renderPlayerOptions()}
+              </select>
+            </div>
+          )}
+
+          {/* Game time of the event (gameSeconds) */}
+          <div>
+            <label htmlFor="editEventTime" className="block text-sm font-medium text-gray-700 mb-1">Game Time (mm:ss)</label>
+            <div className="relative">
+              <span className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"><Clock size={18} className="text-gray-400" /></span>
+              <input type="text" id="editEventTime" inputMode="numeric" value={time} onChange={(e) => setTime(e.target.value)} className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" placeholder="e.g., 23:15" required disabled={isSaving} />
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-between items-center pt-4">
+            <button type="button" onClick={handleDelete} disabled={isSaving} className="flex items-center space-x-1 px-3 py-2 text-red-600 rounded-md hover:bg-red-50 transition disabled:opacity-50">
+              <Trash2 size={18} /><span>Delete</span>
+            </button>
+            <div className="flex space-x-3">
+              <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Cancel</button>
+              <button type="submit" disabled={isSaving} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center">
+                {isSaving ? <Loader2 className="animate-spin mr-2" size={18} /> : null}
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditEventModal;
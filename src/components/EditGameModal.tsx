@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useContext } from 'react';
 import { Users, Calendar, Clock, Home, Plane, X, Trophy, Repeat, Loader2 } from 'lucide-react'; // Added Loader2
 import { Game, GameData, TeamContext } from '../context/TeamContext'; // Import GameData
+import { DEFAULT_PERIOD_CONFIG, PeriodConfig } from '../lib/periods';
+import PeriodSettingsFields from './PeriodSettingsFields';
+import GameFormatField from './GameFormatField';
+import { DEFAULT_FIELD_PLAYER_COUNT } from '../lib/gameFormats';
 
 interface EditGameModalProps {
   isOpen: boolean;
@@ -11,13 +15,15 @@ interface EditGameModalProps {
 }
 
 const EditGameModal: React.FC<EditGameModalProps> = ({ isOpen, onClose, game, onUpdateGame }) => {
-  const { gameHistory } = useContext(TeamContext);
+  const { gameHistory, sport } = useContext(TeamContext);
   const [opponent, setOpponent] = useState('');
   const [date, setDate] = useState(''); // Corresponds to game_date
   const [time, setTime] = useState(''); // Corresponds to game_time
   const [location, setLocation] = useState<'home' | 'away'>('home');
   const [season, setSeason] = useState('');
   const [competition, setCompetition] = useState('');
+  const [periods, setPeriods] = useState<PeriodConfig>(DEFAULT_PERIOD_CONFIG);
+  const [fieldPlayerCount, setFieldPlayerCount] = useState<number | null>(DEFAULT_FIELD_PLAYER_COUNT);
   const [isSaving, setIsSaving] = useState(false); // Loading state
 
   useEffect(() => {
@@ -28,6 +34,8 @@ const EditGameModal: React.FC<EditGameModalProps> = ({ isOpen, onClose, game, on
       setLocation(game.location);
       setSeason(game.season || '');
       setCompetition(game.competition || '');
+      setPeriods({ period_count: game.period_count, period_minutes: game.period_minutes, break_minutes: game.break_minutes });
+      setFieldPlayerCount(game.field_player_count);
       setIsSaving(false); // Reset loading state
     }
     if (!isOpen) {
@@ -37,6 +45,8 @@ const EditGameModal: React.FC<EditGameModalProps> = ({ isOpen, onClose, game, on
         setLocation('home');
         setSeason('');
         setCompetition('');
+        setPeriods(DEFAULT_PERIOD_CONFIG);
+        setFieldPlayerCount(DEFAULT_FIELD_PLAYER_COUNT);
         setIsSaving(false);
     }
   }, [isOpen, game]);
@@ -54,6 +64,8 @@ const EditGameModal: React.FC<EditGameModalProps> = ({ isOpen, onClose, game, on
           location,
           season: season, // Context handler will convert '' to null
           competition: competition, // Context handler will convert '' to null
+          ...periods,
+          field_player_count: fieldPlayerCount,
           // Other fields like score, timer, lineup, events are updated by game actions
         });
         onClose(); // Close modal on success
@@ -164,6 +176,12 @@ const EditGameModal: React.FC<EditGameModalProps> = ({ isOpen, onClose, game, on
             </div>
           </div>
 
+          {/* Periods (the ones already played can't be removed) */}
+          <PeriodSettingsFields value={periods} onChange={setPeriods} disabled={isSaving} minPeriodCount={game.period_end_seconds.length + 1} />
+
+          {/* Format (players already on the field stay there if it gets smaller) */}
+          <GameFormatField value={fieldPlayerCount} onChange={setFieldPlayerCount} sport={sport} disabled={isSaving} />
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-3 pt-4">
             <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Cancel</button>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User, Hash, X, Trash2, Loader2 } from 'lucide-react'; // Added Loader2
+import { User, Hash, X, Trash2, Loader2, Ambulance, MapPin } from 'lucide-react'; // Added Loader2
 import { Player, PlayerData } from '../context/TeamContext'; // Import PlayerData
 import ConfirmModal from './ConfirmModal';
 
@@ -10,9 +10,19 @@ interface EditPlayerModalProps {
   // Updated signatures for async operations and PlayerData fields
   onUpdatePlayer: (id: string, updates: Partial<Pick<PlayerData, 'first_name' | 'last_name' | 'number'>>) => Promise<void>;
   onDeletePlayer: (id: string) => Promise<void>;
+  injuries?: PlayerInjury[]; // Injury history across games, most recent first
+  roleMinutes?: { role: string; seconds: number }[]; // Time played per position role, most played first
 }
 
-const EditPlayerModal: React.FC<EditPlayerModalProps> = ({ isOpen, onClose, player, onUpdatePlayer, onDeletePlayer }) => {
+export interface PlayerInjury {
+  eventId: string;
+  date: string; // Formatted game date
+  opponent: string;
+  minute: string; // Match minute, e.g. "34'"
+  note: string | null;
+}
+
+const EditPlayerModal: React.FC<EditPlayerModalProps> = ({ isOpen, onClose, player, onUpdatePlayer, onDeletePlayer, injuries = [], roleMinutes = [] }) => {
   // State uses PlayerData fields for editing
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
@@ -116,6 +126,40 @@ const EditPlayerModal: React.FC<EditPlayerModalProps> = ({ isOpen, onClose, play
               </div>
             </div>
 
+            {/* Minutes by Position */}
+            {roleMinutes.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1"><MapPin size={16} className="text-gray-500" /><span>Minutes by Position</span></label>
+                <ul className="text-sm space-y-1">
+                  {roleMinutes.map(({ role, seconds }) => {
+                    const share = Math.round((seconds / roleMinutes.reduce((sum, r) => sum + r.seconds, 0)) * 100);
+                    return (
+                      <li key={role} className="flex items-center space-x-2">
+                        <span className="w-12 font-medium truncate">{role}</span>
+                        <span className="flex-grow h-2 bg-gray-100 rounded"><span className="block h-2 bg-red-400 rounded" style={{ width: `${share}%` }}></span></span>
+                        <span className="w-24 text-right text-gray-600">{Math.round(seconds / 60)} min ({share}%)</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {/* Injury History */}
+            {injuries.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1"><Ambulance size={16} className="text-red-600" /><span>Injury History</span></label>
+                <ul className="max-h-32 overflow-y-auto text-sm divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {injuries.map(injury => (
+                    <li key={injury.eventId} className="px-3 py-1.5">
+                      <span className="font-medium">{injury.date}</span> <span className="text-gray-500">vs {injury.opponent}, {injury.minute}</span>
+                      {injury.note && <span className="block text-xs text-gray-600">{injury.note}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex justify-between items-center pt-4">
               <button type="button" onClick={handleDeleteClick} disabled={isLoading} className="px-4 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition flex items-center space-x-1 disabled:opacity-50">
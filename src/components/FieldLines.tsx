@@ -0,0 +1,61 @@
+import React from 'react';
+import { getFieldMarkings } from '../lib/gameFormats';
+import { SportId } from '../lib/sports';
+
+interface FieldLinesProps {
+  sport?: SportId; // Soccer when not given
+  fieldPlayerCount?: number | null; // The game format; soccer markings are sized for it
+}
+
+const lineClassName = "absolute border-2 border-white/50 pointer-events-none";
+
+const centered = (width: number): React.CSSProperties => ({ left: `${(100 - width) / 2}%`, width: `${width}%` });
+
+const SoccerLines: React.FC<{ fieldPlayerCount?: number | null }> = ({ fieldPlayerCount }) => {
+  const markings = getFieldMarkings(fieldPlayerCount);
+  const { penaltyArea, goalArea, centerCircle } = markings;
+
+  return (
+    <>
+      <div className={`${lineClassName} bottom-0 border-b-0`} style={{ ...centered(penaltyArea.width), height: `${penaltyArea.depth}%` }}></div>
+      {goalArea && <div className={`${lineClassName} bottom-0 border-b-0`} style={{ ...centered(goalArea.width), height: `${goalArea.depth}%` }}></div>}
+      {markings.penaltyArc && <div className={`${lineClassName} border-b-0 rounded-t-full`} style={{ ...centered(centerCircle), bottom: `${penaltyArea.depth}%`, height: `${centerCircle / 2}%` }}></div>}
+      <div className={`${lineClassName} border-t-0 rounded-b-full`} style={{ ...centered(centerCircle), top: `-${centerCircle * 0.6}%`, height: `${centerCircle * 1.2}%` }}></div>
+      {markings.cornerArcs && (
+        <>
+          <div className={`${lineClassName} bottom-[-5%] left-[-5%] w-[10%] h-[10%] border-b-0 border-l-0 rounded-tr-full`}></div>
+          <div className={`${lineClassName} bottom-[-5%] right-[-5%] w-[10%] h-[10%] border-b-0 border-r-0 rounded-tl-full`}></div>
+        </>
+      )}
+    </>
+  );
+};
+
+// Half court: three-point line, key with the free-throw circle, backboard, and half of the center circle
+const BasketballLines: React.FC = () => (
+  <>
+    <div className={`${lineClassName} bottom-0 border-b-0 rounded-t-full`} style={{ ...centered(90), height: '60%' }}></div>
+    <div className={`${lineClassName} bottom-0 border-b-0`} style={{ ...centered(32), height: '40%' }}></div>
+    <div className={`${lineClassName} border-b-0 rounded-t-full`} style={{ ...centered(24), bottom: '40%', height: '12%' }}></div>
+    <div className={`${lineClassName} border-b-0 border-l-0 border-r-0`} style={{ ...centered(12), bottom: '8%', height: 0 }}></div>
+    <div className={`${lineClassName} border-t-0 rounded-b-full`} style={{ ...centered(24), top: '-12%', height: '24%' }}></div>
+  </>
+);
+
+// Half pitch: shooting circle with its dashed outer circle, and the 23m line
+const HockeyLines: React.FC = () => (
+  <>
+    <div className={`${lineClassName} bottom-0 border-b-0 rounded-t-full`} style={{ ...centered(60), height: '32%' }}></div>
+    <div className={`${lineClassName} bottom-0 border-b-0 border-dashed rounded-t-full`} style={{ ...centered(78), height: '43%' }}></div>
+    <div className={`${lineClassName} left-0 w-full border-b-0 border-l-0 border-r-0`} style={{ bottom: '50%', height: 0 }}></div>
+  </>
+);
+
+// Markings for the field drop zones (halfway line at the top, our goal at the bottom)
+const FieldLines: React.FC<FieldLinesProps> = ({ sport, fieldPlayerCount }) => {
+  if (sport === 'basketball') return <BasketballLines />;
+  if (sport === 'field_hockey') return <HockeyLines />;
+  return <SoccerLines fieldPlayerCount={fieldPlayerCount} />;
+};
+
+export default FieldLines;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2, Save, Loader2 } from 'lucide-react';
+import { Formation, isBuiltInFormation } from '../lib/formations';
+
+interface FormationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  formations: Formation[];
+  activeFormationId: string | null;
+  fieldPlayerCount: number; // Players on the field now; the current layout can be saved as a formation
+  onSelect: (formationId: string | null) => Promise<void>; // null for free placement
+  onSaveFormation: (name: string) => Promise<void>;
+  onDeleteFormation: (formationId: string) => Promise<void>;
+}
+
+const FormationModal: React.FC<FormationModalProps> = ({ isOpen, onClose, formations, activeFormationId, fieldPlayerCount, onSelect, onSaveFormation, onDeleteFormation }) => {
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setNewName('');
+      setIsSaving(false);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const runAndClose = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    await action();
+    setIsSaving(false);
+    onClose();
+  };
+
+  const handleSaveFormation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) { alert('Please enter a name for the formation.'); return; }
+    if (formations.some(f => f.name.toLowerCase() === newName.trim().toLowerCase())) { alert('A formation with this name already exists.'); return; }
+    setIsSaving(true);
+    await onSaveFormation(newName);
+    setIsSaving(false);
+    setNewName('');
+  };
+
+  const handleDelete = async (formation: Formation) => {
+    if (!window.confirm(`Delete the formation "${formation.name}"?`)) return;
+    setIsSaving(true);
+    await onDeleteFormation(formation.id);
+    setIsSaving(false);
+  };
+
+  const optionClass = (isActive: boolean) => `flex-grow text-left px-3 py-2 border rounded-md text-sm transition-colors ${isActive ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'} disabled:opacity-50`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Formation</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Formations */}
+        <div className="space-y-2 max-h-72 overflow-y-auto mb-4">
+          <div className="flex">
+            <button type="button" onClick={() => runAndClose(() => onSelect(null))} disabled={isSaving} className={optionClass(activeFormationId === null)}>Free placement</button>
+          </div>
+          {formations.map(formation => (
+            <div key={formation.id} className="flex items-center space-x-2">
+              <button type="button" onClick={() => runAndClose(() => onSelect(formation.id))} disabled={isSaving} className={optionClass(activeFormationId === formation.id)}>
+                <span className="font-medium">{formation.name}</span>
+                <span className="ml-2 text-xs text-gray-500">{formation.slots.length} players</span>
+              </button>
+              {!isBuiltInFormation(formation.id) && (
+                <button type="button" onClick={() => handleDelete(formation)} disabled={isSaving} className="text-gray-400 hover:text-red-600 disabled:opacity-30" title="Delete formation"><Trash2 size={16} /></button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Save the current layout */}
+        <form onSubmit={handleSaveFormation}>
+          <label htmlFor="formationName" className="block text-sm font-medium text-gray-700 mb-1">Save current layout as a formation</label>
+          <div className="flex space-x-2">
+            <input type="text" id="formationName" value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={30} className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" placeholder="e.g., 3-2-1 diamond" disabled={isSaving || fieldPlayerCount === 0} />
+            <button type="submit" disabled={isSaving || fieldPlayerCount === 0} className="px-3 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50 flex items-center" title="Save formation">
+              {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+            </button>
+          </div>
+          {fieldPlayerCount === 0 && <p className="text-xs text-gray-500 mt-1">Place players on the field first.</p>}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default FormationModal;
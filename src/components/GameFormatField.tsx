@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { Users } from 'lucide-react';
+import { MAX_FIELD_PLAYER_COUNT, MIN_FIELD_PLAYER_COUNT } from '../lib/gameFormats';
+import { SportDefinition } from '../lib/sports';
+
+interface GameFormatFieldProps {
+  value: number | null; // Players per team on the field; null for no limit
+  onChange: (value: number | null) => void;
+  sport: SportDefinition; // Offers the sport's formats
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50";
+
+// Game format input shared by the add and edit game modals
+const GameFormatField: React.FC<GameFormatFieldProps> = ({ value, onChange, sport, disabled }) => {
+  const isPreset = value === null || sport.formats.some(f => f.fieldPlayerCount === value);
+  const [isCustom, setIsCustom] = useState(!isPreset);
+
+  useEffect(() => {
+    if (!isPreset) setIsCustom(true);
+  }, [isPreset]);
+
+  const handleFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === 'custom') { setIsCustom(true); if (value === null) onChange(sport.defaultFieldPlayerCount); return; }
+    setIsCustom(false);
+    onChange(e.target.value === 'none' ? null : Number(e.target.value));
+  };
+
+  const handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const number = parseInt(e.target.value, 10);
+    onChange(Number.isNaN(number) ? MIN_FIELD_PLAYER_COUNT : Math.min(MAX_FIELD_PLAYER_COUNT, Math.max(MIN_FIELD_PLAYER_COUNT, number)));
+  };
+
+  return (
+    <div>
+      <label htmlFor="gameFormat" className="block text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1"><Users size={16} className="text-gray-400" /><span>Format</span></label>
+      <div className="grid grid-cols-3 gap-3">
+        <select id="gameFormat" value={isCustom ? 'custom' : value === null ? 'none' : value} onChange={handleFormatChange} className={`${inputClassName} ${isCustom ? 'col-span-2' : 'col-span-3'}`} disabled={disabled}>
+          {sport.formats.map(format => (<option key={format.fieldPlayerCount} value={format.fieldPlayerCount}>{format.label}</option>))}
+          <option value="custom">Custom</option>
+          <option value="none">No limit</option>
+        </select>
+        {isCustom && (
+          <input type="number" aria-label="Players on the field" min={MIN_FIELD_PLAYER_COUNT} max={MAX_FIELD_PLAYER_COUNT} value={value ?? sport.defaultFieldPlayerCount} onChange={handleCountChange} className={inputClassName} disabled={disabled} title="Players per team on the field, goalkeeper included" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameFormatField;
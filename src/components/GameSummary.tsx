@@ -1,12 +1,19 @@
-import React, { useMemo } from 'react';
-import { Game, Player, GameEvent, PlayerLineupState } from '../context/TeamContext';
-import { Goal, ArrowRight, ArrowLeft, Square } from 'lucide-react';
+import React, { useContext, useMemo } from 'react';
+import { Game, Player, GameEvent, PlayerLineupState, TeamContext } from '../context/TeamContext';
+import { Goal, ArrowRight, ArrowLeft, Square, Check, X, Ambulance } from 'lucide-react';
+import { formatMinute, getPeriodEndLabel, getPeriodEnds } from '../lib/periods';
+import { getSendingOffEvent } from '../lib/cards';
+import { STAT_EVENT_TYPES, getTeamStatCounts, isStatEvent } from '../lib/statEvents';
+import { getGoalPoints, getGoalTypeLabel, isOwnGoal } from '../lib/goals';
+import { getScoringAction } from '../lib/sports';
+import { getShootoutKicks, getShootoutScore, isShootoutKick } from '../lib/shootout';
 
 interface GameSummaryProps {
   game: Game;
   players: Player[];
   teamName: string;
   teamLogo: string | null;
+  onEditEvents?: (events: GameEvent[]) => void; // Opens the editor for a timeline row (a goal, or both halves of a substitution)
 }
 
 // Helper to get player name - Use first_name/last_name
@@ -17,25 +24,24 @@ const getPlayerName = (playerId: string | null | undefined, playerMap: Map<strin
   return player ? `${player.first_name} ${player.last_name}`.trim() : 'Unknown Player';
 };
 
-// Helper to format minute display (Unchanged)
-const formatMinute = (gameSeconds: number): string => {
-  const minute = Math.floor(gameSeconds / 60);
-  const extraSeconds = Math.round(gameSeconds % 60);
-  if (minute >= 90 && extraSeconds > 0) { const stoppageMinutes = Math.ceil((gameSeconds - 90 * 60) / 60); return `90+${stoppageMinutes}'`; }
-  if (minute >= 45 && minute < 50 && extraSeconds > 0) { const htStoppage = Math.ceil((gameSeconds - 45 * 60) / 60); if (htStoppage > 0) return `45+${htStoppage}'`; }
-  return `${Math.max(1, minute + 1)}'`;
-};
+// Timeline markers for the end of each period ("HT", "Q1") and of the game
+type TimelineMarker = { type: 'periodEnd'; gameSeconds: number; label: string } | { type: 'FT'; gameSeconds: number; label: string };
 
 
-const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
+const GameSummary: React.FC<GameSummaryProps> = ({ game, players, onEditEvents }) => {
+  const { sport } = useContext(TeamContext);
   // Use first_name/last_name for playerMap
   const playerMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
 
   // Use timer_elapsed_seconds
   const sortedEvents = useMemo(() => {
-    const eventsWithMarkers: (GameEvent | { type: 'FT'; gameSeconds: number })[] = [...(game.events || [])];
+    // Stat events are totalled in the match stats and shootout kicks listed after full time, not in the timeline
+    const eventsWithMarkers: (GameEvent | TimelineMarker)[] = (game.events || []).filter(e => !isStatEvent(e) && !isShootoutKick(e));
+    getPeriodEnds(game).forEach((endSeconds, index) => {
+      eventsWithMarkers.push({ type: 'periodEnd', gameSeconds: endSeconds, label: getPeriodEndLabel(game.period_count, index + 1) });
+    });
     // Use timer_elapsed_seconds for FT marker
-    eventsWithMarkers.push({ type: 'FT', gameSeconds: game.timer_elapsed_seconds ?? 0 });
+    eventsWithMarkers.push({ type: 'FT', gameSeconds: game.timer_elapsed_seconds ?? 0, label: 'FT' });
     return eventsWithMarkers.sort((a, b) => {
         if (a.gameSeconds !== b.gameSeconds) return a.gameSeconds - b.gameSeconds;
         if ('timestamp' in a && 'timestamp' in b) return a.timestamp - b.timestamp;
@@ -43,13 +49,13 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
         if ('timestamp' in b) return 1;
         return 0;
     });
-  }, [game.events, game.timer_elapsed_seconds]); // Depend on timer_elapsed_seconds
+  }, [game]);
 
   const calculateScoreAtTime = (targetSeconds: number): { home: number; away: number } => {
     let home = 0; let away = 0;
     (game.events || []).forEach(event => {
       if (event.type === 'goal' && event.gameSeconds <= targetSeconds) {
-        if (event.team === 'home') home++; else away++;
+        if (event.team === 'home') home += getGoalPoints(event); else away += getGoalPoints(event);
       }
     });
     return { home, away };
@@ -58,6 +64,11 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
   // Use home_score/away_score
   const fullTimeScore = useMemo(() => ({ home: game.home_score ?? 0, away: game.away_score ?? 0 }), [game.home_score, game.away_score]);
 
+  const matchStats = useMemo(() => {
+    if (!(game.events || []).some(isStatEvent)) return null;
+    return { home: getTeamStatCounts(game.events, 'home'), away: getTeamStatCounts(game.events, 'away') };
+  }, [game.events]);
+
   const renderTimeline = () => {
     const timelineElements: React.ReactNode[] = [];
     const processedEventIds = new Set<string>();
@@ -65,17 +76,17 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
     sortedEvents.forEach((event, index) => {
       if ('id' in event && processedEventIds.has(event.id)) return;
 
-      const minute = formatMinute(event.gameSeconds);
+      const minute = formatMinute(game, event.gameSeconds);
       const isUserHome = game.location === 'home';
 
-      // --- FT Marker ---
-      if (event.type === 'FT') {
-        const score = fullTimeScore;
+      // --- Period End / FT Markers ---
+      if (event.type === 'FT' || event.type === 'periodEnd') {
+        const score = event.type === 'FT' ? fullTimeScore : calculateScoreAtTime(event.gameSeconds);
         timelineElements.push(
-          <div key={`marker-FT-${index}`} className="flex items-center justify-center my-4">
+          <div key={`marker-${event.type}-${index}`} className="flex items-center justify-center my-4">
             <div className="flex-grow border-t border-gray-300"></div>
             <div className="mx-4 flex items-center space-x-2 text-gray-600 font-semibold">
-               <span className="border-2 border-gray-400 rounded-full w-8 h-8 flex items-center justify-center text-sm">FT</span>
+               <span className="border-2 border-gray-400 rounded-full w-8 h-8 flex items-center justify-center text-sm">{event.label}</span>
                <span>{score.home} - {score.away}</span>
             </div>
             <div className="flex-grow border-t border-gray-300"></div>
@@ -92,19 +103,33 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
       let icon: React.ReactNode = null;
       let primaryText: React.ReactNode = null;
       let secondaryText: React.ReactNode = null;
+      let rowEvents: GameEvent[] = [event];
 
       if (event.type === 'goal') {
         icon = <Goal size={18} className="text-black" />;
         const score = calculateScoreAtTime(event.gameSeconds);
         const scoreText = `(${score.home} - ${score.away})`;
 
-        if (isUserTeamEvent) {
-          primaryText = <span className="font-semibold">{getPlayerName(event.scorerPlayerId, playerMap) || 'Goal'} {scoreText}</span>;
-          if (event.assistPlayerId) {
-            secondaryText = <span className="text-xs text-gray-500">Assist by {getPlayerName(event.assistPlayerId, playerMap)}</span>;
+        // Open play is the default and isn't labelled
+        const goalTypeLabel = event.goalType && event.goalType !== 'open_play' && event.goalType !== 'own_goal' ? getGoalTypeLabel(event.goalType) : null;
+        // Sports with several ways to score show which one it was ("3 points")
+        const pointsLabel = sport.scoringActions.length > 1 ? getScoringAction(sport, getGoalPoints(event)).label : null;
+
+        if (isOwnGoal(event)) {
+          // Counted for this row's team; scored by the other side
+          primaryText = <span className="font-semibold">Own goal {scoreText}</span>;
+          const ownGoalBy = isUserTeamEvent ? 'opponent' : getPlayerName(event.playerId, playerMap);
+          if (ownGoalBy) secondaryText = <span className="text-xs text-gray-500">By {ownGoalBy}</span>;
+        } else if (isUserTeamEvent) {
+          primaryText = <span className="font-semibold">{getPlayerName(event.scorerPlayerId, playerMap) || sport.scoreLabel} {scoreText}</span>;
+          const details = [pointsLabel, goalTypeLabel, event.assistPlayerId ? `Assist by ${getPlayerName(event.assistPlayerId, playerMap)}` : null].filter(Boolean);
+          if (details.length > 0) {
+            secondaryText = <span className="text-xs text-gray-500">{details.join(' · ')}</span>;
           }
         } else {
-          primaryText = <span className="font-semibold">Goal {scoreText}</span>; // Opponent Goal
+          primaryText = <span className="font-semibold">{sport.scoreLabel} {scoreText}</span>; // Opponent Goal
+          const details = [pointsLabel, goalTypeLabel].filter(Boolean);
+          if (details.length > 0) secondaryText = <span className="text-xs text-gray-500">{details.join(' · ')}</span>;
         }
         processedEventIds.add(event.id);
 
@@ -120,6 +145,7 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
           primaryText = ( <div className={`flex items-center ${alignRight ? 'justify-end' : ''}`}> {!alignRight && <span className="mr-2 flex-shrink-0"><div className="w-4 h-4 bg-green-500 rounded-full border border-white flex items-center justify-center"><ArrowRight size={10} className="text-white" /></div></span>} <span className="text-green-600">{getPlayerName(playerInEvent.playerInId, playerMap)}</span> {alignRight && <span className="ml-2 flex-shrink-0"><div className="w-4 h-4 bg-green-500 rounded-full border border-white flex items-center justify-center"><ArrowRight size={10} className="text-white" /></div></span>} </div> );
           secondaryText = ( <div className={`flex items-center ${alignRight ? 'justify-end' : ''}`}> {!alignRight && <span className="mr-2 flex-shrink-0"><div className="w-4 h-4 bg-red-500 rounded-full border border-white flex items-center justify-center"><ArrowLeft size={10} className="text-white" /></div></span>} <span className="text-red-600">{getPlayerName(playerOutEvent.playerOutId, playerMap)}</span> {alignRight && <span className="ml-2 flex-shrink-0"><div className="w-4 h-4 bg-red-500 rounded-full border border-white flex items-center justify-center"><ArrowLeft size={10} className="text-white" /></div></span>} </div> );
           icon = null;
+          rowEvents = [playerInEvent, playerOutEvent];
           processedEventIds.add(event.id);
           processedEventIds.add(pairEvent.id);
         } else if (isUserTeamEvent) {
@@ -133,11 +159,32 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
              else { processedEventIds.add(event.id); }
              return; // Don't render opponent subs
         }
+      } else if (event.type === 'yellow_card' || event.type === 'red_card') {
+        const isRed = event.type === 'red_card';
+        // A second yellow is shown as a yellow card that sent the player off
+        const isSecondYellow = !isRed && !!event.playerId && getSendingOffEvent(game.events, event.playerId)?.id === event.id;
+        icon = <span className={`block w-3 h-4 rounded-sm border ${isRed ? 'bg-red-600 border-red-700' : 'bg-yellow-400 border-yellow-500'}`}></span>;
+        primaryText = <span className="font-semibold">{(isUserTeamEvent && getPlayerName(event.playerId, playerMap)) || (isRed ? 'Red card' : 'Yellow card')}</span>;
+        if (isSecondYellow) {
+          secondaryText = <span className="text-xs text-red-600">Second yellow - sent off</span>;
+        }
+        processedEventIds.add(event.id);
+      } else if (event.type === 'player_inactive') {
+        processedEventIds.add(event.id);
+        if (event.inactiveReason !== 'injury') return; // Only injuries are part of the match story
+        icon = <Ambulance size={18} className="text-red-600" />;
+        primaryText = <span className="font-semibold">{getPlayerName(event.playerId, playerMap) || 'Injury'}</span>;
+        secondaryText = <span className="text-xs text-gray-500">{event.note ? `Injury: ${event.note}` : 'Injury'}</span>;
       }
 
       // --- Render the Event Row ---
       timelineElements.push(
-        <div key={'id' in event ? event.id : `marker-${event.type}-${index}`} className={`flex items-start my-3 ${alignRight ? 'justify-end text-right' : 'justify-start text-left'}`}>
+        <div
+          key={'id' in event ? event.id : `marker-${event.type}-${index}`}
+          onClick={onEditEvents ? () => onEditEvents(rowEvents) : undefined}
+          className={`flex items-start my-3 ${alignRight ? 'justify-end text-right' : 'justify-start text-left'} ${onEditEvents ? 'cursor-pointer rounded hover:bg-gray-50' : ''}`}
+          title={onEditEvents ? 'Edit event' : undefined}
+        >
           {!alignRight && ( <span className="w-12 text-sm font-semibold text-gray-600 mr-3 text-center flex-shrink-0">{minute}</span> )}
           {!alignRight && icon && ( <span className="mr-2 mt-0.5 flex-shrink-0">{icon}</span> )}
           <div className={`flex flex-col`}> {primaryText} {secondaryText} </div>
@@ -150,11 +197,57 @@ const GameSummary: React.FC<GameSummaryProps> = ({ game, players }) => {
     return timelineElements;
   };
 
+  const renderShootout = () => {
+    const shootoutScore = getShootoutScore(game.events || []);
+    if (!shootoutScore) return null;
+    const isUserHome = game.location === 'home';
+    return (
+      <>
+        <div className="flex items-center justify-center my-4">
+          <div className="flex-grow border-t border-gray-300"></div>
+          <div className="mx-4 flex items-center space-x-2 text-gray-600 font-semibold">
+             <span className="border-2 border-gray-400 rounded-full w-8 h-8 flex items-center justify-center text-sm" title="Penalty shootout">P</span>
+             <span>{shootoutScore.home} - {shootoutScore.away}</span>
+          </div>
+          <div className="flex-grow border-t border-gray-300"></div>
+        </div>
+        {getShootoutKicks(game.events).map(kick => {
+          const isUserTeamKick = kick.team === game.location;
+          const alignRight = isUserTeamKick !== isUserHome;
+          const isScored = kick.type === 'shootout_scored';
+          const icon = isScored ? <Check size={16} className="text-green-600" /> : <X size={16} className="text-red-600" />;
+          return (
+            <div key={kick.id} className={`flex items-center my-2 ${alignRight ? 'justify-end text-right' : 'justify-start text-left'}`}>
+              {!alignRight && <span className="w-12 mr-3 flex-shrink-0"></span>}
+              {!alignRight && <span className="mr-2 flex-shrink-0">{icon}</span>}
+              <span className={isScored ? 'text-gray-800' : 'text-gray-500'}>{(isUserTeamKick && getPlayerName(kick.playerId, playerMap)) || (isScored ? 'Scored' : 'Missed')}</span>
+              {alignRight && <span className="ml-2 flex-shrink-0">{icon}</span>}
+              {alignRight && <span className="w-12 ml-3 flex-shrink-0"></span>}
+            </div>
+          );
+        })}
+      </>
+    );
+  };
+
 
   return (
     <div className="mt-6 bg-white p-4 rounded-lg shadow">
+      {matchStats && (
+        <div className="mb-4 text-sm">
+          <h3 className="text-center font-semibold text-gray-700 mb-2">Match Stats</h3>
+          {[{ key: 'shots' as const, label: 'Shots' }, ...STAT_EVENT_TYPES.filter(s => sport.statEventTypes.includes(s.type)).map(s => ({ key: s.type, label: s.totalLabel }))].map(row => (
+            <div key={row.key} className="flex items-center py-1 border-b border-gray-100 last:border-b-0">
+              <span className="w-12 text-center font-semibold">{matchStats.home[row.key]}</span>
+              <span className="flex-grow text-center text-gray-600">{row.label}</span>
+              <span className="w-12 text-center font-semibold">{matchStats.away[row.key]}</span>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="text-sm">
         {renderTimeline()}
+        {renderShootout()}
       </div>
     </div>
   );
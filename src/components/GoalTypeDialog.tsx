@@ -0,0 +1,41 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { GOAL_TYPE_OPTIONS, GoalType } from '../lib/goals';
+
+interface GoalTypeDialogProps {
+  isOpen: boolean;
+  onClose: () => void; // Called when 'X' is clicked; the goal is kept without a type
+  onSelectGoalType: (goalType: GoalType) => void;
+  ownGoalLabel: string; // Whose own goal this would be, e.g. "Own goal (opponent)"
+}
+
+// Step of the goal flow after the scorer: how the goal was scored
+const GoalTypeDialog: React.FC<GoalTypeDialogProps> = ({ isOpen, onClose, onSelectGoalType, ownGoalLabel }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Goal Type</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {GOAL_TYPE_OPTIONS.map(option => (
+            <button
+              key={option.type}
+              onClick={() => onSelectGoalType(option.type)}
+              className={`px-3 py-2 border rounded-md text-sm font-medium transition ${option.type === 'own_goal' ? 'col-span-2 border-gray-300 text-gray-600 hover:bg-gray-100' : 'border-red-200 text-gray-800 hover:bg-red-50'}`}
+            >
+              {option.type === 'own_goal' ? ownGoalLabel : option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalTypeDialog;
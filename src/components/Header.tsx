@@ -38,6 +38,7 @@ const Header: React.FC<HeaderProps> = ({ currentPage, setCurrentPage, isLoggedIn
   const [isEditingName, setIsEditingName] = useState(false);
   const [newName, setNewName] = useState(''); // Initialize empty, will be set by effect
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
 
   const showBottomNav = ['team', 'schedule', 'stats'].includes(currentPage);
 
@@ -79,15 +80,13 @@ const Header: React.FC<HeaderProps> = ({ currentPage, setCurrentPage, isLoggedIn
     fileInputRef.current?.click();
   };
 
-  const handleLogoChange = (e: ChangeEvent<HTMLInputElement>) => {
+  const handleLogoChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64Logo = reader.result as string;
-        await updateTeamLogoInDb(base64Logo); // Call context function to update DB
-      };
-      reader.readAsDataURL(file);
+      setIsUploadingLogo(true);
+      await updateTeamLogoInDb(file); // Context resizes and uploads the image
+      setIsUploadingLogo(false);
     }
   };
   // --- End Handlers ---
@@ -108,13 +107,13 @@ const Header: React.FC<HeaderProps> = ({ currentPage, setCurrentPage, isLoggedIn
             onChange={handleLogoChange}
             accept="image/*"
             className="hidden"
-            disabled={teamLoading} // Disable while loading
+            disabled={teamLoading || isUploadingLogo} // Disable while loading
           />
           <button
             onClick={handleLogoClick}
             className="w-10 h-10 flex items-center justify-center text-white hover:opacity-80 transition cursor-pointer overflow-hidden flex-shrink-0 p-1 disabled:opacity-50 disabled:cursor-not-allowed"
             aria-label="Change team logo"
-            disabled={teamLoading} // Disable while loading
+            disabled={teamLoading || isUploadingLogo} // Disable while loading
           >
             {currentTeamLogo ? (
               <img src={currentTeamLogo} alt="Team Logo" className="w-full h-full object-cover rounded-full" />
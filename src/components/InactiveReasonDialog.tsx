@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Player } from '../context/TeamContext';
+import { INACTIVE_REASON_OPTIONS, InactiveReason } from '../lib/inactiveReasons';
+
+interface InactiveReasonDialogProps {
+  isOpen: boolean;
+  onClose: () => void; // Cancels the move
+  player: Player | null;
+  onConfirm: (reason: InactiveReason, note: string | null) => void;
+}
+
+// Asked when a player is dropped into the inactive zone
+const InactiveReasonDialog: React.FC<InactiveReasonDialogProps> = ({ isOpen, onClose, player, onConfirm }) => {
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setNote('');
+  }, [isOpen]);
+
+  if (!isOpen || !player) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{`${player.first_name} ${player.last_name}`.trim()}: Why Inactive?</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="mb-4">
+          <label htmlFor="inactiveNote" className="block text-sm font-medium text-gray-700 mb-1">Note (Optional)</label>
+          <input type="text" id="inactiveNote" value={note} onChange={(e) => setNote(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" placeholder="e.g., Twisted ankle" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {INACTIVE_REASON_OPTIONS.map(option => (
+            <button
+              key={option.reason}
+              onClick={() => onConfirm(option.reason, note.trim() || null)}
+              className={`px-3 py-2 border rounded-md text-sm font-medium transition ${option.reason === 'injury' ? 'border-red-300 text-red-700 hover:bg-red-50' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InactiveReasonDialog;
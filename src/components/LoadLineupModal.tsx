@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Download, Trash2, X } from 'lucide-react';
+import { Download, Trash2, X, Pencil, Check } from 'lucide-react';
 import { SavedLineup } from '../context/TeamContext';
 
 interface LoadLineupModalProps {
@@ -8,10 +8,13 @@ interface LoadLineupModalProps {
   savedLineups: SavedLineup[];
   onLoad: (name: string) => void;
   onDelete: (name: string) => void;
+  onRename: (oldName: string, newName: string) => Promise<boolean>;
 }
 
-const LoadLineupModal: React.FC<LoadLineupModalProps> = ({ isOpen, onClose, savedLineups, onLoad, onDelete }) => {
+const LoadLineupModal: React.FC<LoadLineupModalProps> = ({ isOpen, onClose, savedLineups, onLoad, onDelete, onRename }) => {
   const [selectedLineup, setSelectedLineup] = useState<string | null>(null);
+  const [renamingLineup, setRenamingLineup] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
 
   const handleLoad = () => {
     if (selectedLineup) {
@@ -33,6 +36,43 @@ const LoadLineupModal: React.FC<LoadLineupModalProps> = ({ isOpen, onClose, save
     }
   };
 
+  const handleStartRename = (e: React.MouseEvent, name: string) => {
+    e.stopPropagation(); // Prevent row selection when clicking rename
+    setRenamingLineup(name);
+    setRenameValue(name);
+  };
+
+  const handleCancelRename = () => {
+    setRenamingLineup(null);
+    setRenameValue('');
+  };
+
+  const handleConfirmRename = async () => {
+    if (!renamingLineup) return;
+    const newName = renameValue.trim();
+    if (!newName) {
+      alert('Please enter a name for the lineup.');
+      return;
+    }
+    if (await onRename(renamingLineup, newName)) {
+      // Keep the renamed lineup selected if it was selected before
+      if (selectedLineup === renamingLineup) {
+        setSelectedLineup(newName);
+      }
+      handleCancelRename();
+    } else {
+      alert(`A lineup named "${newName}" already exists. Please choose another name.`);
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleConfirmRename();
+    } else if (e.key === 'Escape') {
+      handleCancelRename();
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -58,14 +98,45 @@ const LoadLineupModal: React.FC<LoadLineupModalProps> = ({ isOpen, onClose, save
                     : 'hover:bg-gray-100 border-gray-200'
                 }`}
               >
-                <span className="font-medium">{lineup.name}</span>
-                <button
-                  onClick={(e) => handleDelete(e, lineup.name)}
-                  className="text-gray-400 hover:text-red-600 transition-colors p-1 -mr-1"
-                  aria-label={`Delete lineup ${lineup.name}`}
-                >
-                  <Trash2 size={18} />
-                </button>
+                {renamingLineup === lineup.name ? (
+                  <div className="flex items-center space-x-1 flex-grow" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      className="flex-grow px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500"
+                      aria-label={`New name for lineup ${lineup.name}`}
+                      autoFocus
+                    />
+                    <button onClick={handleConfirmRename} className="text-gray-400 hover:text-green-600 transition-colors p-1" aria-label="Save name">
+                      <Check size={18} />
+                    </button>
+                    <button onClick={handleCancelRename} className="text-gray-400 hover:text-gray-700 transition-colors p-1 -mr-1" aria-label="Cancel rename">
+                      <X size={18} />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <span className="font-medium">{lineup.name}</span>
+                    <div className="flex items-center">
+                      <button
+                        onClick={(e) => handleStartRename(e, lineup.name)}
+                        className="text-gray-400 hover:text-blue-600 transition-colors p-1"
+                        aria-label={`Rename lineup ${lineup.name}`}
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={(e) => handleDelete(e, lineup.name)}
+                        className="text-gray-400 hover:text-red-600 transition-colors p-1 -mr-1"
+                        aria-label={`Delete lineup ${lineup.name}`}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
             ))
           )}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import { getRepository } from '../data';
 import { Mail, Lock, LogIn } from 'lucide-react';
 
 const LoginForm: React.FC = () => {
@@ -14,14 +14,7 @@ const LoginForm: React.FC = () => {
     setError(null);
 
     try {
-      const { error: signInError } = await supabase.auth.signInWithPassword({
-        email: email,
-        password: password,
-      });
-
-      if (signInError) {
-        throw signInError;
-      }
+      await getRepository().signIn(email, password);
       // Login successful, App.tsx's onAuthStateChange will handle navigation
       // console.log('Login successful');
     } catch (err: any) {
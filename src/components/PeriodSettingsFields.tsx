@@ -0,0 +1,46 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { MAX_PERIOD_COUNT, PeriodConfig } from '../lib/periods';
+
+interface PeriodSettingsFieldsProps {
+  value: PeriodConfig;
+  onChange: (value: PeriodConfig) => void;
+  disabled?: boolean;
+  minPeriodCount?: number; // Periods already played can't be removed
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50";
+
+// Match structure inputs shared by the add and edit game modals
+const PeriodSettingsFields: React.FC<PeriodSettingsFieldsProps> = ({ value, onChange, disabled, minPeriodCount = 1 }) => {
+  const handleNumberChange = (field: keyof PeriodConfig, min: number, max: number) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const number = parseInt(e.target.value, 10);
+    onChange({ ...value, [field]: Number.isNaN(number) ? min : Math.min(max, Math.max(min, number)) });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center space-x-1"><Timer size={16} className="text-gray-400" /><span>Match Structure</span></label>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="periodCount" className="block text-xs text-gray-500 mb-1">Periods</label>
+          <select id="periodCount" value={value.period_count} onChange={handleNumberChange('period_count', minPeriodCount, MAX_PERIOD_COUNT)} className={inputClassName} disabled={disabled}>
+            {Array.from({ length: MAX_PERIOD_COUNT - minPeriodCount + 1 }, (_, i) => i + minPeriodCount).map(count => (
+              <option key={count} value={count}>{count === 2 ? '2 (halves)' : count === 4 ? '4 (quarters)' : count}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="periodMinutes" className="block text-xs text-gray-500 mb-1">Length (min)</label>
+          <input type="number" id="periodMinutes" min={1} max={120} value={value.period_minutes} onChange={handleNumberChange('period_minutes', 1, 120)} className={inputClassName} disabled={disabled} />
+        </div>
+        <div>
+          <label htmlFor="breakMinutes" className="block text-xs text-gray-500 mb-1">Break (min)</label>
+          <input type="number" id="breakMinutes" min={0} max={60} value={value.break_minutes} onChange={handleNumberChange('break_minutes', 0, 60)} className={inputClassName} disabled={disabled} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodSettingsFields;
@@ -19,6 +19,9 @@ interface PlayerIconProps {
   subbedOffCount?: number;
   goalCount?: number;
   assistCount?: number;
+  yellowCardCount?: number;
+  isSentOff?: boolean; // Red card or second yellow
+  inactiveReasonLabel?: string | null; // Why an inactive player is out (injury, absent, ...)
   initialPosition?: { x: number; y: number };
 }
 
@@ -34,6 +37,9 @@ const PlayerIcon: React.FC<PlayerIconProps> = ({
   subbedOffCount = 0,
   goalCount = 0,
   assistCount = 0,
+  yellowCardCount = 0,
+  isSentOff = false,
+  inactiveReasonLabel = null,
   initialPosition,
 }) => {
   // Use first_name, last_name from the player object
@@ -60,6 +66,7 @@ const PlayerIcon: React.FC<PlayerIconProps> = ({
   const goalIcons = Array.from({ length: goalCount }, (_, i) => ( <Goal key={`goal-${i}`} size={12} className="text-black" /> ));
   const assistIcons = Array.from({ length: assistCount }, (_, i) => ( <Footprints key={`assist-${i}`} size={12} className="text-blue-600" /> ));
   const eventIcons = [...goalIcons, ...assistIcons];
+  const showCardBadge = (context === 'field' || context === 'bench' || context === 'inactive') && (yellowCardCount > 0 || isSentOff);
 
   return (
     <div className={`relative flex flex-col items-center ${showName ? containerSpacing : ''}`}>
@@ -73,6 +80,7 @@ const PlayerIcon: React.FC<PlayerIconProps> = ({
       {showSubOn && ( <div className="absolute w-6 h-[16px] bg-gray-200 rounded-full flex items-center justify-between px-1 shadow-sm z-10" style={{ top: counterTopOffset, left: counterLeftOffset }} title={`Subbed On: ${subbedOnCount}`}><span className="text-[10px] font-semibold text-gray-700">{subbedOnCount}</span><div className="w-3 h-3 bg-green-500 rounded-full border border-white flex items-center justify-center"><ArrowUp size={8} className="text-white" /></div></div> )}
       {showSubOff && ( <div className={`absolute w-6 h-[16px] bg-gray-200 rounded-full flex items-center justify-between px-1 shadow-sm`} style={{ top: `calc(${counterTopOffset} + ${counterSpacing})`, left: counterLeftOffset }} title={`Subbed Off: ${subbedOffCount}`}><span className="text-[10px] font-semibold text-gray-700">{subbedOffCount}</span><div className="w-3 h-3 bg-red-500 rounded-full border border-white flex items-center justify-center"><ArrowDown size={8} className="text-white" /></div></div> )}
       {(context === 'field' || context === 'bench' || context === 'inactive') && ( <div className={`absolute -top-1 -right-1 px-1.5 py-0.5 ${playtimeBgColor} text-white text-[9px] md:text-[10px] font-bold rounded-full shadow leading-tight z-20`} title={`Played: ${formatTimer(playtimeDisplaySeconds)}`}>{formatTimer(playtimeDisplaySeconds)}</div> )}
+      {showCardBadge && ( <div className={`absolute -bottom-1 left-0 w-2.5 h-3.5 rounded-sm border border-white shadow z-10 ${isSentOff ? 'bg-red-600' : 'bg-yellow-400'}`} title={isSentOff ? 'Sent off' : `Yellow cards: ${yellowCardCount}`}></div> )}
       {showGoalAssistIcons && ( <div className="absolute -bottom-1 right-0 flex space-x-[-4px] z-10" title={`Goals: ${goalCount}, Assists: ${assistCount}`}>{eventIcons.map((icon, index) => ( <div key={index} className="bg-white/70 rounded-full p-0.5 shadow">{icon}</div> ))}</div> )}
 
       {/* Player Name & Number - Uses player.first_name, player.number */}
@@ -80,6 +88,7 @@ const PlayerIcon: React.FC<PlayerIconProps> = ({
         <span className={`text-center ${nameColorClass} ${nameTextSizeClass} font-medium leading-tight max-w-[50px] md:max-w-[60px] truncate pt-1`}>
           {player.first_name}
           {player.number && <span className={`block ${numberColorClass} ${numberTextSizeClass}`}>#{player.number}</span>}
+          {context === 'inactive' && inactiveReasonLabel && <span className={`block ${numberTextSizeClass} text-red-700`}>{inactiveReasonLabel}</span>}
         </span>
       )}
     </div>
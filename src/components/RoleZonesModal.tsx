@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Loader2 } from 'lucide-react';
+import { DEFAULT_ROLE_ZONES, MAX_ROLE_ZONES, RoleZone, validateRoleZones } from '../lib/roles';
+
+interface RoleZonesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  zones: RoleZone[];
+  onSave: (zones: RoleZone[] | null) => Promise<void>; // null restores the defaults
+}
+
+// Each band is edited by its name and where it ends; it starts where the band above ends
+interface ZoneDraft {
+  role: string;
+  endY: string;
+}
+
+const toDrafts = (zones: RoleZone[]): ZoneDraft[] => zones.map(z => ({ role: z.role, endY: String(z.maxY) }));
+
+const RoleZonesModal: React.FC<RoleZonesModalProps> = ({ isOpen, onClose, zones, onSave }) => {
+  const [drafts, setDrafts] = useState<ZoneDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(toDrafts(zones));
+      setIsSaving(false);
+    }
+  }, [isOpen, zones]);
+
+  if (!isOpen) return null;
+
+  const updateDraft = (index: number, changes: Partial<ZoneDraft>) => setDrafts(prev => prev.map((d, i) => i === index ? { ...d, ...changes } : d));
+
+  // A new band takes the lower half of the bottom band's space
+  const handleAddZone = () => setDrafts(prev => {
+    const last = prev[prev.length - 1];
+    const lastStart = prev.length > 1 ? Number(prev[prev.length - 2].endY) || 0 : 0;
+    return [...prev.slice(0, -1), { ...last, endY: String(Math.round((lastStart + 100) / 2)) }, { role: '', endY: '100' }];
+  });
+
+  // The band below takes over the removed band's space (the band above, for the bottom band)
+  const handleRemoveZone = (index: number) => setDrafts(prev => {
+    if (index === prev.length - 1) return prev.slice(0, -1).map((d, i, rest) => i === rest.length - 1 ? { ...d, endY: '100' } : d);
+    return prev.filter((_, i) => i !== index);
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newZones: RoleZone[] = drafts.map((d, i) => ({
+      role: d.role.trim(),
+      minY: i === 0 ? 0 : Number(drafts[i - 1].endY),
+      maxY: i === drafts.length - 1 ? 100 : Number(d.endY),
+    }));
+    const error = newZones.some(z => !Number.isFinite(z.maxY)) ? 'Where each position ends must be a number.' : validateRoleZones(newZones);
+    if (error) { alert(error); return; }
+    setIsSaving(true);
+    await onSave(newZones);
+    setIsSaving(false);
+    onClose();
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    await onSave(null);
+    setIsSaving(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Positions</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">The field is split into bands from the opponent's goal (0%) to ours (100%). Time on the field counts towards the band the player stands in.</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center text-xs font-medium text-gray-500">
+              <span className="flex-grow">Position</span>
+              <span className="w-20 text-center">Ends at %</span>
+              <span className="w-8"></span>
+            </div>
+            {drafts.map((draft, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input type="text" value={draft.role} onChange={(e) => updateDraft(index, { role: e.target.value })} maxLength={12} className="flex-grow min-w-0 px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" placeholder="e.g., WING" disabled={isSaving} />
+                <input type="number" min={1} max={100} value={index === drafts.length - 1 ? '100' : draft.endY} onChange={(e) => updateDraft(index, { endY: e.target.value })} className="w-20 px-2 py-1.5 border border-gray-300 rounded-md text-center focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" disabled={isSaving || index === drafts.length - 1} />
+                <button type="button" onClick={() => handleRemoveZone(index)} disabled={isSaving || drafts.length <= 1} className="w-8 flex justify-center text-gray-400 hover:text-red-600 disabled:opacity-30" title="Remove position"><Trash2 size={16} /></button>
+              </div>
+            ))}
+            <button type="button" onClick={handleAddZone} disabled={isSaving || drafts.length >= MAX_ROLE_ZONES} className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"><Plus size={16} /><span>Add position</span></button>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-between items-center pt-4">
+            <button type="button" onClick={handleReset} disabled={isSaving} className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50" title={DEFAULT_ROLE_ZONES.map(z => z.role).join(', ')}>Use defaults</button>
+            <div className="flex space-x-3">
+              <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Cancel</button>
+              <button type="submit" disabled={isSaving} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50 flex items-center justify-center">
+                {isSaving ? <Loader2 className="animate-spin mr-2" size={18} /> : null}
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RoleZonesModal;
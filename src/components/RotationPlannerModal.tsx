@@ -0,0 +1,143 @@
+import React, { useState, useMemo } from 'react';
+import { X, ArrowRight, ArrowLeft, Lock } from 'lucide-react';
+import { Game, Player } from '../context/TeamContext';
+import { isSentOff } from '../lib/cards';
+import { generateRotation } from '../lib/rotation';
+import { createWave, getWaveTimeLabel, SubstitutionWave } from '../lib/substitutionWaves';
+
+interface RotationPlannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game;
+  players: Player[];
+  playtimes: Map<string, number>; // Live playtime per player, including the current stint
+  currentPeriod: number;
+  secondsIntoPeriod: number;
+  defaultLockedPlayerIds: string[]; // Preselected to stay on, e.g. the goalkeeper (read when the modal mounts; remount it with a key to reset)
+  onChangeWaves: (waves: SubstitutionWave[], removedWaveIds?: string[]) => void; // Adds or replaces waves by id, removes those listed
+}
+
+const RotationPlannerModal: React.FC<RotationPlannerModalProps> = ({ isOpen, onClose, game, players, playtimes, currentPeriod, secondsIntoPeriod, defaultLockedPlayerIds, onChangeWaves }) => {
+  const [waveMinutes, setWaveMinutes] = useState(() => String(Math.max(1, Math.round(game.period_minutes / 2))));
+  const [lockedPlayerIds, setLockedPlayerIds] = useState<string[]>(defaultLockedPlayerIds);
+  const [preview, setPreview] = useState<ReturnType<typeof generateRotation> | null>(null);
+
+  const playerMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const getName = (playerId: string) => { const player = playerMap.get(playerId); return player ? player.first_name : 'Unknown'; };
+
+  // Players who can take part: on the field or the bench, and not sent off
+  const availablePlayers = useMemo(() => game.lineup.filter(p => (p.location === 'field' || p.location === 'bench') && !isSentOff(game.events, p.id)), [game.lineup, game.events]);
+  const fieldPlayers = availablePlayers.filter(p => p.location === 'field');
+
+  if (!isOpen) return null;
+
+  const toggleLocked = (playerId: string) => setLockedPlayerIds(prev => prev.includes(playerId) ? prev.filter(id => id !== playerId) : [...prev, playerId]);
+
+  const handleGenerate = () => {
+    const minutes = Number(waveMinutes);
+    if (!Number.isFinite(minutes) || minutes < 1) { alert('Please enter at least 1 minute between changes.'); return; }
+    if (fieldPlayers.length === 0) { alert('Put the starting players on the field first.'); return; }
+    setPreview(generateRotation({
+      players: availablePlayers.map(p => ({ id: p.id, location: p.location as 'field' | 'bench', playtimeSeconds: playtimes.get(p.id) ?? p.playtimeSeconds })),
+      periodCount: game.period_count,
+      periodSeconds: game.period_minutes * 60,
+      currentPeriod,
+      secondsIntoPeriod,
+      waveSeconds: Math.round(minutes * 60),
+      lockedPlayerIds: lockedPlayerIds.filter(id => fieldPlayers.some(p => p.id === id)),
+    }));
+  };
+
+  const pendingWaves = game.substitution_waves.filter(w => !w.isHandled);
+
+  // The plan replaces the waves still to come; handled waves are kept for the record
+  const handleUsePlan = () => {
+    if (!preview) return;
+    if (pendingWaves.length > 0 && !window.confirm(`Replace the ${pendingWaves.length} substitution wave(s) still to come?`)) return;
+    onChangeWaves(preview.waves.map(w => createWave(w.period, w.secondsIntoPeriod, w.swaps)), pendingWaves.map(w => w.id));
+    onClose();
+  };
+
+  const projected = preview ? [...preview.projectedSeconds.entries()].sort((a, b) => b[1] - a[1]) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Rotation Plan</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto space-y-4">
+          {/* Settings */}
+          <div className="flex items-end space-x-3">
+            <div className="flex-grow">
+              <label htmlFor="rotationWaveMinutes" className="block text-sm font-medium text-gray-700 mb-1">Minutes between changes</label>
+              <input type="number" id="rotationWaveMinutes" min={1} value={waveMinutes} onChange={(e) => setWaveMinutes(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" />
+            </div>
+            <button type="button" onClick={handleGenerate} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition">Generate</button>
+          </div>
+          {fieldPlayers.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Stay on the field</span>
+              <div className="flex flex-wrap gap-1">
+                {fieldPlayers.map(p => (
+                  <button key={p.id} type="button" onClick={() => toggleLocked(p.id)} className={`px-2 py-1 border rounded-md text-xs flex items-center space-x-1 transition-colors ${lockedPlayerIds.includes(p.id) ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}>
+                    {lockedPlayerIds.includes(p.id) && <Lock size={10} />}<span>{getName(p.id)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Timeline */}
+          {preview && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Preview</span>
+              {preview.waves.length === 0 ? (
+                <p className="text-sm text-gray-500">No changes needed: playtime is already even.</p>
+              ) : (
+                <ol className="border-l-2 border-gray-200 ml-2 space-y-2">
+                  {preview.waves.map((wave, index) => (
+                    <li key={index} className="pl-3 relative text-sm">
+                      <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-red-600"></span>
+                      <div className="font-semibold text-gray-700">{getWaveTimeLabel(game, wave)}</div>
+                      {wave.swaps.map(swap => (
+                        <div key={swap.inPlayerId} className="flex items-center space-x-2 text-xs">
+                          <span className="flex items-center text-green-600"><ArrowRight size={12} className="mr-0.5" />{getName(swap.inPlayerId)}</span>
+                          <span className="flex items-center text-red-600"><ArrowLeft size={12} className="mr-0.5" />{getName(swap.outPlayerId)}</span>
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
+          {/* Projected minutes */}
+          {projected.length > 0 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Projected minutes at full time</span>
+              <div className="grid grid-cols-2 gap-x-4 text-xs">
+                {projected.map(([playerId, seconds]) => (
+                  <div key={playerId} className="flex justify-between border-b border-gray-100 py-0.5"><span className="truncate">{getName(playerId)}</span><span className="font-semibold ml-2">{Math.round(seconds / 60)}</span></div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition">Cancel</button>
+          {preview && <button type="button" onClick={handleUsePlan} className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition">Use plan</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RotationPlannerModal;
@@ -1,18 +1,25 @@
 import React, { useState } from 'react';
-import { Save, X } from 'lucide-react';
+import { Save, X, AlertTriangle, Loader2 } from 'lucide-react';
 
 interface SaveLineupModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string) => void;
+  onSave: (name: string) => Promise<void>;
+  existingNames: string[]; // Names already used by this team's saved lineups
 }
 
-const SaveLineupModal: React.FC<SaveLineupModalProps> = ({ isOpen, onClose, onSave }) => {
+const SaveLineupModal: React.FC<SaveLineupModalProps> = ({ isOpen, onClose, onSave, existingNames }) => {
   const [lineupName, setLineupName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
 
-  const handleSave = () => {
-    if (lineupName.trim()) {
-      onSave(lineupName.trim());
+  const trimmedName = lineupName.trim();
+  const willOverwrite = existingNames.includes(trimmedName);
+
+  const handleSave = async () => {
+    if (trimmedName) {
+      setIsSaving(true);
+      await onSave(trimmedName);
+      setIsSaving(false);
       setLineupName(''); // Reset name after save
       onClose();
     } else {
@@ -49,23 +56,33 @@ const SaveLineupModal: React.FC<SaveLineupModalProps> = ({ isOpen, onClose, onSa
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500"
               placeholder="e.g., Starting Lineup"
               autoFocus
+              disabled={isSaving}
             />
+            {/* Overwrite warning - change the name above to save a copy instead */}
+            {willOverwrite && (
+              <p className="mt-2 text-sm text-orange-600 flex items-center space-x-1">
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span>A lineup named "{trimmedName}" already exists. Saving will overwrite it.</span>
+              </p>
+            )}
           </div>
           <div className="flex justify-end space-x-3 pt-2">
             <button
               type="button"
               onClick={handleClose}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition"
+              disabled={isSaving}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50"
             >
               Cancel
             </button>
             <button
               type="button"
               onClick={handleSave}
-              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition flex items-center space-x-1"
+              disabled={isSaving}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition flex items-center space-x-1 disabled:opacity-50"
             >
-              <Save size={18} />
-              <span>Save</span>
+              {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
+              <span>{willOverwrite ? 'Overwrite' : 'Save'}</span>
             </button>
           </div>
         </div>
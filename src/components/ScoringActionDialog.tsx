@@ -0,0 +1,43 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ScoringAction } from '../lib/sports';
+
+interface ScoringActionDialogProps {
+  isOpen: boolean;
+  onClose: () => void; // Called when 'X' is clicked; nothing is recorded
+  title: string; // e.g. "Basket"
+  scoringActions: ScoringAction[];
+  onSelectScoringAction: (points: number) => void;
+}
+
+// First step of the score flow for sports with several ways to score: how many points it was worth
+const ScoringActionDialog: React.FC<ScoringActionDialogProps> = ({ isOpen, onClose, title, scoringActions, onSelectScoringAction }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {scoringActions.map(action => (
+            <button
+              key={action.points}
+              onClick={() => onSelectScoringAction(action.points)}
+              className="px-3 py-3 border border-red-200 rounded-md text-sm font-medium text-gray-800 hover:bg-red-50 transition flex flex-col items-center"
+            >
+              <span className="text-2xl font-bold">+{action.points}</span>
+              <span className="text-xs text-gray-500">{action.label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringActionDialog;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Check, Loader2, Undo2 } from 'lucide-react';
+import { Game, Player } from '../context/TeamContext';
+import { getNextShootoutTeam, getShootoutKicks, getShootoutScore } from '../lib/shootout';
+import { isSentOff } from '../lib/cards';
+
+interface ShootoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game;
+  teamName: string;
+  players: Player[];
+  onAddKick: (team: 'home' | 'away', playerId: string | null, scored: boolean) => Promise<void>;
+  onRemoveLastKick: () => Promise<void>;
+}
+
+const ShootoutModal: React.FC<ShootoutModalProps> = ({ isOpen, onClose, game, teamName, players, onAddKick, onRemoveLastKick }) => {
+  const userTeam: 'home' | 'away' = game.location;
+  const kicks = useMemo(() => getShootoutKicks(game.events), [game.events]);
+  const score = getShootoutScore(game.events) ?? { home: 0, away: 0 };
+  const [team, setTeam] = useState<'home' | 'away'>(userTeam);
+  const [kickerId, setKickerId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Teams alternate; after each kick the other team is selected
+  useEffect(() => {
+    if (isOpen) {
+      setTeam(getNextShootoutTeam(game.events, userTeam));
+      setKickerId('');
+    }
+  }, [isOpen, game.events, userTeam]);
+
+  // Players still in the game at full time can take a kick
+  const eligiblePlayers = useMemo(() => {
+    const availableIds = new Set(game.lineup.filter(p => p.location !== 'inactive').map(p => p.id));
+    return players
+      .filter(p => availableIds.has(p.id) && !isSentOff(game.events, p.id))
+      .sort((a, b) => a.first_name.localeCompare(b.first_name));
+  }, [players, game.lineup, game.events]);
+  const playerMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+
+  if (!isOpen) return null;
+
+  const teamNames = { home: game.location === 'home' ? teamName : game.opponent, away: game.location === 'away' ? teamName : game.opponent };
+  const rounds = Math.max(kicks.filter(k => k.team === 'home').length, kicks.filter(k => k.team === 'away').length);
+  const getTeamKicks = (t: 'home' | 'away') => kicks.filter(k => k.team === t);
+
+  const handleKick = async (scored: boolean) => {
+    setIsSaving(true);
+    await onAddKick(team, team === userTeam ? kickerId || null : null, scored);
+    setIsSaving(false);
+  };
+
+  const handleRemoveLastKick = async () => {
+    setIsSaving(true);
+    await onRemoveLastKick();
+    setIsSaving(false);
+  };
+
+  const renderKick = (t: 'home' | 'away', round: number) => {
+    const kick = getTeamKicks(t)[round];
+    if (!kick) return <span className="text-gray-300">-</span>;
+    const player = kick.playerId ? playerMap.get(kick.playerId) : undefined;
+    return (
+      <span className="flex items-center justify-center space-x-1">
+        {kick.type === 'shootout_scored' ? <Check size={16} className="text-green-600 flex-shrink-0" /> : <X size={16} className="text-red-600 flex-shrink-0" />}
+        {player && <span className="truncate">{player.first_name}</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Penalty Shootout</h2>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Shootout score and kicks by round */}
+        <div className="flex items-center justify-between mb-2 text-sm font-semibold">
+          <span className="w-2/5 truncate text-center">{teamNames.home}</span>
+          <span className="text-2xl">{score.home} - {score.away}</span>
+          <span className="w-2/5 truncate text-center">{teamNames.away}</span>
+        </div>
+        <div className="max-h-48 overflow-y-auto mb-4 text-sm">
+          {Array.from({ length: rounds }, (_, round) => (
+            <div key={round} className="flex items-center py-1 border-b border-gray-100 last:border-b-0">
+              <span className="w-2/5 text-center">{renderKick('home', round)}</span>
+              <span className="flex-grow text-center text-xs text-gray-400">{round + 1}</span>
+              <span className="w-2/5 text-center">{renderKick('away', round)}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Next kick */}
+        <div className="space-y-3">
+          <div className="flex space-x-3">
+            {(['home', 'away'] as const).map(t => (
+              <button key={t} type="button" onClick={() => setTeam(t)} disabled={isSaving} className={`flex-1 px-4 py-2 border rounded-md transition-colors truncate ${team === t ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'} disabled:opacity-50`}>
+                {teamNames[t]}
+              </button>
+            ))}
+          </div>
+          {team === userTeam && (
+            <div>
+              <label htmlFor="shootoutKicker" className="block text-sm font-medium text-gray-700 mb-1">Kicker</label>
+              <select id="shootoutKicker" value={kickerId} onChange={(e) => setKickerId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500 disabled:opacity-50" disabled={isSaving}>
+                <option value="">Unknown</option>
+                {eligiblePlayers.map(p => (
+                  <option key={p.id} value={p.id}>{`${p.first_name} ${p.last_name}`.trim()}{p.number ? ` (#${p.number})` : ''}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex space-x-3">
+            <button type="button" onClick={() => handleKick(true)} disabled={isSaving} className="flex-1 flex items-center justify-center space-x-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition disabled:opacity-50"><Check size={18} /><span>Scored</span></button>
+            <button type="button" onClick={() => handleKick(false)} disabled={isSaving} className="flex-1 flex items-center justify-center space-x-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50"><X size={18} /><span>Missed</span></button>
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex justify-between items-center pt-4">
+          <button type="button" onClick={handleRemoveLastKick} disabled={isSaving || kicks.length === 0} className="flex items-center space-x-1 px-3 py-2 text-gray-600 rounded-md hover:bg-gray-100 transition disabled:opacity-50">
+            {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Undo2 size={18} />}<span>Remove last kick</span>
+          </button>
+          <button type="button" onClick={onClose} disabled={isSaving} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition disabled:opacity-50">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShootoutModal;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import { getRepository } from '../data';
 import { Mail, Lock, UserPlus } from 'lucide-react';
 
 const SignUpForm: React.FC = () => {
@@ -12,24 +12,15 @@ const SignUpForm: React.FC = () => {
   // Function to create a team for the new user
   const createTeamForUser = async (userId: string, teamName: string) => {
     console.log(`Attempting to create team for user ${userId} with name ${teamName}`);
-    // Insert into the 'teams' table using the user_id and provided name
-    const { error: teamError } = await supabase
-      .from('teams')
-      .insert({
-        user_id: userId,
-        name: teamName,
-        // logo_url defaults to NULL in the database schema
-      })
-      .select() // Select to confirm insertion and potentially catch RLS issues if insert fails silently
-      .single(); // Expecting a single row back
-
-    if (teamError) {
-      console.error('Error creating team:', teamError);
-      // Set error state to inform the user, even if signup was technically successful
-      setError(`Account created, but failed to initialize team: ${teamError.message}. Please try logging out and back in, or contact support.`);
-    } else {
+    try {
+      // logo_url defaults to NULL in the database schema
+      await getRepository().createTeam(userId, teamName);
       console.log('Team created successfully for user:', userId);
       // Team creation successful, no need to set a message here as the main signup message handles it.
+    } catch (teamError) {
+      console.error('Error creating team:', teamError);
+      // Set error state to inform the user, even if signup was technically successful
+      setError(`Account created, but failed to initialize team: ${(teamError as Error).message}. Please try logging out and back in, or contact support.`);
     }
   };
 
@@ -41,24 +32,24 @@ const SignUpForm: React.FC = () => {
 
     try {
       // Sign up the user
-      const { data, error: signUpError } = await supabase.auth.signUp({
-        email: email,
-        password: password,
-        // Assuming email confirmation is disabled in Supabase project settings
-      });
-
-      if (signUpError) {
+      // Assuming email confirmation is disabled in Supabase project settings
+      let user;
+      try {
+        user = await getRepository().signUp(email, password);
+      } catch (signUpError) {
         // Handle specific errors like user already registered
-        if (signUpError.message.includes("User already registered")) {
+        if ((signUpError as Error).message.includes("User already registered")) {
            setError("This email is already registered. Please try logging in.");
-        } else {
-           throw signUpError; // Throw other sign-up errors
+           return;
         }
-      } else if (data.user) {
+        throw signUpError; // Throw other sign-up errors
+      }
+
+      if (user) {
         // CRITICAL: Create the team immediately after successful sign-up
         // Use part of the email for a default team name
         const defaultTeamName = `${email.split('@')[0]}'s Team`;
-        await createTeamForUser(data.user.id, defaultTeamName);
+        await createTeamForUser(user.id, defaultTeamName);
 
         // Check if an error occurred during team creation
         if (!error) {
@@ -73,7 +64,7 @@ const SignUpForm: React.FC = () => {
          // This case might happen with email confirmation enabled, but we assume it's off.
          // Or if there's an unexpected issue with the signup response.
          setMessage('Sign up process initiated. If email confirmation is required, please check your email.');
-         console.warn("SignUp successful but no user data returned immediately.", data);
+         console.warn("SignUp successful but no user data returned immediately.");
       }
 
     } catch (err: any) {
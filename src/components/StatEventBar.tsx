@@ -0,0 +1,39 @@
+import React, { useState, useMemo } from 'react';
+import { Game } from '../context/TeamContext';
+import { STAT_EVENT_TYPES, StatEventType, getTeamStatCounts } from '../lib/statEvents';
+
+interface StatEventBarProps {
+  game: Game;
+  teamName: string;
+  types: StatEventType[]; // The stats the team's sport records
+  disabled?: boolean;
+  onSelect: (type: StatEventType, team: 'home' | 'away') => void;
+}
+
+// Quick-entry buttons for match stats during a live game, with the running total for the selected team
+const StatEventBar: React.FC<StatEventBarProps> = ({ game, teamName, types, disabled, onSelect }) => {
+  const [team, setTeam] = useState<'home' | 'away'>(game.location);
+  const counts = useMemo(() => getTeamStatCounts(game.events, team), [game.events, team]);
+  const teamNames = { home: game.location === 'home' ? teamName : game.opponent, away: game.location === 'away' ? teamName : game.opponent };
+
+  return (
+    <div className="mt-2 bg-white rounded-lg shadow p-2 flex items-center space-x-2">
+      <div className="flex flex-col rounded-md border border-gray-300 overflow-hidden text-xs flex-shrink-0">
+        {(['home', 'away'] as const).map(t => (
+          <button key={t} type="button" onClick={() => setTeam(t)} className={`px-2 py-1 max-w-[6rem] truncate transition-colors ${team === t ? 'bg-red-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}>
+            {teamNames[t]}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 grid grid-cols-3 sm:grid-cols-6 gap-1">
+        {STAT_EVENT_TYPES.filter(s => types.includes(s.type)).map(s => (
+          <button key={s.type} type="button" onClick={() => onSelect(s.type, team)} disabled={disabled} title={`Record ${s.label.toLowerCase()}`} className="flex items-center justify-between px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-100 transition disabled:opacity-50">
+            <span className="truncate">{s.shortLabel}</span><span className="font-semibold ml-1">{counts[s.type]}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StatEventBar;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, ArrowRight, ArrowLeft, Plus, Trash2, Check } from 'lucide-react';
+import { Game, Player } from '../context/TeamContext';
+import { isSentOff } from '../lib/cards';
+import { getPeriodName } from '../lib/periods';
+import { createWave, getWaveTimeForMinute, getWaveTimeLabel, SubstitutionSwap, SubstitutionWave } from '../lib/substitutionWaves';
+
+interface SubstitutionWavesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game;
+  players: Player[];
+  onChangeWaves: (waves: SubstitutionWave[], removedWaveIds?: string[]) => void; // Adds or replaces waves by id, removes those listed
+}
+
+const EMPTY_SWAP: SubstitutionSwap = { inPlayerId: '', outPlayerId: '' };
+
+const SubstitutionWavesModal: React.FC<SubstitutionWavesModalProps> = ({ isOpen, onClose, game, players, onChangeWaves }) => {
+  const [when, setWhen] = useState('minute'); // 'minute', or 'break-<period>' for the break before that period
+  const [minute, setMinute] = useState('');
+  const [swaps, setSwaps] = useState<SubstitutionSwap[]>([EMPTY_SWAP]);
+
+  const playerMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const getName = (playerId: string) => { const player = playerMap.get(playerId); return player ? player.first_name : 'Unknown'; };
+
+  // Anyone who can still play; who is on and who is off changes as the waves are applied
+  const selectablePlayers = useMemo(() => game.lineup
+    .filter(p => p.location !== 'inactive' && !isSentOff(game.events, p.id) && playerMap.has(p.id))
+    .map(p => playerMap.get(p.id)!)
+    .sort((a, b) => a.first_name.localeCompare(b.first_name)), [game.lineup, game.events, playerMap]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setWhen('minute');
+      setMinute('');
+      setSwaps([EMPTY_SWAP]);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const gameMinutes = game.period_count * game.period_minutes;
+  const updateSwap = (index: number, changes: Partial<SubstitutionSwap>) => setSwaps(prev => prev.map((swap, i) => i === index ? { ...swap, ...changes } : swap));
+
+  const handleAddWave = (e: React.FormEvent) => {
+    e.preventDefault();
+    let time: Pick<SubstitutionWave, 'period' | 'secondsIntoPeriod'>;
+    if (when === 'minute') {
+      const value = Number(minute);
+      if (!Number.isInteger(value) || value < 1 || value >= gameMinutes) { alert(`Please enter a minute between 1 and ${gameMinutes - 1}.`); return; }
+      time = getWaveTimeForMinute(game, value);
+    } else {
+      time = { period: Number(when.replace('break-', '')), secondsIntoPeriod: 0 };
+    }
+    const completeSwaps = swaps.filter(s => s.inPlayerId && s.outPlayerId);
+    if (completeSwaps.length === 0) { alert('Please choose at least one player coming on and one going off.'); return; }
+    const playerIds = completeSwaps.flatMap(s => [s.inPlayerId, s.outPlayerId]);
+    if (new Set(playerIds).size < playerIds.length) { alert('Each player can only be in one swap of a wave.'); return; }
+    onChangeWaves([createWave(time.period, time.secondsIntoPeriod, completeSwaps)]);
+    setMinute('');
+    setSwaps([EMPTY_SWAP]);
+  };
+
+  const handleDeleteWave = (waveId: string) => onChangeWaves([], [waveId]);
+
+  const selectClassName = "flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Substitution Waves</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto space-y-4">
+          {/* Prepared Waves */}
+          {game.substitution_waves.length === 0 ? (
+            <p className="text-sm text-gray-500">No waves yet. Add one below; you'll be asked to apply it when the clock gets there.</p>
+          ) : (
+            <ol className="border-l-2 border-gray-200 ml-2 space-y-2">
+              {game.substitution_waves.map(wave => (
+                <li key={wave.id} className={`pl-3 relative text-sm flex justify-between items-start ${wave.isHandled ? 'opacity-40' : ''}`}>
+                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-red-600"></span>
+                  <div>
+                    <div className="font-semibold text-gray-700 flex items-center space-x-1"><span>{getWaveTimeLabel(game, wave)}</span>{wave.isHandled && <Check size={14} className="text-green-600" />}</div>
+                    {wave.swaps.map(swap => (
+                      <div key={swap.inPlayerId} className="flex items-center space-x-2 text-xs">
+                        <span className="flex items-center text-green-600"><ArrowRight size={12} className="mr-0.5" />{getName(swap.inPlayerId)}</span>
+                        <span className="flex items-center text-red-600"><ArrowLeft size={12} className="mr-0.5" />{getName(swap.outPlayerId)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <button type="button" onClick={() => handleDeleteWave(wave.id)} className="text-gray-400 hover:text-red-600 p-1" title="Delete wave"><Trash2 size={16} /></button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* New Wave */}
+          <form onSubmit={handleAddWave} className="border-t pt-4 space-y-3">
+            <div>
+              <label htmlFor="waveWhen" className="block text-sm font-medium text-gray-700 mb-1">When</label>
+              <div className="flex space-x-2">
+                <select id="waveWhen" value={when} onChange={(e) => setWhen(e.target.value)} className={selectClassName}>
+                  <option value="minute">At minute</option>
+                  {Array.from({ length: game.period_count - 1 }, (_, i) => i + 2).map(period => (
+                    <option key={period} value={`break-${period}`}>{game.period_count === 2 ? 'Halftime' : `Before ${getPeriodName(game.period_count, period)}`}</option>
+                  ))}
+                </select>
+                {when === 'minute' && <input type="number" min={1} max={gameMinutes - 1} value={minute} onChange={(e) => setMinute(e.target.value)} className="w-24 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" placeholder="e.g., 20" />}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <span className="block text-sm font-medium text-gray-700">Swaps</span>
+              {swaps.map((swap, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select value={swap.inPlayerId} onChange={(e) => updateSwap(index, { inPlayerId: e.target.value })} className={selectClassName} aria-label="Coming on">
+                    <option value="">On...</option>
+                    {selectablePlayers.map(p => <option key={p.id} value={p.id}>{p.first_name}</option>)}
+                  </select>
+                  <select value={swap.outPlayerId} onChange={(e) => updateSwap(index, { outPlayerId: e.target.value })} className={selectClassName} aria-label="Going off">
+                    <option value="">Off...</option>
+                    {selectablePlayers.map(p => <option key={p.id} value={p.id}>{p.first_name}</option>)}
+                  </select>
+                  <button type="button" onClick={() => setSwaps(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : [EMPTY_SWAP])} className="text-gray-400 hover:text-gray-600 p-1" aria-label="Remove swap"><X size={16} /></button>
+                </div>
+              ))}
+              <button type="button" onClick={() => setSwaps(prev => [...prev, EMPTY_SWAP])} className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"><Plus size={16} /><span>Add swap</span></button>
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition">Add wave</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubstitutionWavesModal;
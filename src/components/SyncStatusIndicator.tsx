@@ -0,0 +1,38 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { SyncStatus } from '../context/TeamContext';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+}
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status }) => {
+  const { pendingCount, isSyncing, isOnline } = status;
+
+  if (pendingCount === 0) {
+    return (
+      <span className="flex items-center space-x-1 text-xs text-green-600" title="All changes saved">
+        <Cloud size={16} /><span>Synced</span>
+      </span>
+    );
+  }
+
+  if (isSyncing && isOnline) {
+    return (
+      <span className="flex items-center space-x-1 text-xs text-gray-600" title="Saving changes">
+        <RefreshCw size={16} className="animate-spin" /><span>Syncing {pendingCount}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="flex items-center space-x-1 text-xs text-orange-600"
+      title={isOnline ? 'Changes waiting to be saved' : 'Offline - changes will be saved when the connection returns'}
+    >
+      <CloudOff size={16} /><span>{pendingCount} pending</span>
+    </span>
+  );
+};
+
+export default SyncStatusIndicator;
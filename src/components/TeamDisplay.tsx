@@ -9,6 +9,8 @@ interface TeamDisplayProps {
   size?: 'small' | 'medium' | 'large';
   /** Controls layout (e.g., text alignment, justification) */
   className?: string;
+  /** Goals in a penalty shootout, shown apart from the match score; omit when there was none */
+  shootoutScore?: number | null;
 }
 
 const TeamDisplay: React.FC<TeamDisplayProps> = ({
@@ -17,6 +19,7 @@ const TeamDisplay: React.FC<TeamDisplayProps> = ({
   isOpponentTeam, // Renamed for clarity
   size = 'medium',
   className = '',
+  shootoutScore = null,
 }) => {
   const logoSizeClasses = {
     small: 'w-5 h-5',
@@ -53,6 +56,9 @@ const TeamDisplay: React.FC<TeamDisplayProps> = ({
 
       {/* Team Name - allow wrapping if necessary, but prioritize showing full name */}
       <span className={`font-medium ${textSizeClasses[size]} break-words`}>{name}</span>
+      {shootoutScore !== null && (
+        <span className="text-xs font-semibold text-gray-500 bg-gray-100 rounded px-1 flex-shrink-0" title="Penalty shootout">P {shootoutScore}</span>
+      )}
 
       {/* Render User Team Logo/Placeholder Last (if rendering away team layout) */}
       {!isRenderingHomeTeam && !isOpponentTeam && (
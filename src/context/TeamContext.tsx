@@ -1,7 +1,21 @@
-import React, { createContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useState, useEffect, ReactNode, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from '../lib/supabaseClient';
-import { Session, User, PostgrestError } from '@supabase/supabase-js';
+import { getRepository } from '../data';
+import { AuthUser, NewGameData, RepositoryError } from '../data/repository';
+import { enqueueMutations, flushOutbox, getPendingMutationCount, OutboxMutationInput } from '../lib/outbox';
+import { applyLineupIntent, GameIntent, LineupIntent, LineupIntentValues } from '../lib/gameIntents';
+import { dataUrlToBlob, isDataUrl, resizeLogo } from '../lib/teamLogo';
+import { decodeGameEventRow, decodeGameEventRows, decodeGameLineupRow, decodeGameLineupRows, decodeLineupStructure, decodeFormations, decodePeriodEndSeconds, decodeRoleZones, decodeSubstitutionWaves } from '../lib/decoders';
+import { DEFAULT_PERIOD_CONFIG, PeriodConfig } from '../lib/periods';
+import { CardType, getSendingOffEvent, isCardEvent, isSentOff } from '../lib/cards';
+import { StatEventType } from '../lib/statEvents';
+import { GoalType, getGoalPoints } from '../lib/goals';
+import { getInactiveReason, InactiveReason } from '../lib/inactiveReasons';
+import { addRolePlaytime, DEFAULT_ROLE_ZONES, getRoleForPosition, RoleZone } from '../lib/roles';
+import { BUILT_IN_FORMATIONS, Formation } from '../lib/formations';
+import { changeWaves, SubstitutionWave } from '../lib/substitutionWaves';
+import { getGameFormatLabel } from '../lib/gameFormats';
+import { DEFAULT_SPORT, getSport, SportDefinition, SportId } from '../lib/sports';
 
 // --- Types ---
 
@@ -11,8 +25,9 @@ export interface PlayerData {
     team_id: string; // from Supabase teams table
     first_name: string;
     last_name: string;
-    number: string | null; // Jersey number (using this field based on previous code)
+    number: string | null; // Jersey number (was 'player_number' in 02_create_players.sql, see migration 13)
     created_at: string; // timestamp from Supabase
+    updated_at: string; // timestamp from Supabase
 }
 
 // Player type includes local state properties needed for UI (location, position)
@@ -22,27 +37,53 @@ export interface Player extends Omit<PlayerData, 'team_id'> {
   position?: { x: number; y: number };
 }
 
-// PlayerLineupState remains the same (stored in JSONB)
+// PlayerLineupState is the local representation of a 'game_lineups' row
 export interface PlayerLineupState {
   id: string; // Player ID
   location: 'bench' | 'field' | 'inactive';
   position?: { x: number; y: number };
   initialPosition?: { x: number; y: number };
   playtimeSeconds: number;
+  rolePlaytimeSeconds: Record<string, number>; // Banked field time per position role
   playtimerStartTime: number | null;
   isStarter?: boolean;
   subbedOnCount: number;
   subbedOffCount: number;
+  revision?: number; // Row revision last seen from Supabase (undefined if no row is known yet)
 }
 
 export type PlayerLineupStructure = Pick<PlayerLineupState, 'id' | 'location' | 'position'>;
 
-// GameEvent remains the same (stored in JSONB)
+// GameLineupRow reflects the Supabase 'game_lineups' table schema
+export interface GameLineupRow {
+  id?: string; // uuid - generated by the DB
+  game_id: string; // uuid
+  player_id: string; // uuid
+  location: PlayerLineupState['location']; // text
+  position: { x: number; y: number } | null; // jsonb - nullable
+  initial_position: { x: number; y: number } | null; // jsonb - nullable
+  playtime_seconds: number; // integer, default 0
+  role_playtime_seconds: Record<string, number>; // jsonb, default '{}'
+  playtimer_start_time: string | null; // timestamptz - nullable (ISO string)
+  is_starter: boolean; // boolean, default false
+  subbed_on_count: number; // integer, default 0
+  subbed_off_count: number; // integer, default 0
+  revision?: number; // integer, incremented by trigger on every update
+  created_at?: string; // timestamptz
+  updated_at?: string; // timestamptz
+}
+
+// GameEvent is the local representation of a 'game_events' row
 export interface GameEvent {
   id: string;
-  type: 'goal' | 'substitution';
+  type: 'goal' | 'substitution' | 'yellow_card' | 'red_card' | 'shot_on_target' | 'shot_off_target' | 'save' | 'corner' | 'foul' | 'offside' | 'shootout_scored' | 'shootout_missed' | 'player_inactive';
   team: 'home' | 'away';
+  playerId?: string | null; // Player the card, stat or shootout kick is about, or our player who scored an own goal (null for opponents or when unknown)
   scorerPlayerId?: string | null;
+  goalType?: GoalType | null; // Goals only; null when not recorded. Own goals belong to the team that benefits
+  points?: number | null; // Goals only; what the score was worth (e.g. a 3-point basket), null counts as 1
+  inactiveReason?: InactiveReason | null; // 'player_inactive' only
+  note?: string | null; // Optional detail, e.g. the injury
   playerInId?: string;
   playerOutId?: string;
   assistPlayerId?: string | null;
@@ -50,6 +91,29 @@ export interface GameEvent {
   gameSeconds: number; // Elapsed game seconds at time of event
 }
 
+// Fields of an existing event that can be corrected from the timeline
+export type GameEventChanges = Partial<Pick<GameEvent, 'team' | 'playerId' | 'scorerPlayerId' | 'assistPlayerId' | 'goalType' | 'points' | 'inactiveReason' | 'note' | 'playerInId' | 'playerOutId' | 'gameSeconds'>>;
+
+// GameEventRow reflects the Supabase 'game_events' table schema
+export interface GameEventRow {
+  id: string; // uuid (generated client-side so the row can be referenced before insert returns)
+  game_id: string; // uuid
+  type: GameEvent['type']; // text
+  team: GameEvent['team']; // text
+  scorer_player_id: string | null; // uuid - nullable
+  assist_player_id: string | null; // uuid - nullable
+  player_in_id: string | null; // uuid - nullable
+  player_out_id: string | null; // uuid - nullable
+  player_id: string | null; // uuid - nullable (booked player for cards)
+  goal_type: GoalType | null; // text - nullable
+  points: number | null; // integer - nullable
+  inactive_reason: InactiveReason | null; // text - nullable
+  note: string | null; // text - nullable
+  event_timestamp: string; // timestamptz (ISO string)
+  game_seconds: number; // integer
+  created_at?: string; // timestamptz
+}
+
 // GameData reflects the Supabase 'games' table schema
 export interface GameData {
     id: string; // uuid
@@ -66,8 +130,15 @@ export interface GameData {
     timer_start_time: string | null; // timestamptz - nullable (ISO string)
     timer_elapsed_seconds: number; // integer, default 0
     is_explicitly_finished: boolean; // boolean, default false
-    lineup: PlayerLineupState[] | null; // jsonb - nullable
-    events: GameEvent[] | null; // jsonb - nullable
+    period_count: number; // integer, default 2
+    period_minutes: number; // integer, default 45
+    break_minutes: number; // integer, default 15
+    period_end_seconds: number[]; // integer[] - timer_elapsed_seconds at the end of each completed period
+    break_start_time: string | null; // timestamptz - nullable (ISO string), set while between periods
+    formation_id: string | null; // text - nullable, the formation in use (see lib/formations)
+    field_player_count: number | null; // integer - nullable, players per team on the field (see lib/gameFormats); null for no limit
+    substitution_waves: SubstitutionWave[]; // jsonb, default '[]' - prepared substitution waves (see lib/substitutionWaves)
+    revision: number; // integer, incremented by trigger on every update
     created_at: string; // timestamptz
     updated_at: string; // timestamptz
 }
@@ -77,26 +148,65 @@ export interface GameData {
 export interface Game extends Omit<GameData, 'team_id' | 'timer_start_time'> {
   team_id: string; // Keep for reference
   timerStartTime: number | null; // Local state representation (JS timestamp)
+  lineup: PlayerLineupState[]; // Loaded from the game_lineups table
+  events: GameEvent[]; // Loaded from the game_events table, sorted by game time
 }
 
-// SavedLineup remains the same (uses localStorage)
+// Shape returned when games are selected together with their game_lineups and game_events rows
+export type GameDataWithRelations = GameData & { game_lineups?: GameLineupRow[] | null; game_events?: GameEventRow[] | null };
+
+// SavedLineup is the local representation of a 'saved_lineups' row
 export interface SavedLineup {
+  id?: string; // uuid - absent for lineups not yet stored in Supabase
   name: string;
   players: Pick<PlayerLineupState, 'id' | 'location' | 'position'>[];
 }
 
+// SavedLineupRow reflects the Supabase 'saved_lineups' table schema
+export interface SavedLineupRow {
+  id: string; // uuid
+  team_id: string; // uuid
+  name: string; // text, unique per team
+  lineup_data: PlayerLineupStructure[]; // jsonb
+  created_at: string; // timestamptz
+}
+
 // GameHistory remains the same (uses localStorage)
 export interface GameHistory {
   seasons: string[];
   competitions: string[];
 }
 
+// Offline outbox status shown in the GamePage header
+export interface SyncStatus {
+  pendingCount: number; // Game writes queued but not yet saved to Supabase
+  isSyncing: boolean;
+  isOnline: boolean;
+}
+
+// Game state that undo/redo restores (everything a live game action can change)
+export type GameSnapshot = Pick<Game, 'home_score' | 'away_score' | 'timer_status' | 'timerStartTime' | 'timer_elapsed_seconds' | 'is_explicitly_finished' | 'period_end_seconds' | 'break_start_time' | 'formation_id' | 'substitution_waves' | 'lineup' | 'events'>;
+
+// One undoable step; the label is shown on the undo/redo buttons
+export interface GameActionEntry {
+  label: string;
+  snapshot: GameSnapshot; // State to restore when this entry is undone (or redone)
+}
+
+export interface GameActionHistory {
+  undo: GameActionEntry[];
+  redo: GameActionEntry[];
+}
+
 // TeamData remains the same
 export interface TeamData {
   id: string;
   user_id: string;
   name: string;
   logo_url: string | null;
+  role_zones: RoleZone[] | null; // jsonb - nullable, null for the default zones (see lib/roles)
+  formations: Formation[] | null; // jsonb - nullable, the team's custom formations
+  sport: SportId; // text, default 'soccer' (see lib/sports)
   created_at: string;
 }
 
@@ -105,7 +215,13 @@ interface TeamContextProps {
   teamData: TeamData | null;
   teamLoading: boolean;
   updateTeamNameInDb: (newName: string) => Promise<void>;
-  updateTeamLogoInDb: (newLogoUrl: string | null) => Promise<void>;
+  updateTeamLogoInDb: (logo: Blob | null) => Promise<void>; // Resizes and uploads the image; null removes the logo
+  roleZones: RoleZone[]; // The team's position role zones (the defaults until changed)
+  updateTeamRoleZonesInDb: (zones: RoleZone[] | null) => Promise<void>; // null restores the default zones
+  formations: Formation[]; // Built-in formations, then the team's own
+  updateTeamFormationsInDb: (customFormations: Formation[]) => Promise<void>; // Replaces the team's own formations
+  sport: SportDefinition; // The team's sport (soccer until changed)
+  updateTeamSportInDb: (sportId: SportId) => Promise<void>;
   // Player State
   players: Player[];
   playersLoading: boolean;
@@ -115,24 +231,38 @@ interface TeamContextProps {
   // Game State (Now from Supabase)
   games: Game[];
   gamesLoading: boolean; // New loading state for games
-  addGame: (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string) => Promise<void>; // Async
+  addGame: (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string, periods?: PeriodConfig, fieldPlayerCount?: number | null) => Promise<void>; // Async
   updateGame: (id: string, updates: Partial<Omit<GameData, 'id' | 'team_id' | 'created_at' | 'updated_at'>>) => Promise<void>; // Async, uses GameData fields
   deleteGame: (id: string) => Promise<void>; // Async
+  changeSubstitutionWaves: (gameId: string, waves: SubstitutionWave[], removedWaveIds?: string[]) => Promise<void>; // Adds or replaces waves by id, removes those listed
   // Game Actions (Update Supabase)
   startGameTimer: (gameId: string) => Promise<void>; // Async
   stopGameTimer: (gameId: string) => Promise<void>; // Async
+  endGamePeriod: (gameId: string) => Promise<void>; // Stops the clock and starts the break before the next period
   markGameAsFinished: (gameId: string) => Promise<void>; // Async
   resetGameLineup: (gameId: string) => Promise<PlayerLineupState[] | null>; // Async, returns new lineup or null
-  movePlayerInGame: ( gameId: string, playerId: string, sourceLocation: PlayerLineupState['location'], targetLocation: PlayerLineupState['location'], newPosition?: { x: number; y: number } ) => Promise<void>; // Async
-  addGameEvent: (gameId: string, team: 'home' | 'away', scorerPlayerId: string | null, assistPlayerId?: string | null) => Promise<void>; // Async
+  movePlayerInGame: ( gameId: string, playerId: string, sourceLocation: PlayerLineupState['location'], targetLocation: PlayerLineupState['location'], newPosition?: { x: number; y: number }, replacedPlayerId?: string ) => Promise<void>; // Async; replacedPlayerId is the field player leaving in the same action (swap or planned sub)
+  addGameEvent: (gameId: string, team: 'home' | 'away', scorerPlayerId: string | null, assistPlayerId?: string | null, goalType?: GoalType | null, ownGoalPlayerId?: string | null, points?: number) => Promise<void>; // Async, team is the side the goal counts for
+  addCardEvent: (gameId: string, team: 'home' | 'away', cardType: CardType, playerId: string | null) => Promise<void>; // Sent-off players leave play
+  addStatEvent: (gameId: string, team: 'home' | 'away', type: StatEventType, playerId: string | null) => Promise<void>; // Async
+  addShootoutKick: (gameId: string, team: 'home' | 'away', playerId: string | null, scored: boolean) => Promise<void>; // Async, after full time; doesn't change the score
+  addInactiveEvent: (gameId: string, playerId: string, reason: InactiveReason, note: string | null) => Promise<void>; // Async, records why a player moved to inactive
   removeLastGameEvent: (gameId: string, team: 'home' | 'away') => Promise<void>; // Async
+  updateGameEvents: (gameId: string, updates: { id: string; changes: GameEventChanges }[]) => Promise<void>; // Async, recomputes the score from the events
+  deleteGameEvents: (gameId: string, eventIds: string[]) => Promise<void>; // Async, recomputes the score from the events
+  // Undo/Redo for live game actions (per game, kept in memory)
+  actionHistory: Record<string, GameActionHistory>;
+  runGameAction: (gameId: string, label: string, action: () => Promise<unknown>) => Promise<void>; // Records one undoable step around one or more game actions
+  undoGameAction: (gameId: string) => Promise<void>;
+  redoGameAction: (gameId: string) => Promise<void>;
   // Local Lineup Planning State (Unchanged)
   movePlayer: (playerId: string, targetLocation: 'bench' | 'field', position?: { x: number; y: number }) => void;
   swapPlayers: (player1Id: string, player2Id: string) => void;
   savedLineups: SavedLineup[];
-  saveLineup: (name: string) => void;
+  saveLineup: (name: string) => Promise<void>; // Async, overwrites an existing lineup with the same name
   loadLineup: (name: string) => boolean;
-  deleteLineup: (name: string) => void;
+  renameLineup: (oldName: string, newName: string) => Promise<boolean>; // Async, false if the new name is taken
+  deleteLineup: (name: string) => Promise<void>; // Async
   resetLineup: () => void;
   // Navigation (Unchanged)
   setCurrentPage: (page: string) => void;
@@ -141,6 +271,8 @@ interface TeamContextProps {
   gameHistory: GameHistory;
   getMostRecentSeason: () => string | undefined;
   getMostRecentCompetition: () => string | undefined;
+  // Offline Sync
+  syncStatus: SyncStatus;
 }
 
 // --- Context ---
@@ -148,6 +280,12 @@ export const TeamContext = createContext<TeamContextProps>({
   teamData: null, teamLoading: true,
   updateTeamNameInDb: async () => { console.warn("Default updateTeamNameInDb context function called."); },
   updateTeamLogoInDb: async () => { console.warn("Default updateTeamLogoInDb context function called."); },
+  roleZones: DEFAULT_ROLE_ZONES,
+  updateTeamRoleZonesInDb: async () => { console.warn("Default updateTeamRoleZonesInDb context function called."); },
+  formations: BUILT_IN_FORMATIONS,
+  updateTeamFormationsInDb: async () => { console.warn("Default updateTeamFormationsInDb context function called."); },
+  sport: DEFAULT_SPORT,
+  updateTeamSportInDb: async () => { console.warn("Default updateTeamSportInDb context function called."); },
   players: [], playersLoading: true,
   addPlayer: async () => { console.warn("Default addPlayer context function called."); },
   updatePlayer: async () => { console.warn("Default updatePlayer context function called."); },
@@ -156,19 +294,32 @@ export const TeamContext = createContext<TeamContextProps>({
   addGame: async () => { console.warn("Default addGame context function called."); },
   updateGame: async () => { console.warn("Default updateGame context function called."); },
   deleteGame: async () => { console.warn("Default deleteGame context function called."); },
+  changeSubstitutionWaves: async () => { console.warn("Default changeSubstitutionWaves context function called."); },
   startGameTimer: async () => { console.warn("Default startGameTimer context function called."); },
   stopGameTimer: async () => { console.warn("Default stopGameTimer context function called."); },
+  endGamePeriod: async () => { console.warn("Default endGamePeriod context function called."); },
   markGameAsFinished: async () => { console.warn("Default markGameAsFinished context function called."); },
   resetGameLineup: async () => { console.warn("Default resetGameLineup context function called."); return null; },
   movePlayerInGame: async () => { console.warn("Default movePlayerInGame context function called."); },
   addGameEvent: async () => { console.warn("Default addGameEvent context function called."); },
+  addCardEvent: async () => { console.warn("Default addCardEvent context function called."); },
+  addStatEvent: async () => { console.warn("Default addStatEvent context function called."); },
+  addShootoutKick: async () => { console.warn("Default addShootoutKick context function called."); },
+  addInactiveEvent: async () => { console.warn("Default addInactiveEvent context function called."); },
   removeLastGameEvent: async () => { console.warn("Default removeLastGameEvent context function called."); },
+  updateGameEvents: async () => { console.warn("Default updateGameEvents context function called."); },
+  deleteGameEvents: async () => { console.warn("Default deleteGameEvents context function called."); },
+  actionHistory: {},
+  runGameAction: async () => { console.warn("Default runGameAction context function called."); },
+  undoGameAction: async () => { console.warn("Default undoGameAction context function called."); },
+  redoGameAction: async () => { console.warn("Default redoGameAction context function called."); },
   movePlayer: () => {}, swapPlayers: () => {},
-  savedLineups: [], saveLineup: () => {}, loadLineup: () => false, deleteLineup: () => {}, resetLineup: () => {},
+  savedLineups: [], saveLineup: async () => {}, loadLineup: () => false, renameLineup: async () => false, deleteLineup: async () => {}, resetLineup: () => {},
   setCurrentPage: () => { console.warn("Default setCurrentPage context function called."); },
   selectGame: () => { console.warn("Default selectGame context function called."); },
   gameHistory: { seasons: [], competitions: [] },
   getMostRecentSeason: () => undefined, getMostRecentCompetition: () => undefined,
+  syncStatus: { pendingCount: 0, isSyncing: false, isOnline: true },
 });
 
 // --- Provider ---
@@ -178,15 +329,102 @@ interface TeamProviderProps {
   selectGame: (gameId: string) => void;
 }
 
-// Helper to convert Supabase GameData to local Game state
-const mapGameDataToGame = (gameData: GameData): Game => {
+// Helpers to convert between 'game_events' rows and local GameEvent objects
+const mapEventRowToGameEvent = (row: GameEventRow): GameEvent => ({
+  id: row.id,
+  type: row.type,
+  team: row.team,
+  playerId: row.player_id,
+  scorerPlayerId: row.scorer_player_id,
+  assistPlayerId: row.assist_player_id,
+  goalType: row.goal_type,
+  points: row.points,
+  inactiveReason: row.inactive_reason,
+  note: row.note,
+  playerInId: row.player_in_id ?? undefined,
+  playerOutId: row.player_out_id ?? undefined,
+  timestamp: new Date(row.event_timestamp).getTime(),
+  gameSeconds: row.game_seconds,
+});
+
+const mapGameEventToRow = (gameId: string, event: GameEvent): GameEventRow => ({
+  id: event.id,
+  game_id: gameId,
+  type: event.type,
+  team: event.team,
+  scorer_player_id: event.scorerPlayerId ?? null,
+  assist_player_id: event.assistPlayerId ?? null,
+  player_in_id: event.playerInId ?? null,
+  player_out_id: event.playerOutId ?? null,
+  player_id: event.playerId ?? null,
+  goal_type: event.goalType ?? null,
+  points: event.points ?? null,
+  inactive_reason: event.inactiveReason ?? null,
+  note: event.note ?? null,
+  event_timestamp: new Date(event.timestamp).toISOString(),
+  game_seconds: event.gameSeconds,
+});
+
+// Helpers to convert between 'game_lineups' rows and local PlayerLineupState objects
+const mapLineupRowToState = (row: GameLineupRow): PlayerLineupState => ({
+  id: row.player_id,
+  location: row.location,
+  position: row.position ?? undefined,
+  initialPosition: row.initial_position ?? undefined,
+  playtimeSeconds: row.playtime_seconds ?? 0,
+  rolePlaytimeSeconds: row.role_playtime_seconds ?? {},
+  playtimerStartTime: row.playtimer_start_time ? new Date(row.playtimer_start_time).getTime() : null,
+  isStarter: row.is_starter ?? false,
+  subbedOnCount: row.subbed_on_count ?? 0,
+  subbedOffCount: row.subbed_off_count ?? 0,
+  revision: row.revision,
+});
+
+const mapLineupStateToRow = (gameId: string, state: PlayerLineupState): GameLineupRow => ({
+  game_id: gameId,
+  player_id: state.id,
+  location: state.location,
+  position: state.position ?? null,
+  initial_position: state.initialPosition ?? null,
+  playtime_seconds: Math.round(state.playtimeSeconds ?? 0),
+  role_playtime_seconds: state.rolePlaytimeSeconds ?? {},
+  playtimer_start_time: state.playtimerStartTime ? new Date(state.playtimerStartTime).toISOString() : null,
+  is_starter: state.isStarter ?? false,
+  subbed_on_count: state.subbedOnCount ?? 0,
+  subbed_off_count: state.subbedOffCount ?? 0,
+});
+
+// Returns only the lineup entries that were replaced (by reference) in nextLineup
+const getChangedLineupStates = (prevLineup: PlayerLineupState[], nextLineup: PlayerLineupState[]): PlayerLineupState[] =>
+  nextLineup.filter((p, i) => p !== prevLineup[i]);
+
+const mapSavedLineupRow = (row: SavedLineupRow): SavedLineup => ({
+  id: row.id,
+  name: row.name,
+  players: decodeLineupStructure(row.lineup_data),
+});
+
+const sortSavedLineups = (lineups: SavedLineup[]): SavedLineup[] =>
+  [...lineups].sort((a, b) => a.name.localeCompare(b.name));
+
+const sortEvents = (events: GameEvent[]): GameEvent[] =>
+  [...events].sort((a, b) => a.gameSeconds - b.gameSeconds || a.timestamp - b.timestamp);
+
+// The score is derived from the goal events whenever events are edited, so timeline and score can't disagree
+const calculateScoreFromEvents = (events: GameEvent[]): Pick<GameData, 'home_score' | 'away_score'> => ({
+  home_score: events.filter(e => e.type === 'goal' && e.team === 'home').reduce((sum, e) => sum + getGoalPoints(e), 0),
+  away_score: events.filter(e => e.type === 'goal' && e.team === 'away').reduce((sum, e) => sum + getGoalPoints(e), 0),
+});
+
+// Helper to convert Supabase GameData (with embedded game_lineups/game_events) to local Game state
+const mapGameDataToGame = ({ game_lineups, game_events, ...gameData }: GameDataWithRelations): Game => {
   return {
     ...gameData,
     // Convert ISO string timestamp to JS number timestamp (milliseconds) or null
     timerStartTime: gameData.timer_start_time ? new Date(gameData.timer_start_time).getTime() : null,
-    // Ensure lineup and events are arrays, even if null/undefined from DB
-    lineup: gameData.lineup ?? [],
-    events: gameData.events ?? [],
+    // Repair or drop malformed rows; null/undefined from DB become empty arrays
+    lineup: decodeGameLineupRows(game_lineups).map(mapLineupRowToState),
+    events: sortEvents(decodeGameEventRows(game_events).map(mapEventRowToGameEvent)),
     // Ensure scores are numbers
     home_score: gameData.home_score ?? 0,
     away_score: gameData.away_score ?? 0,
@@ -194,19 +432,239 @@ const mapGameDataToGame = (gameData: GameData): Game => {
     timer_status: gameData.timer_status === 'running' ? 'running' : 'stopped',
     timer_elapsed_seconds: gameData.timer_elapsed_seconds ?? 0,
     is_explicitly_finished: gameData.is_explicitly_finished ?? false,
+    // Games saved before periods existed (e.g. in guest mode) have no period columns
+    period_count: gameData.period_count ?? DEFAULT_PERIOD_CONFIG.period_count,
+    period_minutes: gameData.period_minutes ?? DEFAULT_PERIOD_CONFIG.period_minutes,
+    break_minutes: gameData.break_minutes ?? DEFAULT_PERIOD_CONFIG.break_minutes,
+    period_end_seconds: decodePeriodEndSeconds(gameData.period_end_seconds),
+    break_start_time: gameData.break_start_time ?? null,
+    formation_id: gameData.formation_id ?? null,
+    field_player_count: gameData.field_player_count ?? null,
+    substitution_waves: decodeSubstitutionWaves(gameData.substitution_waves),
+    revision: gameData.revision ?? 0,
+  };
+};
+
+// Newest game first (by date, then kick-off time)
+const sortGames = (games: Game[]): Game[] =>
+  [...games].sort((a, b) => new Date(b.game_date).getTime() - new Date(a.game_date).getTime() || (b.game_time ?? '').localeCompare(a.game_time ?? ''));
+
+const fetchGamesForTeam = async (teamId: string): Promise<Game[]> =>
+  (await getRepository().listGames(teamId)).map(mapGameDataToGame);
+
+// Logos used to be stored inline as base64 data URLs; moves such a logo into storage and returns the updated team
+const migrateDataUrlLogo = async (team: TeamData): Promise<TeamData> => {
+  if (!isDataUrl(team.logo_url) || getRepository().kind !== 'supabase') return team;
+  const logo = await resizeLogo(await dataUrlToBlob(team.logo_url));
+  const logoUrl = await getRepository().uploadTeamLogo(team.id, logo);
+  await getRepository().updateTeam(team.id, { logo_url: logoUrl });
+  await getRepository().removeOldTeamLogos(team.id, logoUrl);
+  return { ...team, logo_url: logoUrl };
+};
+
+// Replaces lineup entries by player id, appending players that have no entry yet
+const upsertLineupStates = (lineup: PlayerLineupState[], states: PlayerLineupState[]): PlayerLineupState[] => {
+  const statesById = new Map(states.map(s => [s.id, s]));
+  const existingIds = new Set(lineup.map(p => p.id));
+  return [...lineup.map(p => statesById.get(p.id) ?? p), ...states.filter(s => !existingIds.has(s.id))];
+};
+
+// Applies 'games' column updates to a local Game before the write reaches Supabase
+const applyGameDataUpdates = (game: Game, updates: Partial<GameData>): Game => {
+  const { timer_start_time, ...rest } = updates;
+  return {
+    ...game, ...rest,
+    timerStartTime: timer_start_time === undefined ? game.timerStartTime : (timer_start_time ? new Date(timer_start_time).getTime() : null),
+    revision: game.revision + 1, // Mirrors the server trigger so queued writes expect the right revision
   };
 };
 
+// Mirrors the server revision trigger for lineup rows that are about to be upserted
+const bumpLineupRevisions = (states: PlayerLineupState[]): PlayerLineupState[] =>
+  states.map(p => p.revision === undefined ? p : { ...p, revision: p.revision + 1 });
+
+// Outbox mutations for the game tables (replayed in order by lib/outbox)
+// Game updates are conditional on the revision they were computed from; a stale write re-applies the intent
+const gameUpdateMutation = (game: Game, updates: Partial<GameData>, intent: GameIntent): OutboxMutationInput =>
+  ({ table: 'games', action: 'intent', values: updates, intent, expectedRevision: game.revision, match: { id: game.id, team_id: game.team_id } });
+
+// Score changes from editing or deleting events, as one adjustScore write per team. Unlike a recomputed total,
+// a stale write re-applied this way keeps goals another device added in the meantime.
+const scoreAdjustments = (game: Game, newEvents: GameEvent[]): { updates: Partial<GameData>; mutation: OutboxMutationInput }[] => {
+  const oldScore = calculateScoreFromEvents(game.events);
+  const newScore = calculateScoreFromEvents(newEvents);
+  const adjustments: { updates: Partial<GameData>; mutation: OutboxMutationInput }[] = [];
+  let adjusted = game;
+  (['home', 'away'] as const).forEach(team => {
+    const key = team === 'home' ? 'home_score' : 'away_score';
+    const delta = newScore[key] - oldScore[key];
+    if (delta === 0) return;
+    const score = Math.max(0, (adjusted[key] ?? 0) + delta);
+    const updates: Partial<GameData> = team === 'home' ? { home_score: score } : { away_score: score };
+    adjustments.push({ updates, mutation: gameUpdateMutation(adjusted, updates, { type: 'adjustScore', team, delta }) });
+    adjusted = applyGameDataUpdates(adjusted, updates);
+  });
+  return adjustments;
+};
+
+// Changes single substitution waves by id, so wave changes from another device are kept
+const wavesChangeMutation = (game: Game, waves: SubstitutionWave[], removedWaveIds: string[]): OutboxMutationInput =>
+  gameUpdateMutation(game, { substitution_waves: changeWaves(game.substitution_waves, waves, removedWaveIds) }, { type: 'changeWaves', waves, removedWaveIds });
+
+// expectedRevision is null when no row is known yet, in which case the move is inserted
+const lineupMoveMutation = (gameId: string, intent: LineupIntent, values: LineupIntentValues, expectedRevision: number | null): OutboxMutationInput =>
+  ({ table: 'game_lineups', action: 'intent', values, intent, expectedRevision, match: { game_id: gameId, player_id: intent.playerId } });
+
+// Only the players whose state changed are upserted, so a single drag never rewrites the whole lineup
+const lineupUpsertMutations = (gameId: string, states: PlayerLineupState[]): OutboxMutationInput[] =>
+  states.length === 0 ? [] : [{ table: 'game_lineups', action: 'upsert', values: states.map(p => mapLineupStateToRow(gameId, p)), onConflict: 'game_id,player_id' }];
+
+// Events are upserted by id, so replaying after a lost response doesn't fail on a duplicate key
+const eventUpsertMutation = (gameId: string, event: GameEvent): OutboxMutationInput =>
+  ({ table: 'game_events', action: 'upsert', values: mapGameEventToRow(gameId, event), onConflict: 'id' });
+
+const eventDeleteMutation = (gameId: string, eventIds?: string[]): OutboxMutationInput =>
+  ({ table: 'game_events', action: 'delete', match: { game_id: gameId }, inFilter: eventIds ? { column: 'id', values: eventIds } : undefined });
+
+// Helpers to merge Realtime change payloads (from this or another device) into local Game state
+const mergeRemoteGameRow = (games: Game[], row: GameData): Game[] => {
+  const existing = games.find(g => g.id === row.id);
+  // Notifications can arrive after a newer write was already applied locally
+  if (existing && (row.revision ?? 0) < existing.revision) return games;
+  // A 'games' payload carries no relations, so keep the lineup and events we already have
+  const merged: Game = { ...mapGameDataToGame(row), lineup: existing?.lineup ?? [], events: existing?.events ?? [] };
+  return sortGames(existing ? games.map(g => g.id === row.id ? merged : g) : [merged, ...games]);
+};
+
+const mergeRemoteEventRow = (games: Game[], row: GameEventRow): Game[] =>
+  games.map(g => g.id !== row.game_id ? g : {
+    ...g, events: sortEvents([...g.events.filter(e => e.id !== row.id), mapEventRowToGameEvent(row)]),
+  });
+
+const removeRemoteEvent = (games: Game[], eventId: string): Game[] =>
+  games.map(g => g.events.some(e => e.id === eventId) ? { ...g, events: g.events.filter(e => e.id !== eventId) } : g);
+
+const mergeRemoteLineupRow = (games: Game[], row: GameLineupRow): Game[] =>
+  games.map(g => {
+    if (g.id !== row.game_id) return g;
+    const existing = g.lineup.find(p => p.id === row.player_id);
+    if (existing?.revision !== undefined && (row.revision ?? 0) < existing.revision) return g; // Older than local state
+    return { ...g, lineup: upsertLineupStates(g.lineup, [mapLineupRowToState(row)]) };
+  });
+
+const removeRemoteLineupRow = (games: Game[], gameId: string, playerId: string): Game[] =>
+  games.map(g => g.id === gameId ? { ...g, lineup: g.lineup.filter(p => p.id !== playerId) } : g);
+
+// Game clock time (seconds) at a moment, including the running part
+const getGameClockSeconds = (game: Game, now: number): number => {
+  let currentSeconds = game.timer_elapsed_seconds ?? 0;
+  if (game.timer_status === 'running' && game.timerStartTime) currentSeconds += (now - game.timerStartTime) / 1000;
+  return Math.round(currentSeconds);
+};
+
+// Moves one player as a live move would (banking playtime), for moves the app makes on its own
+const moveLineupState = (game: Game, state: PlayerLineupState, location: PlayerLineupState['location'], now: number, roleZones: RoleZone[]): { state: PlayerLineupState; mutation: OutboxMutationInput } => {
+  const intent: LineupIntent = { type: 'move', playerId: state.id, location, position: null, at: now, gameRunning: game.timer_status === 'running', subbedOn: false, subbedOff: false, roleZones };
+  const movedValues = applyLineupIntent(mapLineupStateToRow(game.id, state), intent);
+  return {
+    state: { ...mapLineupRowToState({ ...mapLineupStateToRow(game.id, state), ...movedValues }), revision: state.revision !== undefined ? state.revision + 1 : undefined },
+    mutation: lineupMoveMutation(game.id, intent, movedValues, state.revision ?? null),
+  };
+};
+
+// Editing or deleting a card can change who is sent off. A player it now sends off leaves play like after a live
+// card, with a 'sent_off' inactive event at the card's time; a player no longer sent off returns to the bench and
+// their 'sent_off' inactive events are removed. events are the game's events after the edit.
+const reconcileSentOffPlayers = (game: Game, events: GameEvent[], playerIds: (string | null | undefined)[], now: number, roleZones: RoleZone[]) => {
+  const states: PlayerLineupState[] = [];
+  const mutations: OutboxMutationInput[] = [];
+  const addedEvents: GameEvent[] = [];
+  const removedEventIds: string[] = [];
+  new Set(playerIds.filter((id): id is string => !!id)).forEach(playerId => {
+    const state = game.lineup.find(p => p.id === playerId);
+    if (!state) return;
+    const sendingOffEvent = getSendingOffEvent(events, playerId);
+    if (sendingOffEvent && state.location !== 'inactive') {
+      const moved = moveLineupState(game, state, 'inactive', now, roleZones);
+      states.push(moved.state);
+      mutations.push(moved.mutation);
+      addedEvents.push({ id: uuidv4(), type: 'player_inactive', team: game.location, playerId, inactiveReason: 'sent_off', note: null, timestamp: now, gameSeconds: sendingOffEvent.gameSeconds });
+    } else if (!sendingOffEvent && state.location === 'inactive' && getInactiveReason(game.events, playerId) === 'sent_off') {
+      const moved = moveLineupState(game, state, 'bench', now, roleZones);
+      states.push(moved.state);
+      mutations.push(moved.mutation);
+      removedEventIds.push(...events.filter(e => e.type === 'player_inactive' && e.playerId === playerId && e.inactiveReason === 'sent_off').map(e => e.id));
+    }
+  });
+  return { states, mutations, addedEvents, removedEventIds };
+};
+
+// Banks the running playtime of field (and inactive) players when the game clock stops; field time also goes to
+// the role of the zone each player is standing in
+const stopPlaytimers = (lineup: PlayerLineupState[], now: number, roleZones: RoleZone[]): PlayerLineupState[] =>
+  lineup.map(p => {
+    if ((p.location === 'field' || p.location === 'inactive') && p.playtimerStartTime) {
+      const playerElapsed = (now - p.playtimerStartTime) / 1000;
+      const currentPlaytime = typeof p.playtimeSeconds === 'number' ? p.playtimeSeconds : 0;
+      const rolePlaytimeSeconds = p.location === 'field' && p.position
+        ? addRolePlaytime(p.rolePlaytimeSeconds ?? {}, getRoleForPosition(roleZones, p.position), playerElapsed)
+        : p.rolePlaytimeSeconds;
+      return { ...p, playtimeSeconds: Math.round(currentPlaytime + playerElapsed), rolePlaytimeSeconds, playtimerStartTime: null };
+    }
+    return p;
+  });
+
+// Helpers for undo/redo of live game actions
+const MAX_GAME_ACTIONS = 50; // Per game; the oldest steps are dropped first
+
+const takeGameSnapshot = (game: Game): GameSnapshot => ({
+  home_score: game.home_score,
+  away_score: game.away_score,
+  timer_status: game.timer_status,
+  timerStartTime: game.timerStartTime,
+  timer_elapsed_seconds: game.timer_elapsed_seconds,
+  is_explicitly_finished: game.is_explicitly_finished,
+  period_end_seconds: game.period_end_seconds,
+  break_start_time: game.break_start_time,
+  formation_id: game.formation_id,
+  substitution_waves: game.substitution_waves,
+  lineup: game.lineup,
+  events: game.events,
+});
+
+// Compared as rows so key order and the local-only revision don't matter
+const isSameLineupState = (a: PlayerLineupState, b: PlayerLineupState): boolean =>
+  JSON.stringify(mapLineupStateToRow('', a)) === JSON.stringify(mapLineupStateToRow('', b));
+
+const isSameGameEvent = (a: GameEvent, b: GameEvent): boolean =>
+  JSON.stringify(mapGameEventToRow('', a)) === JSON.stringify(mapGameEventToRow('', b));
+
+// Whether an action left the game as it was, i.e. there is nothing to undo
+const isSameGameSnapshot = (a: GameSnapshot, b: GameSnapshot): boolean => {
+  const { lineup: lineupA, events: eventsA, ...fieldsA } = a;
+  const { lineup: lineupB, events: eventsB, ...fieldsB } = b;
+  const statesB = new Map(lineupB.map(p => [p.id, p]));
+  const eventsById = new Map(eventsB.map(e => [e.id, e]));
+  return JSON.stringify(fieldsA) === JSON.stringify(fieldsB)
+    && lineupA.length === lineupB.length && lineupA.every(p => { const other = statesB.get(p.id); return !!other && isSameLineupState(p, other); })
+    && eventsA.length === eventsB.length && eventsA.every(e => { const other = eventsById.get(e.id); return !!other && isSameGameEvent(e, other); });
+};
+
+const pushGameAction = (history: GameActionEntry[], entry: GameActionEntry): GameActionEntry[] =>
+  [...history, entry].slice(-MAX_GAME_ACTIONS);
+
 // Creates the default lineup structure for a *new* game
 const createDefaultLineup = (players: Player[]): PlayerLineupState[] => {
     return players.map(p => ({
         id: p.id, // Use the player's Supabase ID
         location: 'bench', position: undefined, initialPosition: undefined,
-        playtimeSeconds: 0, playtimerStartTime: null, isStarter: false, subbedOnCount: 0, subbedOffCount: 0,
+        playtimeSeconds: 0, rolePlaytimeSeconds: {}, playtimerStartTime: null, isStarter: false, subbedOnCount: 0, subbedOffCount: 0,
     }));
 };
 
-// LocalStorage Helpers (Keep for savedLineups - REMOVE games, gameHistory derived now)
+// LocalStorage Helpers (Only used for the one-time import of legacy savedLineups)
+const LEGACY_SAVED_LINEUPS_KEY = 'savedLineups';
+
 const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
   try {
     const storedValue = localStorage.getItem(key);
@@ -222,17 +680,12 @@ const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
   }
 };
 
-const saveToLocalStorage = <T,>(key: string, value: T): void => {
-  try { localStorage.setItem(key, JSON.stringify(value)); }
-  catch (error) { console.error(`Error setting localStorage key “${key}”:`, error); }
-};
-
 // --- Provider Component ---
 export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrentPage, selectGame }) => {
   // Team Data State
   const [teamData, setTeamData] = useState<TeamData | null>(null);
   const [teamLoading, setTeamLoading] = useState<boolean>(true);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
 
   // Player State (fetched from Supabase)
   const [players, setPlayers] = useState<Player[]>([]);
@@ -241,18 +694,22 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
   // Game State (fetched from Supabase)
   const [games, setGames] = useState<Game[]>([]);
   const [gamesLoading, setGamesLoading] = useState<boolean>(true);
+  // The latest games, including local changes not rendered yet (applyGameChange updates it as it changes a game)
+  const gamesRef = useRef<Game[]>(games);
+  useEffect(() => { gamesRef.current = games; }, [games]);
+
+  // Saved Lineup State (fetched from Supabase)
+  const [savedLineups, setSavedLineupsState] = useState<SavedLineup[]>([]);
 
-  // Local State (using localStorage)
-  const [savedLineups, setSavedLineupsState] = useState<SavedLineup[]>(() => loadFromLocalStorage('savedLineups', []));
+  // Offline outbox status
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ pendingCount: 0, isSyncing: false, isOnline: navigator.onLine });
+  const [actionHistory, setActionHistory] = useState<Record<string, GameActionHistory>>({});
 
   // Derived State (from Supabase games)
   const [gameHistory, setGameHistory] = useState<GameHistory>({ seasons: [], competitions: [] });
 
   // --- Effects ---
 
-  // Save savedLineups to localStorage
-  useEffect(() => { saveToLocalStorage('savedLineups', savedLineups); }, [savedLineups]);
-
   // Derive Game History from fetched games
   useEffect(() => {
     const seasons = new Set<string>();
@@ -269,11 +726,12 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
 
   // Fetch Team, Players, and Games based on Auth State
   useEffect(() => {
-    const fetchAllData = async (user: User | null) => {
+    const fetchAllData = async (user: AuthUser | null) => {
       if (!user) {
         setTeamData(null); setTeamLoading(false);
         setPlayers([]); setPlayersLoading(false);
         setGames([]); setGamesLoading(false); // Reset games if no user
+        setSavedLineupsState([]);
         return;
       }
 
@@ -284,18 +742,14 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
 
       try {
         // 1. Fetch Team Data
-        const { data: teamResult, error: teamError } = await supabase
-          .from('teams')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-
-        if (teamError) {
-          if (teamError.code === 'PGRST116') { console.warn('No team found for user.'); }
-          else { throw teamError; }
-        } else {
-          fetchedTeamData = teamResult as TeamData;
-          setTeamData(fetchedTeamData);
+        fetchedTeamData = await getRepository().getTeamForUser(user.id);
+        if (!fetchedTeamData) { console.warn('No team found for user.'); }
+        setTeamData(fetchedTeamData);
+        if (isDataUrl(fetchedTeamData?.logo_url)) {
+          // Runs in the background; the inline logo keeps showing until it has been moved
+          migrateDataUrlLogo(fetchedTeamData)
+            .then(migratedTeam => setTeamData(prev => prev?.id === migratedTeam.id ? { ...prev, logo_url: migratedTeam.logo_url } : prev))
+            .catch(error => console.error('Error migrating team logo:', (error as Error).message));
         }
       } catch (error: any) {
         console.error('Error fetching team data:', error.message);
@@ -308,13 +762,8 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
       if (fetchedTeamData) {
         try {
           // Fetch Players
-          const { data: playersResult, error: playersError } = await supabase
-            .from('players')
-            .select('*')
-            .eq('team_id', fetchedTeamData.id)
-            .order('first_name', { ascending: true });
-          if (playersError) throw playersError;
-          const fetchedPlayers: Player[] = (playersResult as PlayerData[]).map(p => ({
+          const playersResult = await getRepository().listPlayers(fetchedTeamData.id);
+          const fetchedPlayers: Player[] = playersResult.map(p => ({
             ...p, location: 'bench', position: undefined,
           }));
           setPlayers(fetchedPlayers);
@@ -325,51 +774,197 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
           setPlayersLoading(false);
         }
 
+        try {
+          // Replay game changes queued in a previous session before reading games back
+          const { remaining } = await flushOutbox();
+          setSyncStatus(prev => ({ ...prev, pendingCount: remaining }));
+        } catch (error) {
+          console.error('Error replaying queued game changes:', (error as Error).message);
+          getPendingMutationCount().then(count => setSyncStatus(prev => ({ ...prev, pendingCount: count }))).catch(() => {});
+        }
+
         try {
           // Fetch Games
-          const { data: gamesResult, error: gamesError } = await supabase
-            .from('games')
-            .select('*')
-            .eq('team_id', fetchedTeamData.id)
-            .order('game_date', { ascending: false }) // Fetch newest first
-            .order('game_time', { ascending: false, nulls: 'last' });
-          if (gamesError) throw gamesError;
-          const fetchedGames: Game[] = (gamesResult as GameData[]).map(mapGameDataToGame);
-          setGames(fetchedGames);
+          setGames(await fetchGamesForTeam(fetchedTeamData.id));
         } catch (error: any) {
           console.error('Error fetching games:', error.message);
           setGames([]);
         } finally {
           setGamesLoading(false);
         }
+
+        try {
+          // One-time import of lineups saved in localStorage before they were stored in Supabase
+          const legacyLineups = loadFromLocalStorage<SavedLineup[]>(LEGACY_SAVED_LINEUPS_KEY, []);
+          if (Array.isArray(legacyLineups) && legacyLineups.length > 0) {
+            // Never overwrites a lineup already synced from another device
+            await getRepository().importSavedLineups(
+              fetchedTeamData.id,
+              legacyLineups.filter(l => typeof l?.name === 'string' && l.name.trim()).map(l => ({ name: l.name.trim(), lineup_data: decodeLineupStructure(l.players) }))
+            );
+            localStorage.removeItem(LEGACY_SAVED_LINEUPS_KEY);
+          }
+        } catch (error) {
+          console.error('Error importing local saved lineups:', (error as Error).message);
+        }
+
+        try {
+          // Fetch Saved Lineups
+          const lineupsResult = await getRepository().listSavedLineups(fetchedTeamData.id);
+          setSavedLineupsState(lineupsResult.map(mapSavedLineupRow));
+        } catch (error) {
+          console.error('Error fetching saved lineups:', (error as Error).message);
+          setSavedLineupsState([]);
+        }
       } else {
-        // No team data, so no players or games to fetch
+        // No team data, so no players, games or saved lineups to fetch
         setPlayers([]); setPlayersLoading(false);
         setGames([]); setGamesLoading(false);
+        setSavedLineupsState([]);
       }
     };
 
     // Auth listener setup
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    const repository = getRepository();
+    repository.getSession().then(session => {
       const user = session?.user ?? null;
       setCurrentUser(user);
       fetchAllData(user);
     });
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const unsubscribe = repository.onAuthStateChange(session => {
       const user = session?.user ?? null;
       setCurrentUser(user);
       fetchAllData(user);
     });
-    return () => { subscription?.unsubscribe(); };
+    return () => { unsubscribe(); };
   }, []); // Run only once on mount
 
+  const teamId = teamData?.id;
+
+  // Replays the outbox; if the server rejected a queued write, reload games so local state matches it again
+  const syncOutbox = useCallback(async (): Promise<number> => {
+    setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+    try {
+      const { remaining, rejected } = await flushOutbox();
+      setSyncStatus(prev => ({ ...prev, pendingCount: remaining }));
+      if (rejected.length > 0) {
+        alert(`${rejected.length} game change(s) could not be saved: ${rejected[0].error.message}`);
+        if (teamId) setGames(await fetchGamesForTeam(teamId));
+      }
+      return remaining;
+    } catch (error) {
+      console.error('Error syncing game changes:', (error as Error).message);
+      return -1;
+    } finally {
+      setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+    }
+  }, [teamId]);
+
+  // Track connectivity and replay queued game changes as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => { setSyncStatus(prev => ({ ...prev, isOnline: true })); syncOutbox(); };
+    const handleOffline = () => { setSyncStatus(prev => ({ ...prev, isOnline: false })); };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncOutbox]);
+
+  // Live sync: merge game, event and lineup changes made on other devices into local state
+  useEffect(() => {
+    if (!teamId) return;
+    return getRepository().subscribeToGames(teamId, {
+      onGame: change => {
+        if (change.type === 'delete') {
+          const deletedId = change.old.id;
+          if (deletedId) setGames(prev => prev.filter(g => g.id !== deletedId));
+        } else {
+          setGames(prev => mergeRemoteGameRow(prev, change.row));
+        }
+      },
+      onEvent: change => {
+        if (change.type === 'delete') {
+          const deletedId = change.old.id;
+          if (deletedId) setGames(prev => removeRemoteEvent(prev, deletedId));
+        } else {
+          const row = decodeGameEventRow(change.row);
+          if (row) setGames(prev => mergeRemoteEventRow(prev, row));
+        }
+      },
+      onLineup: change => {
+        if (change.type === 'delete') {
+          const { game_id, player_id } = change.old;
+          if (game_id && player_id) setGames(prev => removeRemoteLineupRow(prev, game_id, player_id));
+        } else {
+          const row = decodeGameLineupRow(change.row);
+          if (row) setGames(prev => mergeRemoteLineupRow(prev, row));
+        }
+      },
+      // After a reconnect, push queued changes, then refetch to catch up on changes missed while disconnected
+      onReconnect: () => {
+        syncOutbox()
+          .then(remaining => { if (remaining === 0) return fetchGamesForTeam(teamId).then(setGames); })
+          .catch(error => console.error('Error refreshing games after reconnect:', (error as Error).message));
+      },
+    });
+  }, [teamId, syncOutbox]);
+
   // --- Team Update Functions (Unchanged) ---
-  const updateTeamNameInDb = useCallback(async (newName: string) => { if (!teamData || !currentUser) { console.error("Cannot update team name: No team data or user logged in."); return; } try { const { error } = await supabase.from('teams').update({ name: newName }).eq('id', teamData.id).eq('user_id', currentUser.id); if (error) throw error; setTeamData(prev => prev ? { ...prev, name: newName } : null); } catch (error: any) { console.error('Error updating team name:', error.message); } }, [teamData, currentUser]);
-  const updateTeamLogoInDb = useCallback(async (newLogoUrl: string | null) => { if (!teamData || !currentUser) { console.error("Cannot update team logo: No team data or user logged in."); return; } try { const { error } = await supabase.from('teams').update({ logo_url: newLogoUrl }).eq('id', teamData.id).eq('user_id', currentUser.id); if (error) throw error; setTeamData(prev => prev ? { ...prev, logo_url: newLogoUrl } : null); } catch (error: any) { console.error('Error updating team logo:', error.message); } }, [teamData, currentUser]);
+  const updateTeamNameInDb = useCallback(async (newName: string) => { if (!teamData || !currentUser) { console.error("Cannot update team name: No team data or user logged in."); return; } try { await getRepository().updateTeam(teamData.id, { name: newName }); setTeamData(prev => prev ? { ...prev, name: newName } : null); } catch (error: any) { console.error('Error updating team name:', error.message); } }, [teamData, currentUser]);
+  const updateTeamLogoInDb = useCallback(async (logo: Blob | null) => {
+    if (!teamData || !currentUser) { console.error("Cannot update team logo: No team data or user logged in."); return; }
+    try {
+      const logoUrl = logo ? await getRepository().uploadTeamLogo(teamData.id, await resizeLogo(logo)) : null;
+      await getRepository().updateTeam(teamData.id, { logo_url: logoUrl });
+      setTeamData(prev => prev ? { ...prev, logo_url: logoUrl } : null);
+      await getRepository().removeOldTeamLogos(teamData.id, logoUrl); // Also clears out the files of a removed logo
+    } catch (error) {
+      console.error('Error updating team logo:', (error as Error).message);
+      alert(`Error updating team logo: ${(error as Error).message}`);
+    }
+  }, [teamData, currentUser]);
+
+  const roleZones = useMemo(() => decodeRoleZones(teamData?.role_zones) ?? DEFAULT_ROLE_ZONES, [teamData?.role_zones]);
+  const updateTeamRoleZonesInDb = useCallback(async (zones: RoleZone[] | null) => {
+    if (!teamData || !currentUser) { console.error("Cannot update role zones: No team data or user logged in."); return; }
+    try {
+      await getRepository().updateTeam(teamData.id, { role_zones: zones });
+      setTeamData(prev => prev ? { ...prev, role_zones: zones } : null);
+    } catch (error) {
+      console.error('Error updating role zones:', (error as Error).message);
+      alert(`Error updating positions: ${(error as Error).message}`);
+    }
+  }, [teamData, currentUser]);
+
+  const sport = useMemo(() => getSport(teamData?.sport), [teamData?.sport]);
+  const updateTeamSportInDb = useCallback(async (sportId: SportId) => {
+    if (!teamData || !currentUser) { console.error("Cannot update sport: No team data or user logged in."); return; }
+    try {
+      await getRepository().updateTeam(teamData.id, { sport: sportId });
+      setTeamData(prev => prev ? { ...prev, sport: sportId } : null);
+    } catch (error) {
+      console.error('Error updating sport:', (error as Error).message);
+      alert(`Error updating sport: ${(error as Error).message}`);
+    }
+  }, [teamData, currentUser]);
+
+  const formations = useMemo(() => [...sport.builtInFormations, ...decodeFormations(teamData?.formations)], [sport, teamData?.formations]);
+  const updateTeamFormationsInDb = useCallback(async (customFormations: Formation[]) => {
+    if (!teamData || !currentUser) { console.error("Cannot update formations: No team data or user logged in."); return; }
+    try {
+      await getRepository().updateTeam(teamData.id, { formations: customFormations });
+      setTeamData(prev => prev ? { ...prev, formations: customFormations } : null);
+    } catch (error) {
+      console.error('Error updating formations:', (error as Error).message);
+      alert(`Error updating formations: ${(error as Error).message}`);
+    }
+  }, [teamData, currentUser]);
 
   // --- Player CRUD Functions (Unchanged) ---
-  const addPlayer = useCallback(async (firstName: string, lastName: string, number: string) => { if (!currentUser || !teamData) { console.error("Cannot add player: User not logged in or team data missing."); alert("Could not add player."); return; } setPlayersLoading(true); try { const { data, error } = await supabase.from('players').insert({ team_id: teamData.id, first_name: firstName, last_name: lastName, number: number || null, }).select().single(); if (error) throw error; const newPlayer: Player = { ...(data as PlayerData), location: 'bench', position: undefined, }; setPlayers(prev => [...prev, newPlayer].sort((a, b) => a.first_name.localeCompare(b.first_name))); } catch (error: any) { console.error('Error adding player:', error.message); alert(`Error adding player: ${error.message}`); } finally { setPlayersLoading(false); } }, [currentUser, teamData]);
-  const updatePlayer = useCallback(async (id: string, updates: Partial<Pick<PlayerData, 'first_name' | 'last_name' | 'number'>>) => { if (!teamData) { console.error("Cannot update player: Team data missing."); return; } const dbUpdates = { ...updates }; if (dbUpdates.number === '') { dbUpdates.number = null; } setPlayersLoading(true); try { const { error } = await supabase.from('players').update(dbUpdates).eq('id', id).eq('team_id', teamData.id); if (error) throw error; setPlayers(prev => prev.map(p => p.id === id ? { ...p, ...dbUpdates } : p).sort((a, b) => a.first_name.localeCompare(b.first_name))); } catch (error: any) { console.error('Error updating player:', error.message); alert(`Error updating player: ${error.message}`); } finally { setPlayersLoading(false); } }, [teamData]);
+  const addPlayer = useCallback(async (firstName: string, lastName: string, number: string) => { if (!currentUser || !teamData) { console.error("Cannot add player: User not logged in or team data missing."); alert("Could not add player."); return; } setPlayersLoading(true); try { const data = await getRepository().addPlayer({ team_id: teamData.id, first_name: firstName, last_name: lastName, number: number || null, }); const newPlayer: Player = { ...data, location: 'bench', position: undefined, }; setPlayers(prev => [...prev, newPlayer].sort((a, b) => a.first_name.localeCompare(b.first_name))); } catch (error: any) { console.error('Error adding player:', error.message); alert(`Error adding player: ${error.message}`); } finally { setPlayersLoading(false); } }, [currentUser, teamData]);
+  const updatePlayer = useCallback(async (id: string, updates: Partial<Pick<PlayerData, 'first_name' | 'last_name' | 'number'>>) => { if (!teamData) { console.error("Cannot update player: Team data missing."); return; } const dbUpdates = { ...updates }; if (dbUpdates.number === '') { dbUpdates.number = null; } setPlayersLoading(true); try { await getRepository().updatePlayer(teamData.id, id, dbUpdates); setPlayers(prev => prev.map(p => p.id === id ? { ...p, ...dbUpdates } : p).sort((a, b) => a.first_name.localeCompare(b.first_name))); } catch (error: any) { console.error('Error updating player:', error.message); alert(`Error updating player: ${error.message}`); } finally { setPlayersLoading(false); } }, [teamData]);
   const deletePlayer = useCallback(async (id: string) => {
     if (!teamData) {
       console.error("Cannot delete player: Team data missing.");
@@ -377,15 +972,7 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     }
     setPlayersLoading(true);
     try {
-      const { error } = await supabase
-        .from('players')
-        .delete()
-        .eq('id', id)
-        .eq('team_id', teamData.id);
-
-      if (error) {
-        throw error;
-      }
+      await getRepository().deletePlayer(teamData.id, id);
       setPlayers(prev => prev.filter(p => p.id !== id));
       // TODO: Cleanup games/lineups? Maybe not necessary with cascade delete?
     } catch (error: any) {
@@ -397,10 +984,11 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
   }, [teamData]);
 
   // --- Game CRUD Functions (Refactored for Supabase) ---
-  const addGame = useCallback(async (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string) => {
+  const addGame = useCallback(async (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string, periods: PeriodConfig = sport.defaultPeriods, fieldPlayerCount: number | null = sport.defaultFieldPlayerCount) => {
     if (!teamData) { console.error("Cannot add game: Team data missing."); alert("Could not add game."); return; }
     setGamesLoading(true);
-    const newGameData: Omit<GameData, 'id' | 'created_at' | 'updated_at'> = {
+    const newGameData: NewGameData = {
+      id: uuidv4(), // Generated client-side so the default lineup rows can reference it
       team_id: teamData.id,
       opponent: opponent.trim(),
       game_date: date,
@@ -414,14 +1002,19 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
       timer_start_time: null,
       timer_elapsed_seconds: 0,
       is_explicitly_finished: false,
-      lineup: createDefaultLineup(players), // Create initial lineup based on current players
-      events: [], // Ensure events is included here
+      ...periods,
+      period_end_seconds: [],
+      break_start_time: null,
+      formation_id: null,
+      field_player_count: fieldPlayerCount,
+      substitution_waves: [],
     };
     try {
-      const { data, error } = await supabase.from('games').insert(newGameData).select().single();
-      if (error) throw error;
-      const newGame = mapGameDataToGame(data as GameData);
-      setGames(prev => [newGame, ...prev].sort((a, b) => new Date(b.game_date).getTime() - new Date(a.game_date).getTime() || (b.game_time ?? '').localeCompare(a.game_time ?? '')));
+      const defaultLineup = createDefaultLineup(players); // Create initial lineup based on current players
+      const insertedGame = await getRepository().createGame(newGameData, defaultLineup.map(p => mapLineupStateToRow(newGameData.id, p)));
+      const newGame: Game = { ...mapGameDataToGame(insertedGame), lineup: defaultLineup };
+      // The Realtime echo of this insert may already have added the game, so replace rather than duplicate it
+      setGames(prev => sortGames([newGame, ...prev.filter(g => g.id !== newGame.id)]));
     } catch (error: any) {
       console.error('Error adding game:', error.message);
       alert(`Error adding game: ${error.message}`);
@@ -429,11 +1022,33 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     } finally {
       setGamesLoading(false);
     }
-  }, [teamData, players]); // Depend on players to create default lineup
+  }, [teamData, players, sport]); // Depend on players to create default lineup
+
+  // Applies a game change locally right away, then queues its Supabase writes in the outbox (replayed in order when online)
+  const applyGameChange = useCallback(async (gameId: string, change: (game: Game) => Game, mutations: OutboxMutationInput[]) => {
+    const previousGame = gamesRef.current.find(g => g.id === gameId);
+    gamesRef.current = sortGames(gamesRef.current.map(g => g.id === gameId ? change(g) : g));
+    setGames(prev => sortGames(prev.map(g => g.id === gameId ? change(g) : g)));
+    try {
+      await enqueueMutations(mutations);
+    } catch (error) {
+      // Nothing was queued, so put the game back rather than show a change that will never be saved
+      if (previousGame) {
+        gamesRef.current = sortGames(gamesRef.current.map(g => g.id === gameId ? previousGame : g));
+        setGames(prev => sortGames(prev.map(g => g.id === gameId ? previousGame : g)));
+      }
+      console.error('Error queueing game change:', (error as Error).message);
+      alert(`Error saving game change: ${(error as Error).message}. The change was undone.`);
+      throw error;
+    }
+    setSyncStatus(prev => ({ ...prev, pendingCount: prev.pendingCount + mutations.length }));
+    if (navigator.onLine) syncOutbox();
+  }, [syncOutbox]);
 
   const updateGame = useCallback(async (id: string, updates: Partial<Omit<GameData, 'id' | 'team_id' | 'created_at' | 'updated_at'>>) => {
     if (!teamData) { console.error("Cannot update game: Team data missing."); return; }
-    setGamesLoading(true);
+    const game = games.find(g => g.id === id);
+    if (!game) { console.error(`Cannot update game: Game ${id} not found.`); return; }
     // Ensure empty strings for optional fields become null
     const dbUpdates = { ...updates };
     if (dbUpdates.season === '') dbUpdates.season = null;
@@ -448,28 +1063,28 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
         delete (dbUpdates as any).timerStartTime;
     }
 
+    await applyGameChange(id, g => applyGameDataUpdates(g, dbUpdates), [gameUpdateMutation(game, dbUpdates, { type: 'set', values: dbUpdates })]);
+  }, [games, teamData, applyGameChange]);
 
+  const changeSubstitutionWaves = useCallback(async (gameId: string, waves: SubstitutionWave[], removedWaveIds: string[] = []) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData || (waves.length === 0 && removedWaveIds.length === 0)) return;
     try {
-      const { data, error } = await supabase.from('games').update(dbUpdates).eq('id', id).eq('team_id', teamData.id).select().single();
-      if (error) throw error;
-      const updatedGame = mapGameDataToGame(data as GameData);
-      setGames(prev => prev.map(g => g.id === id ? updatedGame : g)
-                         .sort((a, b) => new Date(b.game_date).getTime() - new Date(a.game_date).getTime() || (b.game_time ?? '').localeCompare(a.game_time ?? '')));
-    } catch (error: any) {
-      console.error('Error updating game:', error.message);
-      alert(`Error updating game: ${error.message}`);
-      throw error; // Re-throw error
-    } finally {
-      setGamesLoading(false);
+      await applyGameChange(
+        gameId,
+        g => applyGameDataUpdates(g, { substitution_waves: changeWaves(g.substitution_waves, waves, removedWaveIds) }),
+        [wavesChangeMutation(game, waves, removedWaveIds)]
+      );
+    } catch (error) {
+      console.error("Error changing substitution waves:", error);
     }
-  }, [teamData]);
+  }, [games, teamData, applyGameChange]);
 
   const deleteGame = useCallback(async (id: string) => {
     if (!teamData) { console.error("Cannot delete game: Team data missing."); return; }
     setGamesLoading(true);
     try {
-      const { error } = await supabase.from('games').delete().eq('id', id).eq('team_id', teamData.id);
-      if (error) throw error;
+      await getRepository().deleteGame(teamData.id, id);
       setGames(prev => prev.filter(g => g.id !== id));
     } catch (error: any) {
       console.error('Error deleting game:', error.message);
@@ -480,7 +1095,7 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     }
   }, [teamData]);
 
-  // --- Game Action Functions (Refactored for Supabase with try/catch) ---
+  // --- Game Action Functions (applied locally, written through the offline outbox) ---
 
   const startGameTimer = useCallback(async (gameId: string) => {
     const game = games.find(g => g.id === gameId);
@@ -489,22 +1104,28 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     const nowISO = new Date(now).toISOString();
     const isStartingFresh = (game.timer_elapsed_seconds ?? 0) === 0 && !game.timerStartTime;
 
-    const newLineup = game.lineup?.map(p => {
+    const newLineup = game.lineup.map(p => {
       const isFieldPlayer = p.location === 'field';
       const initialPosition = isStartingFresh && isFieldPlayer ? p.position : p.initialPosition;
       const isStarter = isStartingFresh ? (p.location === 'field' || p.location === 'bench') : (p.isStarter ?? false);
+      if (!isFieldPlayer && !isStartingFresh) return p; // Unchanged, no row write needed
       return { ...p, playtimerStartTime: isFieldPlayer ? now : p.playtimerStartTime, isStarter: isStarter, initialPosition: initialPosition };
-    }) ?? null;
+    });
+    const changedStates = bumpLineupRevisions(getChangedLineupStates(game.lineup, newLineup));
 
-    const updates: Partial<GameData> = { timer_status: 'running', timer_start_time: nowISO, is_explicitly_finished: false, lineup: newLineup };
+    const updates: Partial<GameData> = { timer_status: 'running', timer_start_time: nowISO, is_explicitly_finished: false, break_start_time: null };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), lineup: upsertLineupStates(g.lineup, changedStates) }),
+        [...lineupUpsertMutations(gameId, changedStates), gameUpdateMutation(game, updates, { type: 'startTimer', at: now })]
+      );
     } catch (error) {
       console.error("Error starting game timer:", error);
-      // Alert is handled in updateGame
+      // Alert is handled in applyGameChange
     }
-  }, [games, teamData, updateGame]);
+  }, [games, teamData, applyGameChange]);
 
   const stopGameTimer = useCallback(async (gameId: string) => {
     const game = games.find(g => g.id === gameId);
@@ -512,25 +1133,47 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     const now = Date.now();
     const elapsed = (now - game.timerStartTime) / 1000;
     const newElapsedSeconds = Math.round((game.timer_elapsed_seconds || 0) + elapsed);
+    const changedStates = bumpLineupRevisions(getChangedLineupStates(game.lineup, stopPlaytimers(game.lineup, now, roleZones)));
 
-    const newLineup = game.lineup?.map(p => {
-      if ((p.location === 'field' || p.location === 'inactive') && p.playtimerStartTime) {
-        const playerElapsed = (now - p.playtimerStartTime) / 1000;
-        const currentPlaytime = typeof p.playtimeSeconds === 'number' ? p.playtimeSeconds : 0;
-        const newPlaytime = Math.round(currentPlaytime + playerElapsed);
-        return { ...p, playtimeSeconds: newPlaytime, playtimerStartTime: null };
-      }
-      return p;
-    }) ?? null;
-
-    const updates: Partial<GameData> = { timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: newElapsedSeconds, lineup: newLineup };
+    const updates: Partial<GameData> = { timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: newElapsedSeconds };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), lineup: upsertLineupStates(g.lineup, changedStates) }),
+        [...lineupUpsertMutations(gameId, changedStates), gameUpdateMutation(game, updates, { type: 'stopTimer', at: now })]
+      );
     } catch (error) {
       console.error("Error stopping game timer:", error);
     }
-  }, [games, teamData, updateGame]);
+  }, [games, teamData, applyGameChange, roleZones]);
+
+  // Ends the current period (not the last one - that ends with the game) and starts the break
+  const endGamePeriod = useCallback(async (gameId: string) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || game.is_explicitly_finished || game.break_start_time || !teamData) return;
+    const period = game.period_end_seconds.length + 1;
+    if (period >= game.period_count) return;
+    const now = Date.now();
+    const isRunning = game.timer_status === 'running' && game.timerStartTime;
+    const endSeconds = isRunning ? Math.round((game.timer_elapsed_seconds || 0) + (now - game.timerStartTime!) / 1000) : game.timer_elapsed_seconds ?? 0;
+    const changedStates = isRunning ? bumpLineupRevisions(getChangedLineupStates(game.lineup, stopPlaytimers(game.lineup, now, roleZones))) : [];
+
+    const updates: Partial<GameData> = {
+      timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: endSeconds,
+      period_end_seconds: [...game.period_end_seconds, endSeconds], break_start_time: new Date(now).toISOString(),
+    };
+
+    try {
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), lineup: upsertLineupStates(g.lineup, changedStates) }),
+        [...lineupUpsertMutations(gameId, changedStates), gameUpdateMutation(game, updates, { type: 'endPeriod', at: now, period })]
+      );
+    } catch (error) {
+      console.error("Error ending game period:", error);
+    }
+  }, [games, teamData, applyGameChange, roleZones]);
 
   const markGameAsFinished = useCallback(async (gameId: string) => {
     const game = games.find(g => g.id === gameId);
@@ -542,70 +1185,72 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     if (game.timer_status === 'running' && game.timerStartTime) {
       const elapsed = (now - game.timerStartTime) / 1000;
       finalElapsedSeconds = Math.round((game.timer_elapsed_seconds || 0) + elapsed);
-      finalLineup = game.lineup?.map(p => {
-        if ((p.location === 'field' || p.location === 'inactive') && p.playtimerStartTime) {
-          const playerElapsed = (now - p.playtimerStartTime) / 1000;
-          const currentPlaytime = typeof p.playtimeSeconds === 'number' ? p.playtimeSeconds : 0;
-          const newPlaytime = Math.round(currentPlaytime + playerElapsed);
-          return { ...p, playtimeSeconds: newPlaytime, playtimerStartTime: null };
-        }
-        return p;
-      }) ?? null;
+      finalLineup = stopPlaytimers(game.lineup, now, roleZones);
     }
 
-    finalLineup = finalLineup?.map(p => ({ ...p, playtimerStartTime: null })) ?? null;
+    finalLineup = finalLineup.map(p => p.playtimerStartTime === null ? p : { ...p, playtimerStartTime: null });
+    const changedStates = bumpLineupRevisions(getChangedLineupStates(game.lineup, finalLineup));
 
-    const updates: Partial<GameData> = { timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: finalElapsedSeconds, is_explicitly_finished: true, lineup: finalLineup };
+    const updates: Partial<GameData> = { timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: finalElapsedSeconds, is_explicitly_finished: true, break_start_time: null };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), lineup: upsertLineupStates(g.lineup, changedStates) }),
+        [...lineupUpsertMutations(gameId, changedStates), gameUpdateMutation(game, updates, { type: 'stopTimer', at: now, finish: true })]
+      );
     } catch (error) {
       console.error("Error marking game as finished:", error);
     }
-  }, [games, teamData, updateGame]);
+  }, [games, teamData, applyGameChange, roleZones]);
 
   const resetGameLineup = useCallback(async (gameId: string): Promise<PlayerLineupState[] | null> => {
     const game = games.find(g => g.id === gameId);
     if (!game || !teamData) return null;
     const defaultLineup = createDefaultLineup(players);
-    const updates: Partial<GameData> = { lineup: defaultLineup, timer_elapsed_seconds: 0, timer_start_time: null, timer_status: 'stopped', is_explicitly_finished: false, home_score: 0, away_score: 0, events: [] };
+    const updates: Partial<GameData> = { timer_elapsed_seconds: 0, timer_start_time: null, timer_status: 'stopped', is_explicitly_finished: false, home_score: 0, away_score: 0, period_end_seconds: [], break_start_time: null };
+    // Drop rows for players no longer on the roster, then reset everyone else
+    const staleRowsMutation: OutboxMutationInput = {
+      table: 'game_lineups', action: 'delete', match: { game_id: gameId },
+      notInFilter: defaultLineup.length > 0 ? { column: 'player_id', values: defaultLineup.map(p => p.id) } : undefined,
+    };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), lineup: defaultLineup, events: [] }),
+        [staleRowsMutation, ...lineupUpsertMutations(gameId, defaultLineup), eventDeleteMutation(gameId), gameUpdateMutation(game, updates, { type: 'set', values: updates })]
+      );
       return defaultLineup;
     } catch (error) {
       console.error("Error resetting game lineup:", error);
       return game.lineup; // Return original lineup on error
     }
-  }, [games, players, teamData, updateGame]);
+  }, [games, players, teamData, applyGameChange]);
 
-  const movePlayerInGame = useCallback(async ( gameId: string, playerId: string, sourceLocation: PlayerLineupState['location'], targetLocation: PlayerLineupState['location'], newPosition?: { x: number; y: number } ) => {
+  const movePlayerInGame = useCallback(async ( gameId: string, playerId: string, sourceLocation: PlayerLineupState['location'], targetLocation: PlayerLineupState['location'], newPosition?: { x: number; y: number }, replacedPlayerId?: string ) => {
     const game = games.find(g => g.id === gameId);
-    if (!game || !game.lineup || !teamData) return;
+    if (!game || !teamData) return;
     const now = Date.now();
     const isGameActive = game.timer_status === 'running' || (game.timer_status === 'stopped' && (game.timer_elapsed_seconds ?? 0) > 0);
-    let newLineup = [...game.lineup];
-    const playerIndex = newLineup.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) return;
-
-    const playerState = { ...newLineup[playerIndex] };
-    let updatedPlaytime = playerState.playtimeSeconds;
-    let updatedStartTime = playerState.playtimerStartTime;
-
-    if ((sourceLocation === 'field' || sourceLocation === 'inactive') && playerState.playtimerStartTime) {
-      const elapsed = (now - playerState.playtimerStartTime) / 1000;
-      updatedPlaytime = Math.round(playerState.playtimeSeconds + elapsed);
-      updatedStartTime = null;
-    }
-
-    if (targetLocation === 'field' && game.timer_status === 'running' && updatedStartTime === null) {
-      updatedStartTime = now;
-    } else if (targetLocation !== 'field') {
-      updatedStartTime = null;
+    // Players added to the roster after the game was created have no row yet; start them from a default state
+    const existingState = game.lineup.find(p => p.id === playerId);
+    const rosterPlayer = players.find(p => p.id === playerId);
+    if (!existingState && !rosterPlayer) return;
+    const baseState = existingState ?? createDefaultLineup([rosterPlayer!])[0];
+
+    // The game format caps the field; a player coming on for someone in the same action doesn't add to it
+    if (targetLocation === 'field' && baseState.location !== 'field' && game.field_player_count !== null) {
+      const fieldPlayerCount = game.lineup.filter(p => p.location === 'field' && p.id !== replacedPlayerId).length;
+      if (fieldPlayerCount >= game.field_player_count) {
+        // Reached by substitution waves, planned swaps and formation changes too, which don't check the limit first
+        const message = `${getGameFormatLabel(game.field_player_count)} allows ${game.field_player_count} players on the field, so ${rosterPlayer?.first_name ?? 'the player'} was not moved onto it.`;
+        console.error(`Cannot move player to the field: ${message}`);
+        alert(message);
+        return;
+      }
     }
 
-    let updatedSubbedOnCount = playerState.subbedOnCount;
-    let updatedSubbedOffCount = playerState.subbedOffCount;
     let substitutionEvent: GameEvent | null = null;
     if (isGameActive) {
       let currentSeconds = game.timer_elapsed_seconds ?? 0;
@@ -614,47 +1259,126 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
       }
       const eventSeconds = Math.round(currentSeconds);
       const eventTeam = (game.location === 'home') ? 'home' : 'away';
-      if (sourceLocation === 'bench' && targetLocation === 'field') { updatedSubbedOnCount++; substitutionEvent = { id: uuidv4(), type: 'substitution', team: eventTeam, playerInId: playerId, playerOutId: undefined, timestamp: now, gameSeconds: eventSeconds }; }
-      else if (sourceLocation === 'field' && targetLocation === 'bench') { updatedSubbedOffCount++; substitutionEvent = { id: uuidv4(), type: 'substitution', team: eventTeam, playerInId: undefined, playerOutId: playerId, timestamp: now, gameSeconds: eventSeconds }; }
+      if (sourceLocation === 'bench' && targetLocation === 'field') { substitutionEvent = { id: uuidv4(), type: 'substitution', team: eventTeam, playerInId: playerId, playerOutId: undefined, timestamp: now, gameSeconds: eventSeconds }; }
+      else if (sourceLocation === 'field' && targetLocation === 'bench') { substitutionEvent = { id: uuidv4(), type: 'substitution', team: eventTeam, playerInId: undefined, playerOutId: playerId, timestamp: now, gameSeconds: eventSeconds }; }
     }
 
-    playerState.location = targetLocation;
-    playerState.position = targetLocation === 'field' ? newPosition : undefined;
-    playerState.playtimeSeconds = updatedPlaytime;
-    playerState.playtimerStartTime = updatedStartTime;
-    playerState.subbedOnCount = updatedSubbedOnCount;
-    playerState.subbedOffCount = updatedSubbedOffCount;
-    newLineup[playerIndex] = playerState;
-
-    const updatedEvents = substitutionEvent ? [...(game.events || []), substitutionEvent] : game.events;
-    const updates: Partial<GameData> = { lineup: newLineup, events: updatedEvents };
+    // The same intent is applied locally now and re-applied to the latest row if another device moved this player first
+    const intent: LineupIntent = {
+      type: 'move', playerId, location: targetLocation, position: newPosition ?? null, at: now,
+      gameRunning: game.timer_status === 'running',
+      subbedOn: substitutionEvent?.playerInId === playerId, subbedOff: substitutionEvent?.playerOutId === playerId, roleZones,
+    };
+    const movedValues = applyLineupIntent(mapLineupStateToRow(gameId, baseState), intent);
+    const playerState: PlayerLineupState = {
+      ...mapLineupRowToState({ ...mapLineupStateToRow(gameId, baseState), ...movedValues }),
+      revision: existingState ? (existingState.revision !== undefined ? existingState.revision + 1 : undefined) : 0,
+    };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({
+          ...g,
+          lineup: upsertLineupStates(g.lineup, [playerState]),
+          events: substitutionEvent ? sortEvents([...g.events, substitutionEvent]) : g.events,
+        }),
+        [lineupMoveMutation(gameId, intent, movedValues, existingState ? existingState.revision ?? null : null), ...(substitutionEvent ? [eventUpsertMutation(gameId, substitutionEvent)] : [])]
+      );
     } catch (error) {
       console.error("Error moving player in game:", error);
     }
-  }, [games, teamData, updateGame]);
+  }, [games, players, teamData, applyGameChange, roleZones]);
 
-  const addGameEvent = useCallback(async (gameId: string, team: 'home' | 'away', scorerPlayerId: string | null, assistPlayerId?: string | null) => {
+  const addGameEvent = useCallback(async (gameId: string, team: 'home' | 'away', scorerPlayerId: string | null, assistPlayerId?: string | null, goalType?: GoalType | null, ownGoalPlayerId?: string | null, points: number = 1) => {
     const game = games.find(g => g.id === gameId);
     if (!game || !teamData) return;
-    let currentSeconds = game.timer_elapsed_seconds ?? 0;
-    if (game.timer_status === 'running' && game.timerStartTime) {
-      currentSeconds += (Date.now() - game.timerStartTime) / 1000;
-    }
-    const newEvent: GameEvent = { id: uuidv4(), type: 'goal', team: team, scorerPlayerId: scorerPlayerId, assistPlayerId: assistPlayerId, timestamp: Date.now(), gameSeconds: Math.round(currentSeconds) };
-    const updatedEvents = [...(game.events || []), newEvent];
-    const newHomeScore = team === 'home' ? (game.home_score ?? 0) + 1 : (game.home_score ?? 0);
-    const newAwayScore = team === 'away' ? (game.away_score ?? 0) + 1 : (game.away_score ?? 0);
-    const updates: Partial<GameData> = { events: updatedEvents, home_score: newHomeScore, away_score: newAwayScore };
+    // Own goals credit no scorer or assist; ownGoalPlayerId is our player who put it in their own net
+    const isOwnGoal = goalType === 'own_goal';
+    const newEvent: GameEvent = {
+      id: uuidv4(), type: 'goal', team: team,
+      scorerPlayerId: isOwnGoal ? null : scorerPlayerId, assistPlayerId: isOwnGoal ? null : assistPlayerId,
+      goalType: goalType ?? null, playerId: isOwnGoal ? ownGoalPlayerId ?? null : null, points: points === 1 ? null : points,
+      timestamp: Date.now(), gameSeconds: getGameClockSeconds(game, Date.now()),
+    };
+    const newHomeScore = team === 'home' ? (game.home_score ?? 0) + points : (game.home_score ?? 0);
+    const newAwayScore = team === 'away' ? (game.away_score ?? 0) + points : (game.away_score ?? 0);
+    const updates: Partial<GameData> = { home_score: newHomeScore, away_score: newAwayScore };
 
     try {
-      await updateGame(gameId, updates);
+      await applyGameChange(
+        gameId,
+        g => ({ ...applyGameDataUpdates(g, updates), events: sortEvents([...g.events, newEvent]) }),
+        [eventUpsertMutation(gameId, newEvent), gameUpdateMutation(game, updates, { type: 'adjustScore', team, delta: points })]
+      );
     } catch (error) {
       console.error("Error adding game event:", error);
     }
-  }, [games, teamData, updateGame]);
+  }, [games, teamData, applyGameChange]);
+
+  const addCardEvent = useCallback(async (gameId: string, team: 'home' | 'away', cardType: CardType, playerId: string | null) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData) return;
+    const now = Date.now();
+    const newEvent: GameEvent = { id: uuidv4(), type: cardType, team, playerId, timestamp: now, gameSeconds: getGameClockSeconds(game, now) };
+    const events = sortEvents([...game.events, newEvent]);
+
+    // A sent-off player leaves play (to the inactive list) and is not replaced; their playtime stops like any move off the field
+    const playerState = playerId ? game.lineup.find(p => p.id === playerId) : undefined;
+    let sentOffState: PlayerLineupState | null = null;
+    let moveMutations: OutboxMutationInput[] = [];
+    if (playerState && playerState.location !== 'inactive' && isSentOff(events, playerState.id)) {
+      const moved = moveLineupState(game, playerState, 'inactive', now, roleZones);
+      sentOffState = moved.state;
+      moveMutations = [moved.mutation];
+    }
+
+    try {
+      await applyGameChange(
+        gameId,
+        g => ({ ...g, events: sortEvents([...g.events, newEvent]), lineup: sentOffState ? upsertLineupStates(g.lineup, [sentOffState]) : g.lineup }),
+        [eventUpsertMutation(gameId, newEvent), ...moveMutations]
+      );
+    } catch (error) {
+      console.error("Error adding card event:", error);
+    }
+  }, [games, teamData, applyGameChange, roleZones]);
+
+  const addStatEvent = useCallback(async (gameId: string, team: 'home' | 'away', type: StatEventType, playerId: string | null) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData) return;
+    const now = Date.now();
+    const newEvent: GameEvent = { id: uuidv4(), type, team, playerId, timestamp: now, gameSeconds: getGameClockSeconds(game, now) };
+    try {
+      await applyGameChange(gameId, g => ({ ...g, events: sortEvents([...g.events, newEvent]) }), [eventUpsertMutation(gameId, newEvent)]);
+    } catch (error) {
+      console.error("Error adding stat event:", error);
+    }
+  }, [games, teamData, applyGameChange]);
+
+  const addShootoutKick = useCallback(async (gameId: string, team: 'home' | 'away', playerId: string | null, scored: boolean) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData) return;
+    // Kicks are placed at full time and ordered by timestamp
+    const newEvent: GameEvent = { id: uuidv4(), type: scored ? 'shootout_scored' : 'shootout_missed', team, playerId, timestamp: Date.now(), gameSeconds: game.timer_elapsed_seconds ?? 0 };
+    try {
+      await applyGameChange(gameId, g => ({ ...g, events: sortEvents([...g.events, newEvent]) }), [eventUpsertMutation(gameId, newEvent)]);
+    } catch (error) {
+      console.error("Error adding shootout kick:", error);
+    }
+  }, [games, teamData, applyGameChange]);
+
+  const addInactiveEvent = useCallback(async (gameId: string, playerId: string, reason: InactiveReason, note: string | null) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData) return;
+    const now = Date.now();
+    const newEvent: GameEvent = { id: uuidv4(), type: 'player_inactive', team: game.location, playerId, inactiveReason: reason, note: note?.trim() || null, timestamp: now, gameSeconds: getGameClockSeconds(game, now) };
+    try {
+      await applyGameChange(gameId, g => ({ ...g, events: sortEvents([...g.events, newEvent]) }), [eventUpsertMutation(gameId, newEvent)]);
+    } catch (error) {
+      console.error("Error adding inactive event:", error);
+    }
+  }, [games, teamData, applyGameChange]);
 
   const removeLastGameEvent = useCallback(async (gameId: string, team: 'home' | 'away') => {
     const game = games.find(g => g.id === gameId);
@@ -664,19 +1388,184 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
     for (let i = events.length - 1; i >= 0; i--) { if (events[i].type === 'goal' && events[i].team === team) { lastGoalEventIndex = i; break; } }
 
     if (lastGoalEventIndex !== -1) {
-      events.splice(lastGoalEventIndex, 1);
-      const newHomeScore = team === 'home' ? Math.max(0, (game.home_score ?? 0) - 1) : (game.home_score ?? 0);
-      const newAwayScore = team === 'away' ? Math.max(0, (game.away_score ?? 0) - 1) : (game.away_score ?? 0);
-      const updates: Partial<GameData> = { events: events, home_score: newHomeScore, away_score: newAwayScore };
+      const [removedEvent] = events.splice(lastGoalEventIndex, 1);
+      const points = getGoalPoints(removedEvent);
+      const newHomeScore = team === 'home' ? Math.max(0, (game.home_score ?? 0) - points) : (game.home_score ?? 0);
+      const newAwayScore = team === 'away' ? Math.max(0, (game.away_score ?? 0) - points) : (game.away_score ?? 0);
+      const updates: Partial<GameData> = { home_score: newHomeScore, away_score: newAwayScore };
       try {
-        await updateGame(gameId, updates);
+        await applyGameChange(
+          gameId,
+          g => ({ ...applyGameDataUpdates(g, updates), events: g.events.filter(e => e.id !== removedEvent.id) }),
+          [eventDeleteMutation(gameId, [removedEvent.id]), gameUpdateMutation(game, updates, { type: 'adjustScore', team, delta: -points })]
+        );
       } catch (error) {
         console.error("Error removing last game event:", error);
       }
     } else {
       console.warn(`No goal event found for team ${team} in game ${gameId} to remove.`);
     }
-  }, [games, teamData, updateGame]);
+  }, [games, teamData, applyGameChange]);
+
+  const updateGameEvents = useCallback(async (gameId: string, updates: { id: string; changes: GameEventChanges }[]) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData) return;
+    const changesById = new Map(updates.map(u => [u.id, u.changes]));
+    const updatedEvents = game.events.filter(e => changesById.has(e.id)).map(e => ({ ...e, ...changesById.get(e.id) }));
+    if (updatedEvents.length === 0) return;
+    const newEvents = sortEvents(game.events.map(e => updatedEvents.find(u => u.id === e.id) ?? e));
+    const scoreChanges = scoreAdjustments(game, newEvents);
+    // The card's old and new player may both change whether they are sent off
+    const cardPlayerIds = game.events.filter(e => isCardEvent(e) && changesById.has(e.id)).flatMap(e => [e.playerId, changesById.get(e.id)?.playerId]);
+    const sentOff = reconcileSentOffPlayers(game, newEvents, cardPlayerIds, Date.now(), roleZones);
+
+    try {
+      await applyGameChange(
+        gameId,
+        g => ({
+          ...scoreChanges.reduce((next, change) => applyGameDataUpdates(next, change.updates), g),
+          events: sortEvents([...g.events.filter(e => !sentOff.removedEventIds.includes(e.id)).map(e => updatedEvents.find(u => u.id === e.id) ?? e), ...sentOff.addedEvents]),
+          lineup: upsertLineupStates(g.lineup, sentOff.states),
+        }),
+        [
+          ...updatedEvents.map(e => eventUpsertMutation(gameId, e)),
+          ...sentOff.addedEvents.map(e => eventUpsertMutation(gameId, e)),
+          ...(sentOff.removedEventIds.length > 0 ? [eventDeleteMutation(gameId, sentOff.removedEventIds)] : []),
+          ...sentOff.mutations,
+          ...scoreChanges.map(change => change.mutation),
+        ]
+      );
+    } catch (error) {
+      console.error("Error updating game events:", error);
+    }
+  }, [games, teamData, applyGameChange, roleZones]);
+
+  const deleteGameEvents = useCallback(async (gameId: string, eventIds: string[]) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game || !teamData || eventIds.length === 0) return;
+    const newEvents = game.events.filter(e => !eventIds.includes(e.id));
+    const scoreChanges = scoreAdjustments(game, newEvents);
+    // Deleting a red card or a second yellow brings the player back
+    const cardPlayerIds = game.events.filter(e => isCardEvent(e) && eventIds.includes(e.id)).map(e => e.playerId);
+    const sentOff = reconcileSentOffPlayers(game, newEvents, cardPlayerIds, Date.now(), roleZones);
+    const removedEventIds = [...eventIds, ...sentOff.removedEventIds];
+
+    try {
+      await applyGameChange(
+        gameId,
+        g => ({
+          ...scoreChanges.reduce((next, change) => applyGameDataUpdates(next, change.updates), g),
+          events: sortEvents([...g.events.filter(e => !removedEventIds.includes(e.id)), ...sentOff.addedEvents]),
+          lineup: upsertLineupStates(g.lineup, sentOff.states),
+        }),
+        [
+          eventDeleteMutation(gameId, removedEventIds),
+          ...sentOff.addedEvents.map(e => eventUpsertMutation(gameId, e)),
+          ...sentOff.mutations,
+          ...scoreChanges.map(change => change.mutation),
+        ]
+      );
+    } catch (error) {
+      console.error("Error deleting game events:", error);
+    }
+  }, [games, teamData, applyGameChange, roleZones]);
+
+  // --- Undo/Redo for Live Game Actions ---
+
+  // Runs one user action (which may call several game actions, e.g. a swap) and records the state before it
+  const runGameAction = useCallback(async (gameId: string, label: string, action: () => Promise<unknown>) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game) return;
+    const snapshot = takeGameSnapshot(game);
+    await action();
+    const gameAfter = gamesRef.current.find(g => g.id === gameId);
+    if (gameAfter && isSameGameSnapshot(snapshot, takeGameSnapshot(gameAfter))) return; // e.g. a move refused by the player limit
+    setActionHistory(prev => ({ ...prev, [gameId]: { undo: pushGameAction(prev[gameId]?.undo ?? [], { label, snapshot }), redo: [] } }));
+  }, [games]);
+
+  // Writes only the differences between the current game and the snapshot, so lineup, events and score stay consistent
+  const restoreGameSnapshot = useCallback(async (game: Game, snapshot: GameSnapshot) => {
+    const updates: Partial<GameData> = {
+      home_score: snapshot.home_score,
+      away_score: snapshot.away_score,
+      timer_status: snapshot.timer_status,
+      timer_start_time: snapshot.timerStartTime ? new Date(snapshot.timerStartTime).toISOString() : null,
+      timer_elapsed_seconds: snapshot.timer_elapsed_seconds,
+      is_explicitly_finished: snapshot.is_explicitly_finished,
+      period_end_seconds: snapshot.period_end_seconds,
+      break_start_time: snapshot.break_start_time,
+      formation_id: snapshot.formation_id,
+    };
+
+    const currentStates = new Map(game.lineup.map(p => [p.id, p]));
+    const snapshotPlayerIds = new Set(snapshot.lineup.map(p => p.id));
+    const changedStates = bumpLineupRevisions(snapshot.lineup
+      .filter(p => { const current = currentStates.get(p.id); return !current || !isSameLineupState(current, p); })
+      .map(p => ({ ...p, revision: currentStates.get(p.id)?.revision })));
+    const removedPlayerIds = game.lineup.filter(p => !snapshotPlayerIds.has(p.id)).map(p => p.id);
+
+    const currentEvents = new Map(game.events.map(e => [e.id, e]));
+    const snapshotEventIds = new Set(snapshot.events.map(e => e.id));
+    const restoredEvents = snapshot.events.filter(e => { const current = currentEvents.get(e.id); return !current || !isSameGameEvent(current, e); });
+    const removedEventIds = game.events.filter(e => !snapshotEventIds.has(e.id)).map(e => e.id);
+
+    // Waves are added and removed outside the undo history, so only whether a wave was handled is restored
+    const snapshotWaves = new Map(snapshot.substitution_waves.map(w => [w.id, w]));
+    const restoredWaves = game.substitution_waves
+      .filter(w => snapshotWaves.has(w.id) && snapshotWaves.get(w.id)!.isHandled !== w.isHandled)
+      .map(w => ({ ...w, isHandled: snapshotWaves.get(w.id)!.isHandled }));
+
+    const mutations: OutboxMutationInput[] = [
+      ...(removedPlayerIds.length > 0 ? [{ table: 'game_lineups', action: 'delete', match: { game_id: game.id }, inFilter: { column: 'player_id', values: removedPlayerIds } } as OutboxMutationInput] : []),
+      ...lineupUpsertMutations(game.id, changedStates),
+      ...(removedEventIds.length > 0 ? [eventDeleteMutation(game.id, removedEventIds)] : []),
+      ...restoredEvents.map(e => eventUpsertMutation(game.id, e)),
+      gameUpdateMutation(game, updates, { type: 'set', values: updates }),
+      ...(restoredWaves.length > 0 ? [wavesChangeMutation(applyGameDataUpdates(game, updates), restoredWaves, [])] : []),
+    ];
+
+    await applyGameChange(
+      game.id,
+      g => {
+        const restored = applyGameDataUpdates(g, updates);
+        return {
+          ...(restoredWaves.length > 0 ? applyGameDataUpdates(restored, { substitution_waves: changeWaves(restored.substitution_waves, restoredWaves) }) : restored),
+          lineup: upsertLineupStates(g.lineup.filter(p => snapshotPlayerIds.has(p.id)), changedStates),
+          events: sortEvents(snapshot.events),
+        };
+      },
+      mutations
+    );
+  }, [applyGameChange]);
+
+  // Undo and redo are symmetric: restore the entry's snapshot and file the current state under the other stack
+  const stepGameAction = useCallback(async (gameId: string, direction: 'undo' | 'redo') => {
+    const game = games.find(g => g.id === gameId);
+    const stack = actionHistory[gameId]?.[direction] ?? [];
+    const entry = stack[stack.length - 1];
+    if (!game || !entry) return;
+    try {
+      await restoreGameSnapshot(game, entry.snapshot);
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      return; // Alert is handled in applyGameChange; both stacks stay as they were
+    }
+    const opposite = direction === 'undo' ? 'redo' : 'undo';
+    setActionHistory(prev => {
+      const history = prev[gameId] ?? { undo: [], redo: [] };
+      return {
+        ...prev,
+        [gameId]: {
+          ...history,
+          [direction]: history[direction].filter(e => e !== entry),
+          [opposite]: pushGameAction(history[opposite], { label: entry.label, snapshot: takeGameSnapshot(game) }),
+        },
+      };
+    });
+  }, [games, actionHistory, restoreGameSnapshot]);
+
+  const undoGameAction = useCallback((gameId: string) => stepGameAction(gameId, 'undo'), [stepGameAction]);
+  const redoGameAction = useCallback((gameId: string) => stepGameAction(gameId, 'redo'), [stepGameAction]);
 
 
   // --- Local Player State Management (for lineup planning page - Unchanged) ---
@@ -684,8 +1573,48 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
   const swapPlayers = useCallback((player1Id: string, player2Id: string) => { setPlayers(prev => { const p1Index = prev.findIndex(p => p.id === player1Id); const p2Index = prev.findIndex(p => p.id === player2Id); if (p1Index === -1 || p2Index === -1) return prev; const p1 = prev[p1Index]; const p2 = prev[p2Index]; const newState = [...prev]; newState[p1Index] = { ...p1, location: p2.location, position: p2.position }; newState[p2Index] = { ...p2, location: p1.location, position: p1.position }; return newState; }); }, []);
   const resetLineup = useCallback(() => { setPlayers(prev => prev.map(p => ({ ...p, location: 'bench', position: undefined }))); }, []);
   const loadLineup = useCallback((name: string): boolean => { const lineupToLoad = savedLineups.find(l => l.name === name); if (!lineupToLoad) { console.error(`Lineup "${name}" not found.`); return false; } setPlayers(currentPlayers => { const savedPlayerStates = new Map(lineupToLoad.players.map(p => [p.id, { location: p.location, position: p.position }])); return currentPlayers.map(player => { const savedState = savedPlayerStates.get(player.id); return savedState ? { ...player, location: savedState.location, position: savedState.position } : { ...player, location: 'bench', position: undefined }; }); }); return true; }, [savedLineups]);
-  const saveLineup = (name: string) => { if (!name.trim()) { alert("Please enter a name."); return; } const lineupToSave: SavedLineup = { name: name.trim(), players: players.map(({ id, location, position }) => ({ id, location, position })), }; setSavedLineupsState((prev) => { const filtered = prev.filter(l => l.name !== lineupToSave.name); return [...filtered, lineupToSave]; }); };
-  const deleteLineup = (name: string) => { setSavedLineupsState((prev) => prev.filter(l => l.name !== name)); };
+
+  // --- Saved Lineup Functions (saved_lineups table) ---
+  const saveLineup = useCallback(async (name: string) => {
+    if (!name.trim()) { alert("Please enter a name."); return; }
+    if (!teamData) { console.error("Cannot save lineup: Team data missing."); return; }
+    const lineupData: PlayerLineupStructure[] = players.map(({ id, location, position }) => ({ id, location, position }));
+    try {
+      const savedLineup = mapSavedLineupRow(await getRepository().saveLineup(teamData.id, name.trim(), lineupData));
+      setSavedLineupsState(prev => sortSavedLineups([...prev.filter(l => l.name !== savedLineup.name), savedLineup]));
+    } catch (error) {
+      console.error('Error saving lineup:', (error as Error).message);
+      alert(`Error saving lineup: ${(error as Error).message}`);
+    }
+  }, [teamData, players]);
+
+  const renameLineup = useCallback(async (oldName: string, newName: string): Promise<boolean> => {
+    const trimmedName = newName.trim();
+    if (!teamData || !trimmedName) return false;
+    if (trimmedName === oldName) return true;
+    if (savedLineups.some(l => l.name === trimmedName)) return false;
+    try {
+      await getRepository().renameLineup(teamData.id, oldName, trimmedName);
+      setSavedLineupsState(prev => sortSavedLineups(prev.map(l => l.name === oldName ? { ...l, name: trimmedName } : l)));
+      return true;
+    } catch (error) {
+      if (error instanceof RepositoryError && error.code === '23505') return false; // Unique (team_id, name) violation - name taken on another device
+      console.error('Error renaming lineup:', (error as Error).message);
+      alert(`Error renaming lineup: ${(error as Error).message}`);
+      return false;
+    }
+  }, [teamData, savedLineups]);
+
+  const deleteLineup = useCallback(async (name: string) => {
+    if (!teamData) { console.error("Cannot delete lineup: Team data missing."); return; }
+    try {
+      await getRepository().deleteLineup(teamData.id, name);
+      setSavedLineupsState(prev => prev.filter(l => l.name !== name));
+    } catch (error) {
+      console.error('Error deleting lineup:', (error as Error).message);
+      alert(`Error deleting lineup: ${(error as Error).message}`);
+    }
+  }, [teamData]);
 
   // --- Game History Getters (Unchanged) ---
   const getMostRecentSeason = (): string | undefined => gameHistory.seasons[0];
@@ -693,15 +1622,17 @@ export const TeamProvider: React.FC<TeamProviderProps> = ({ children, setCurrent
 
   // --- Context Value ---
   const contextValue: TeamContextProps = {
-    teamData, teamLoading, updateTeamNameInDb, updateTeamLogoInDb,
+    teamData, teamLoading, updateTeamNameInDb, updateTeamLogoInDb, roleZones, updateTeamRoleZonesInDb, formations, updateTeamFormationsInDb, sport, updateTeamSportInDb,
     players, playersLoading, addPlayer, updatePlayer, deletePlayer,
-    games, gamesLoading, addGame, updateGame, deleteGame, // Provide game state/functions
-    startGameTimer, stopGameTimer, markGameAsFinished,
-    resetGameLineup, movePlayerInGame, addGameEvent, removeLastGameEvent,
+    games, gamesLoading, addGame, updateGame, deleteGame, changeSubstitutionWaves, // Provide game state/functions
+    startGameTimer, stopGameTimer, endGamePeriod, markGameAsFinished,
+    resetGameLineup, movePlayerInGame, addGameEvent, addCardEvent, addStatEvent, addShootoutKick, addInactiveEvent, removeLastGameEvent, updateGameEvents, deleteGameEvents,
+    actionHistory, runGameAction, undoGameAction, redoGameAction,
     movePlayer, swapPlayers, // Local state updates
-    savedLineups, saveLineup, loadLineup, deleteLineup, resetLineup, // Uses local player state
+    savedLineups, saveLineup, loadLineup, renameLineup, deleteLineup, resetLineup, // Saved lineups sync via Supabase
     setCurrentPage, selectGame,
     gameHistory, getMostRecentSeason, getMostRecentCompetition,
+    syncStatus,
   };
 
   return <TeamContext.Provider value={contextValue}>{children}</TeamContext.Provider>;
@@ -0,0 +1,44 @@
+import { DataRepository } from './repository';
+import { supabaseRepository } from './supabaseRepository';
+import { createLocalRepository } from './localRepository';
+
+// Which backend the app talks to. 'local' is the "try without an account" mode and survives reloads.
+const BACKEND_STORAGE_KEY = 'dataBackend';
+
+export const localRepository = createLocalRepository({ persist: true });
+
+const readStoredBackend = (): DataRepository['kind'] => {
+  try { return localStorage.getItem(BACKEND_STORAGE_KEY) === 'local' ? 'local' : 'supabase'; }
+  catch { return 'supabase'; }
+};
+
+let activeRepository: DataRepository = readStoredBackend() === 'local' ? localRepository : supabaseRepository;
+const repositoryListeners = new Set<() => void>();
+
+export const getRepository = (): DataRepository => activeRepository;
+
+// Lets long-lived subscribers (e.g. the auth listener in App) re-subscribe to the new backend
+export const onRepositoryChange = (listener: () => void): (() => void) => {
+  repositoryListeners.add(listener);
+  return () => { repositoryListeners.delete(listener); };
+};
+
+const setActiveRepository = (repository: DataRepository) => {
+  if (repository === activeRepository) return;
+  activeRepository = repository;
+  try { localStorage.setItem(BACKEND_STORAGE_KEY, repository.kind); }
+  catch (error) { console.warn('Could not remember the selected data backend.', error); }
+  repositoryListeners.forEach(listener => listener());
+};
+
+export const startGuestMode = async () => {
+  setActiveRepository(localRepository);
+  await localRepository.startGuestSession();
+};
+
+// Signs out of the active backend; leaving guest mode switches back to Supabase accounts
+export const signOut = async () => {
+  const repository = activeRepository;
+  await repository.signOut();
+  if (repository.kind === 'local') setActiveRepository(supabaseRepository);
+};
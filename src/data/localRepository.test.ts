@@ -0,0 +1,210 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { createLocalRepository } from './localRepository';
+import { NewGameData } from './repository';
+import { GameLineupRow } from '../context/TeamContext';
+import { createWave } from '../lib/substitutionWaves';
+
+const newGame = (teamId: string, overrides: Partial<NewGameData> = {}): NewGameData => ({
+  id: crypto.randomUUID(),
+  team_id: teamId,
+  opponent: 'Rovers',
+  game_date: '2026-09-05',
+  game_time: null,
+  location: 'home',
+  season: null,
+  competition: null,
+  home_score: 0,
+  away_score: 0,
+  timer_status: 'stopped',
+  timer_start_time: null,
+  timer_elapsed_seconds: 0,
+  is_explicitly_finished: false,
+  period_count: 2,
+  period_minutes: 30,
+  break_minutes: 10,
+  period_end_seconds: [],
+  break_start_time: null,
+  formation_id: null,
+  field_player_count: null,
+  substitution_waves: [],
+  ...overrides,
+});
+
+const newLineupRow = (gameId: string, playerId: string): GameLineupRow => ({
+  game_id: gameId,
+  player_id: playerId,
+  location: 'bench',
+  position: null,
+  initial_position: null,
+  playtime_seconds: 0,
+  role_playtime_seconds: {},
+  playtimer_start_time: null,
+  is_starter: false,
+  subbed_on_count: 0,
+  subbed_off_count: 0,
+});
+
+describe('local repository', () => {
+  describe('teams', () => {
+    it('gives guest teams the same columns as teams created for an account', async () => {
+      const repository = createLocalRepository({ persist: false });
+      await repository.startGuestSession();
+      const session = await repository.getSession();
+      const guestTeam = await repository.getTeamForUser(session!.user.id);
+      const accountTeam = await repository.createTeam('account-user', 'Lions');
+
+      expect(guestTeam).toMatchObject({ name: 'My Team', logo_url: null, role_zones: null, formations: null, sport: 'soccer' });
+      expect(Object.keys(guestTeam!).sort()).toEqual(Object.keys(accountTeam).sort());
+    });
+
+    it('creates, reads and updates a team', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      await repository.updateTeam(team.id, { name: 'Tigers', sport: 'basketball' });
+
+      expect(await repository.getTeamForUser('user-1')).toMatchObject({ id: team.id, name: 'Tigers', sport: 'basketball' });
+      expect(await repository.getTeamForUser('user-2')).toBeNull();
+    });
+
+    it('allows one team per user', async () => {
+      const repository = createLocalRepository({ persist: false });
+      await repository.createTeam('user-1', 'Lions');
+
+      await expect(repository.createTeam('user-1', 'Tigers')).rejects.toMatchObject({ code: '23505' });
+    });
+
+    it('keeps data across reloads when persisted', async () => {
+      const team = await createLocalRepository({ persist: true }).createTeam('persisted-user', 'Lions');
+      const reloaded = createLocalRepository({ persist: true });
+
+      expect(await reloaded.getTeamForUser('persisted-user')).toMatchObject({ id: team.id, name: 'Lions' });
+    });
+  });
+
+  describe('players', () => {
+    it('adds, lists, updates and deletes players', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const zoe = await repository.addPlayer({ team_id: team.id, first_name: 'Zoe', last_name: 'Smith', number: '9' });
+      const ada = await repository.addPlayer({ team_id: team.id, first_name: 'Ada', last_name: 'Jones', number: null });
+      await repository.addPlayer({ team_id: 'other-team', first_name: 'Max', last_name: 'Other', number: null });
+
+      expect((await repository.listPlayers(team.id)).map(p => p.first_name)).toEqual(['Ada', 'Zoe']);
+
+      await repository.updatePlayer(team.id, zoe.id, { number: '10' });
+      expect((await repository.listPlayers(team.id)).find(p => p.id === zoe.id)?.number).toBe('10');
+
+      await repository.deletePlayer(team.id, ada.id);
+      expect((await repository.listPlayers(team.id)).map(p => p.id)).toEqual([zoe.id]);
+    });
+
+    it('removes a deleted player from lineups and unlinks them from events', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const player = await repository.addPlayer({ team_id: team.id, first_name: 'Zoe', last_name: 'Smith', number: null });
+      const game = newGame(team.id);
+      await repository.createGame(game, [newLineupRow(game.id, player.id)]);
+      await repository.applyMutation({
+        backend: 'local', table: 'game_events', action: 'upsert', queuedAt: Date.now(),
+        values: { id: 'goal-1', game_id: game.id, type: 'goal', team: 'home', scorer_player_id: player.id, game_seconds: 60 },
+      });
+
+      await repository.deletePlayer(team.id, player.id);
+      const [savedGame] = await repository.listGames(team.id);
+
+      expect(savedGame.game_lineups).toEqual([]);
+      expect(savedGame.game_events).toMatchObject([{ id: 'goal-1', scorer_player_id: null }]);
+    });
+  });
+
+  describe('games', () => {
+    it('creates games with their lineup and lists them newest first', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const player = await repository.addPlayer({ team_id: team.id, first_name: 'Zoe', last_name: 'Smith', number: null });
+      const older = await repository.createGame(newGame(team.id, { game_date: '2026-09-01' }), []);
+      const newer = newGame(team.id, { game_date: '2026-09-08' });
+      await repository.createGame(newer, [newLineupRow(newer.id, player.id)]);
+
+      const games = await repository.listGames(team.id);
+
+      expect(games.map(g => g.id)).toEqual([newer.id, older.id]);
+      expect(games[0]).toMatchObject({ revision: 0, game_events: [] });
+      expect(games[0].game_lineups).toMatchObject([{ player_id: player.id, location: 'bench' }]);
+    });
+
+    it('updates games and bumps their revision', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const game = await repository.createGame(newGame(team.id), []);
+
+      const error = await repository.applyMutation({
+        backend: 'local', table: 'games', action: 'update', match: { id: game.id }, values: { home_score: 2 }, queuedAt: Date.now(),
+      });
+      const [savedGame] = await repository.listGames(team.id);
+
+      expect(error).toBeNull();
+      expect(savedGame).toMatchObject({ home_score: 2, revision: 1 });
+    });
+
+    it('re-applies the intent of a stale game write', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const game = await repository.createGame(newGame(team.id, { home_score: 1 }), []);
+      await repository.applyMutation({
+        backend: 'local', table: 'games', action: 'update', match: { id: game.id }, values: { home_score: 2 }, queuedAt: Date.now(),
+      });
+
+      // Computed from revision 0 (score 1), but another write got there first
+      await repository.applyMutation({
+        backend: 'local', table: 'games', action: 'intent', match: { id: game.id }, values: { home_score: 2 },
+        intent: { type: 'adjustScore', team: 'home', delta: 1 }, expectedRevision: 0, queuedAt: Date.now(),
+      });
+      const [savedGame] = await repository.listGames(team.id);
+
+      expect(savedGame.home_score).toBe(3);
+    });
+
+    it('keeps waves changed on another device when a stale wave change is re-applied', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const halftime = createWave(2, 0, [{ inPlayerId: 'p1', outPlayerId: 'p2' }]);
+      const game = await repository.createGame(newGame(team.id, { substitution_waves: [halftime] }), []);
+      const otherDeviceWave = createWave(1, 600, [{ inPlayerId: 'p3', outPlayerId: 'p4' }]);
+      await repository.applyMutation({
+        backend: 'local', table: 'games', action: 'intent', match: { id: game.id }, values: { substitution_waves: [otherDeviceWave, halftime] },
+        intent: { type: 'changeWaves', waves: [otherDeviceWave], removedWaveIds: [] }, expectedRevision: 0, queuedAt: Date.now(),
+      });
+
+      // Computed from revision 0, before the other device's wave was added
+      const handled = { ...halftime, isHandled: true };
+      await repository.applyMutation({
+        backend: 'local', table: 'games', action: 'intent', match: { id: game.id }, values: { substitution_waves: [handled] },
+        intent: { type: 'changeWaves', waves: [handled], removedWaveIds: [] }, expectedRevision: 0, queuedAt: Date.now(),
+      });
+      const [savedGame] = await repository.listGames(team.id);
+
+      expect(savedGame.substitution_waves).toEqual([otherDeviceWave, handled]);
+    });
+
+    it('deletes a game with its lineup and events', async () => {
+      const repository = createLocalRepository({ persist: false });
+      const team = await repository.createTeam('user-1', 'Lions');
+      const player = await repository.addPlayer({ team_id: team.id, first_name: 'Zoe', last_name: 'Smith', number: null });
+      const game = newGame(team.id);
+      await repository.createGame(game, [newLineupRow(game.id, player.id)]);
+      await repository.applyMutation({
+        backend: 'local', table: 'game_events', action: 'upsert', queuedAt: Date.now(),
+        values: { id: 'goal-1', game_id: game.id, type: 'goal', team: 'home', scorer_player_id: player.id, game_seconds: 60 },
+      });
+
+      await repository.deleteGame(team.id, game.id);
+      await repository.createGame({ ...newGame(team.id), id: game.id }, []); // Same id again: nothing left over
+
+      const [savedGame] = await repository.listGames(team.id);
+      expect(savedGame.game_lineups).toEqual([]);
+      expect(savedGame.game_events).toEqual([]);
+    });
+  });
+});
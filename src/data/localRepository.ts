@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from 'uuid';
+import { applyGameIntent, applyLineupIntent, GameIntent, LineupIntent } from '../lib/gameIntents';
+import { OutboxMutation } from '../lib/outbox';
+import { blobToDataUrl } from '../lib/teamLogo';
+import {
+  TeamData, PlayerData, GameData, GameDataWithRelations, GameLineupRow, SavedLineupRow,
+} from '../context/TeamContext';
+import { AuthSession, DataRepository, RepositoryError } from './repository';
+
+// Local (no account) backend: every table lives in memory and is optionally persisted to IndexedDB.
+// Backs the "try without an account" mode and lets the app run without a Supabase project.
+
+type Row = Record<string, unknown>;
+type TableName = 'teams' | 'players' | 'games' | 'game_lineups' | 'game_events' | 'saved_lineups';
+
+interface LocalSnapshot {
+  tables: Record<TableName, Row[]>;
+  guestUserId: string | null;
+  session: AuthSession | null;
+}
+
+export interface LocalRepository extends DataRepository {
+  startGuestSession: () => Promise<void>; // Signs in the local guest user, creating their team on first use
+}
+
+const DB_NAME = 'team-manager-local';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+const SNAPSHOT_KEY = 'default';
+
+// Mirrors the Supabase column defaults and triggers (updated_at, revision) per table
+const TABLES_WITH_UPDATED_AT: TableName[] = ['players', 'games', 'game_lineups'];
+const TABLES_WITH_REVISION: TableName[] = ['games', 'game_lineups'];
+
+// A new team row with every column the Supabase defaults would fill in, for guest and account teams alike
+const createTeamRow = (userId: string, name: string): Row =>
+  ({ user_id: userId, name, logo_url: null, role_zones: null, formations: null, sport: 'soccer' });
+
+const createEmptySnapshot = (): LocalSnapshot => ({
+  tables: { teams: [], players: [], games: [], game_lineups: [], game_events: [], saved_lineups: [] },
+  guestUserId: null,
+  session: null,
+});
+
+const openDb = (): Promise<IDBDatabase | null> =>
+  new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return; }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => { request.result.createObjectStore(STORE_NAME); };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { console.warn('Local data: IndexedDB unavailable, data will not be kept.', request.error); resolve(null); };
+    } catch (error) {
+      console.warn('Local data: IndexedDB unavailable, data will not be kept.', error);
+      resolve(null);
+    }
+  });
+
+const readSnapshot = (db: IDBDatabase): Promise<LocalSnapshot | undefined> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(SNAPSHOT_KEY);
+    request.onsuccess = () => resolve(request.result as LocalSnapshot | undefined);
+    request.onerror = () => reject(request.error);
+  });
+
+const writeSnapshot = (db: IDBDatabase, snapshot: LocalSnapshot): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(snapshot, SNAPSHOT_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const matchesFilters = (row: Row, mutation: Pick<OutboxMutation, 'match' | 'inFilter' | 'notInFilter'>): boolean =>
+  Object.entries(mutation.match ?? {}).every(([column, value]) => String(row[column]) === value)
+  && (!mutation.inFilter || mutation.inFilter.values.includes(String(row[mutation.inFilter.column])))
+  && (!mutation.notInFilter || !mutation.notInFilter.values.includes(String(row[mutation.notInFilter.column])));
+
+const byNewestGame = (a: Row, b: Row): number =>
+  String(b.game_date).localeCompare(String(a.game_date))
+  || (b.game_time === null ? -1 : a.game_time === null ? 1 : String(b.game_time).localeCompare(String(a.game_time))); // Nulls last
+
+export const createLocalRepository = ({ persist }: { persist: boolean }): LocalRepository => {
+  let snapshot = createEmptySnapshot();
+  const authListeners = new Set<(session: AuthSession | null) => void>();
+
+  // Load once; every public method awaits this before touching the tables
+  const ready: Promise<IDBDatabase | null> = (async () => {
+    if (!persist) return null;
+    const db = await openDb();
+    if (db) {
+      try { snapshot = (await readSnapshot(db)) ?? snapshot; }
+      catch (error) { console.error('Local data: failed to load saved data.', error); }
+    }
+    return db;
+  })();
+
+  const save = async () => {
+    const db = await ready;
+    if (db) await writeSnapshot(db, snapshot);
+  };
+
+  const table = (name: TableName): Row[] => snapshot.tables[name];
+
+  const insertRow = (name: TableName, values: Row): Row => {
+    const now = new Date().toISOString();
+    const row: Row = { id: uuidv4(), created_at: now, ...values };
+    if (TABLES_WITH_UPDATED_AT.includes(name)) row.updated_at = now;
+    if (TABLES_WITH_REVISION.includes(name)) row.revision = 0;
+    table(name).push(row);
+    return row;
+  };
+
+  const updateRow = (name: TableName, row: Row, values: Row) => {
+    Object.assign(row, values);
+    if (TABLES_WITH_UPDATED_AT.includes(name)) row.updated_at = new Date().toISOString();
+    if (TABLES_WITH_REVISION.includes(name)) row.revision = Number(row.revision ?? 0) + 1;
+  };
+
+  const deleteRows = (name: TableName, predicate: (row: Row) => boolean) => {
+    snapshot.tables[name] = table(name).filter(row => !predicate(row));
+  };
+
+  const setSession = async (session: AuthSession | null) => {
+    snapshot.session = session;
+    await save();
+    authListeners.forEach(listener => listener(session));
+  };
+
+  const accountsUnavailable = () => new RepositoryError('Accounts are not available in local mode.', 'LOCAL_MODE');
+
+  const applyMutationLocally = (mutation: OutboxMutation) => {
+    const name = mutation.table;
+    if (mutation.action === 'upsert') {
+      const rows = (Array.isArray(mutation.values) ? mutation.values : [mutation.values ?? {}]) as Row[];
+      const conflictColumns = (mutation.onConflict ?? 'id').split(',');
+      rows.forEach(values => {
+        const existing = table(name).find(row => conflictColumns.every(column => row[column] === values[column]));
+        if (existing) updateRow(name, existing, values);
+        else insertRow(name, values);
+      });
+    } else if (mutation.action === 'update') {
+      table(name).filter(row => matchesFilters(row, mutation)).forEach(row => updateRow(name, row, mutation.values as Row));
+    } else if (mutation.action === 'delete') {
+      deleteRows(name, row => matchesFilters(row, mutation));
+    } else {
+      const existing = table(name).find(row => matchesFilters(row, mutation));
+      const isCurrent = existing ? existing.revision === mutation.expectedRevision : mutation.expectedRevision === null;
+      // A stale write (e.g. the row was reset in the meantime) re-applies the intent, as the Supabase backend does
+      let values = mutation.values as Row;
+      if (!isCurrent) {
+        if (name === 'games') {
+          if (!existing) return;
+          values = applyGameIntent(existing as unknown as GameData, mutation.intent as GameIntent);
+        } else {
+          values = applyLineupIntent((existing as unknown as GameLineupRow | undefined) ?? null, mutation.intent as LineupIntent);
+        }
+      }
+      if (existing) updateRow(name, existing, values);
+      else insertRow(name, { ...mutation.match, ...values });
+    }
+  };
+
+  return {
+    kind: 'local',
+
+    startGuestSession: async () => {
+      await ready;
+      if (!snapshot.guestUserId) snapshot.guestUserId = uuidv4();
+      const userId = snapshot.guestUserId;
+      if (!table('teams').some(team => team.user_id === userId)) {
+        insertRow('teams', createTeamRow(userId, 'My Team'));
+      }
+      await setSession({ user: { id: userId, email: null } });
+    },
+
+    // --- Auth ---
+    getSession: async () => { await ready; return snapshot.session; },
+    onAuthStateChange: (callback) => {
+      authListeners.add(callback);
+      return () => { authListeners.delete(callback); };
+    },
+    signIn: async () => { throw accountsUnavailable(); },
+    signUp: async () => { throw accountsUnavailable(); },
+    signOut: async () => { await ready; await setSession(null); }, // Guest data is kept for the next session
+
+    // --- Teams ---
+    getTeamForUser: async (userId) => {
+      await ready;
+      return (table('teams').find(team => team.user_id === userId) as unknown as TeamData | undefined) ?? null;
+    },
+    createTeam: async (userId, name) => {
+      await ready;
+      if (table('teams').some(team => team.user_id === userId)) throw new RepositoryError('This user already has a team.', '23505');
+      const team = insertRow('teams', createTeamRow(userId, name));
+      await save();
+      return { ...team } as unknown as TeamData;
+    },
+    updateTeam: async (teamId, updates) => {
+      await ready;
+      table('teams').filter(team => team.id === teamId).forEach(team => updateRow('teams', team, updates));
+      await save();
+    },
+    // No file storage locally; the resized logo is small enough to keep inline as a data URL
+    uploadTeamLogo: async (_teamId, logo) => blobToDataUrl(logo),
+    removeOldTeamLogos: async () => {},
+
+    // --- Players ---
+    listPlayers: async (teamId) => {
+      await ready;
+      return table('players')
+        .filter(player => player.team_id === teamId)
+        .map(player => ({ ...player }) as unknown as PlayerData)
+        .sort((a, b) => a.first_name.localeCompare(b.first_name));
+    },
+    addPlayer: async (player) => {
+      await ready;
+      const row = insertRow('players', { ...player });
+      await save();
+      return { ...row } as unknown as PlayerData;
+    },
+    updatePlayer: async (teamId, playerId, updates) => {
+      await ready;
+      table('players').filter(player => player.id === playerId && player.team_id === teamId).forEach(player => updateRow('players', player, updates));
+      await save();
+    },
+    deletePlayer: async (teamId, playerId) => {
+      await ready;
+      if (!table('players').some(player => player.id === playerId && player.team_id === teamId)) return;
+      deleteRows('players', player => player.id === playerId);
+      // Same as the ON DELETE CASCADE / SET NULL foreign keys in Supabase
+      deleteRows('game_lineups', row => row.player_id === playerId);
+      table('game_events').forEach(event => {
+        (['scorer_player_id', 'assist_player_id', 'player_in_id', 'player_out_id', 'player_id'] as const).forEach(column => {
+          if (event[column] === playerId) event[column] = null;
+        });
+      });
+      await save();
+    },
+
+    // --- Games ---
+    listGames: async (teamId) => {
+      await ready;
+      return table('games')
+        .filter(game => game.team_id === teamId)
+        .sort(byNewestGame)
+        .map(game => ({
+          ...game,
+          game_lineups: table('game_lineups').filter(row => row.game_id === game.id).map(row => ({ ...row })),
+          game_events: table('game_events').filter(row => row.game_id === game.id).map(row => ({ ...row })),
+        }) as unknown as GameDataWithRelations);
+    },
+    createGame: async (game, lineup) => {
+      await ready;
+      const row = insertRow('games', { ...game });
+      lineup.forEach(lineupRow => insertRow('game_lineups', { ...lineupRow }));
+      await save();
+      return { ...row } as unknown as GameData;
+    },
+    deleteGame: async (teamId, gameId) => {
+      await ready;
+      deleteRows('games', game => game.id === gameId && game.team_id === teamId);
+      deleteRows('game_lineups', row => row.game_id === gameId);
+      deleteRows('game_events', row => row.game_id === gameId);
+      await save();
+    },
+
+    applyMutation: async (mutation) => {
+      await ready;
+      try {
+        applyMutationLocally(mutation);
+        await save();
+        return null;
+      } catch (error) {
+        return new RepositoryError((error as Error).message, 'LOCAL_WRITE_FAILED');
+      }
+    },
+
+    // Nothing else can change local data, so there is nothing to subscribe to
+    subscribeToGames: () => () => {},
+
+    // --- Saved Lineups ---
+    listSavedLineups: async (teamId) => {
+      await ready;
+      return table('saved_lineups')
+        .filter(lineup => lineup.team_id === teamId)
+        .map(lineup => ({ ...lineup }) as unknown as SavedLineupRow)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    importSavedLineups: async (teamId, lineups) => {
+      await ready;
+      lineups.forEach(lineup => {
+        if (!table('saved_lineups').some(row => row.team_id === teamId && row.name === lineup.name)) {
+          insertRow('saved_lineups', { team_id: teamId, ...lineup });
+        }
+      });
+      await save();
+    },
+    saveLineup: async (teamId, name, lineupData) => {
+      await ready;
+      const existing = table('saved_lineups').find(row => row.team_id === teamId && row.name === name);
+      const row = existing ?? insertRow('saved_lineups', { team_id: teamId, name, lineup_data: lineupData });
+      if (existing) updateRow('saved_lineups', existing, { lineup_data: lineupData });
+      await save();
+      return { ...row } as unknown as SavedLineupRow;
+    },
+    renameLineup: async (teamId, oldName, newName) => {
+      await ready;
+      if (table('saved_lineups').some(row => row.team_id === teamId && row.name === newName)) {
+        throw new RepositoryError(`A lineup named "${newName}" already exists.`, '23505');
+      }
+      table('saved_lineups').filter(row => row.team_id === teamId && row.name === oldName).forEach(row => updateRow('saved_lineups', row, { name: newName }));
+      await save();
+    },
+    deleteLineup: async (teamId, name) => {
+      await ready;
+      deleteRows('saved_lineups', row => row.team_id === teamId && row.name === name);
+      await save();
+    },
+  };
+};
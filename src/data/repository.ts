@@ -0,0 +1,83 @@
+import {
+  TeamData, PlayerData, GameData, GameDataWithRelations, GameEventRow, GameLineupRow, SavedLineupRow, PlayerLineupStructure,
+} from '../context/TeamContext';
+import { OutboxMutation } from '../lib/outbox';
+
+// --- Repository Interface ---
+// Everything the app reads or writes goes through a DataRepository, so the same UI can run against
+// Supabase or against the local (no account) backend in src/data/localRepository.ts.
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+// Errors thrown/returned by repositories carry a Postgres-style code (e.g. '23505' for a unique violation)
+export class RepositoryError extends Error {
+  code: string;
+
+  constructor(message: string, code = '') {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+  }
+}
+
+// A row change made elsewhere (another device), delivered by subscribeToGames
+export type RemoteChange<T> =
+  | { type: 'upsert'; row: T }
+  | { type: 'delete'; old: Partial<T> };
+
+export interface GameChangeHandlers {
+  onGame: (change: RemoteChange<GameData>) => void;
+  onEvent: (change: RemoteChange<GameEventRow>) => void;
+  onLineup: (change: RemoteChange<GameLineupRow>) => void;
+  onReconnect: () => void; // Changes may have been missed while disconnected
+}
+
+export type NewGameData = Omit<GameData, 'created_at' | 'updated_at' | 'revision'>; // id is generated client-side
+export type NewPlayerData = Omit<PlayerData, 'id' | 'created_at' | 'updated_at'>;
+
+export interface DataRepository {
+  readonly kind: 'supabase' | 'local';
+
+  // Auth
+  getSession: () => Promise<AuthSession | null>;
+  onAuthStateChange: (callback: (session: AuthSession | null) => void) => () => void; // Returns unsubscribe
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<AuthUser | null>; // null if e.g. email confirmation is pending
+  signOut: () => Promise<void>;
+
+  // Teams
+  getTeamForUser: (userId: string) => Promise<TeamData | null>;
+  createTeam: (userId: string, name: string) => Promise<TeamData>;
+  updateTeam: (teamId: string, updates: Partial<Pick<TeamData, 'name' | 'logo_url' | 'role_zones' | 'formations' | 'sport'>>) => Promise<void>;
+  uploadTeamLogo: (teamId: string, logo: Blob) => Promise<string>; // Stores an already resized logo, returns the URL for logo_url
+  removeOldTeamLogos: (teamId: string, currentLogoUrl: string | null) => Promise<void>; // Call once logo_url is saved; never throws
+
+  // Players
+  listPlayers: (teamId: string) => Promise<PlayerData[]>; // Sorted by first name
+  addPlayer: (player: NewPlayerData) => Promise<PlayerData>;
+  updatePlayer: (teamId: string, playerId: string, updates: Partial<Pick<PlayerData, 'first_name' | 'last_name' | 'number'>>) => Promise<void>;
+  deletePlayer: (teamId: string, playerId: string) => Promise<void>;
+
+  // Games (returned with their game_lineups and game_events rows)
+  listGames: (teamId: string) => Promise<GameDataWithRelations[]>; // Newest first
+  createGame: (game: NewGameData, lineup: GameLineupRow[]) => Promise<GameData>; // Inserts the game, then its lineup rows
+  deleteGame: (teamId: string, gameId: string) => Promise<void>;
+
+  // Game writes queued by the offline outbox (lineups, events, game updates). Returns null on success.
+  applyMutation: (mutation: OutboxMutation) => Promise<RepositoryError | null>;
+  subscribeToGames: (teamId: string, handlers: GameChangeHandlers) => () => void; // Returns unsubscribe
+
+  // Saved Lineups
+  listSavedLineups: (teamId: string) => Promise<SavedLineupRow[]>; // Sorted by name
+  importSavedLineups: (teamId: string, lineups: { name: string; lineup_data: PlayerLineupStructure[] }[]) => Promise<void>; // Never overwrites existing names
+  saveLineup: (teamId: string, name: string, lineupData: PlayerLineupStructure[]) => Promise<SavedLineupRow>; // Overwrites a lineup with the same name
+  renameLineup: (teamId: string, oldName: string, newName: string) => Promise<void>; // Throws code '23505' if the name is taken
+  deleteLineup: (teamId: string, name: string) => Promise<void>;
+}
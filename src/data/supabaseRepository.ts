@@ -0,0 +1,271 @@
+import { PostgrestError, Session, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../lib/supabaseClient';
+import { Database } from '../lib/database.types';
+import { applyGameIntent, applyLineupIntent, GameIntent, LineupIntent } from '../lib/gameIntents';
+import { OutboxMutation } from '../lib/outbox';
+import {
+  TeamData, PlayerData, GameData, GameDataWithRelations, GameEventRow, GameLineupRow, SavedLineupRow,
+} from '../context/TeamContext';
+import { AuthSession, DataRepository, RepositoryError } from './repository';
+
+// Select clause used for every games query so lineup and events always come back with the game
+const GAME_SELECT = '*, game_lineups(*), game_events(*)';
+
+const MAX_INTENT_ATTEMPTS = 5;
+
+// Storage bucket for team logos; objects live under '<team_id>/' (see migration 12)
+const TEAM_LOGOS_BUCKET = 'team-logos';
+
+const requireClient = (): SupabaseClient<Database> => {
+  if (!supabase) throw new RepositoryError('Supabase is not configured. Use "Try without an account" instead.', 'NOT_CONFIGURED');
+  return supabase;
+};
+
+const toRepositoryError = (error: PostgrestError): RepositoryError => new RepositoryError(error.message, error.code);
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { user: { id: session.user.id, email: session.user.email ?? null } } : null;
+
+// Writes only while the row is still at the expected revision. On a stale write, reloads the row,
+// re-applies the intent to it and retries, so newer changes from another device are never overwritten.
+const runIntentMutation = async (client: SupabaseClient, mutation: OutboxMutation): Promise<PostgrestError | null> => {
+  const match = mutation.match ?? {};
+  let values = (mutation.values ?? {}) as Record<string, unknown>;
+  let revision = mutation.expectedRevision ?? null;
+
+  for (let attempt = 0; attempt < MAX_INTENT_ATTEMPTS; attempt++) {
+    if (Object.keys(values).length === 0) return null; // Intent already satisfied by the latest row
+
+    if (revision === null) {
+      // No row yet: insert it, unless another device created it first (unique violation)
+      const { error } = await client.from(mutation.table).insert({ ...match, ...values });
+      if (!error || error.code !== '23505') return error;
+    } else {
+      let query = client.from(mutation.table).update(values).eq('revision', revision);
+      Object.entries(match).forEach(([column, value]) => { query = query.eq(column, value); });
+      const { data, error } = await query.select('revision');
+      if (error) return error;
+      if (data && data.length > 0) return null;
+    }
+
+    // Stale: reload the row and re-apply the intent to it
+    let latestQuery = client.from(mutation.table).select('*');
+    Object.entries(match).forEach(([column, value]) => { latestQuery = latestQuery.eq(column, value); });
+    const { data: latest, error: fetchError } = await latestQuery.maybeSingle();
+    if (fetchError) return fetchError;
+    if (mutation.table === 'games') {
+      if (!latest) return null; // Game was deleted on another device
+      values = applyGameIntent(latest as GameData, mutation.intent as GameIntent);
+    } else {
+      values = applyLineupIntent((latest as GameLineupRow | null) ?? null, mutation.intent as LineupIntent);
+    }
+    revision = latest ? (latest as { revision: number }).revision : null;
+  }
+
+  return new PostgrestError({
+    message: 'The game kept changing on another device, so this change was not saved.',
+    details: `${mutation.table} ${JSON.stringify(match)}`,
+    hint: '',
+    code: 'STALE_WRITE',
+  });
+};
+
+// Outbox mutations name their table and columns at runtime, so they go through the untyped client
+const runMutation = async (client: SupabaseClient, mutation: OutboxMutation): Promise<PostgrestError | null> => {
+  if (mutation.action === 'intent') return runIntentMutation(client, mutation);
+  const table = client.from(mutation.table);
+  if (mutation.action === 'upsert') {
+    const { error } = await table.upsert(mutation.values ?? [], { onConflict: mutation.onConflict });
+    return error;
+  }
+  let query = mutation.action === 'update' ? table.update(mutation.values ?? {}) : table.delete();
+  Object.entries(mutation.match ?? {}).forEach(([column, value]) => { query = query.eq(column, value); });
+  if (mutation.inFilter) query = query.in(mutation.inFilter.column, mutation.inFilter.values);
+  if (mutation.notInFilter) query = query.not(mutation.notInFilter.column, 'in', `(${mutation.notInFilter.values.join(',')})`);
+  const { error } = await query;
+  return error;
+};
+
+export const supabaseRepository: DataRepository = {
+  kind: 'supabase',
+
+  // --- Auth ---
+  getSession: async () => {
+    if (!supabase) return null;
+    const { data: { session } } = await supabase.auth.getSession();
+    return toAuthSession(session);
+  },
+  onAuthStateChange: (callback) => {
+    if (!supabase) return () => {};
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => callback(toAuthSession(session)));
+    return () => subscription.unsubscribe();
+  },
+  signIn: async (email, password) => {
+    const { error } = await requireClient().auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  },
+  signUp: async (email, password) => {
+    const { data, error } = await requireClient().auth.signUp({ email, password });
+    if (error) throw error;
+    return data.user ? { id: data.user.id, email: data.user.email ?? null } : null;
+  },
+  signOut: async () => {
+    const { error } = await requireClient().auth.signOut();
+    if (error) throw error;
+  },
+
+  // --- Teams ---
+  getTeamForUser: async (userId) => {
+    const { data, error } = await requireClient().from('teams').select('*').eq('user_id', userId).maybeSingle();
+    if (error) throw toRepositoryError(error);
+    return data as TeamData | null;
+  },
+  createTeam: async (userId, name) => {
+    // Select to confirm insertion and catch RLS issues if the insert fails silently
+    const { data, error } = await requireClient().from('teams').insert({ user_id: userId, name }).select().single();
+    if (error) throw toRepositoryError(error);
+    return data as TeamData;
+  },
+  updateTeam: async (teamId, updates) => {
+    const { error } = await requireClient().from('teams').update(updates).eq('id', teamId);
+    if (error) throw toRepositoryError(error);
+  },
+  uploadTeamLogo: async (teamId, logo) => {
+    const bucket = requireClient().storage.from(TEAM_LOGOS_BUCKET);
+    // A new name per upload, so cached copies of the previous logo are never shown
+    const fileName = `${uuidv4()}.${logo.type === 'image/png' ? 'png' : logo.type === 'image/jpeg' ? 'jpg' : 'webp'}`;
+    const { error } = await bucket.upload(`${teamId}/${fileName}`, logo, { contentType: logo.type, cacheControl: '31536000' });
+    if (error) throw new RepositoryError(error.message);
+    return bucket.getPublicUrl(`${teamId}/${fileName}`).data.publicUrl;
+  },
+  // Removes every stored logo except the one logo_url points at (all of them once the logo is removed); only
+  // called after logo_url is saved, so a failed save never leaves the team pointing at a deleted file.
+  // Failing here only leaves unused files behind.
+  removeOldTeamLogos: async (teamId, currentLogoUrl) => {
+    try {
+      const bucket = requireClient().storage.from(TEAM_LOGOS_BUCKET);
+      const currentFileName = currentLogoUrl?.split('?')[0].split('/').pop() ?? null;
+      const { data: existing, error: listError } = await bucket.list(teamId);
+      if (listError) throw listError;
+      const oldPaths = existing.filter(file => file.name !== currentFileName).map(file => `${teamId}/${file.name}`);
+      if (oldPaths.length === 0) return;
+      const { error: removeError } = await bucket.remove(oldPaths);
+      if (removeError) throw removeError;
+    } catch (error) {
+      console.warn('Could not remove old team logos:', (error as Error).message);
+    }
+  },
+
+  // --- Players ---
+  listPlayers: async (teamId) => {
+    const { data, error } = await requireClient().from('players').select('*').eq('team_id', teamId).order('first_name', { ascending: true });
+    if (error) throw toRepositoryError(error);
+    return data as PlayerData[];
+  },
+  addPlayer: async (player) => {
+    const { data, error } = await requireClient().from('players').insert(player).select().single();
+    if (error) throw toRepositoryError(error);
+    return data as PlayerData;
+  },
+  updatePlayer: async (teamId, playerId, updates) => {
+    const { error } = await requireClient().from('players').update(updates).eq('id', playerId).eq('team_id', teamId);
+    if (error) throw toRepositoryError(error);
+  },
+  deletePlayer: async (teamId, playerId) => {
+    const { error } = await requireClient().from('players').delete().eq('id', playerId).eq('team_id', teamId);
+    if (error) throw toRepositoryError(error);
+  },
+
+  // --- Games ---
+  listGames: async (teamId) => {
+    const { data, error } = await requireClient()
+      .from('games')
+      .select(GAME_SELECT)
+      .eq('team_id', teamId)
+      .order('game_date', { ascending: false }) // Fetch newest first
+      .order('game_time', { ascending: false, nullsFirst: false });
+    if (error) throw toRepositoryError(error);
+    return data as GameDataWithRelations[];
+  },
+  createGame: async (game, lineup) => {
+    const client = requireClient();
+    const { data, error } = await client.from('games').insert(game).select().single();
+    if (error) throw toRepositoryError(error);
+    const insertedGame = data as GameData;
+    if (lineup.length > 0) {
+      const { error: lineupError } = await client.from('game_lineups').insert(lineup);
+      if (lineupError) throw toRepositoryError(lineupError);
+    }
+    return insertedGame;
+  },
+  deleteGame: async (teamId, gameId) => {
+    const { error } = await requireClient().from('games').delete().eq('id', gameId).eq('team_id', teamId);
+    if (error) throw toRepositoryError(error);
+  },
+
+  applyMutation: async (mutation) => {
+    try {
+      const error = await runMutation(requireClient(), mutation);
+      return error ? toRepositoryError(error) : null;
+    } catch (error) {
+      if (error instanceof RepositoryError) return error;
+      throw error; // Network failure - the outbox keeps the mutation and retries later
+    }
+  },
+
+  subscribeToGames: (teamId, handlers) => {
+    if (!supabase) return () => {};
+    const client = supabase;
+    let hasSubscribed = false;
+    const channel = client
+      .channel(`team-games-${teamId}`)
+      .on<GameData>('postgres_changes', { event: '*', schema: 'public', table: 'games', filter: `team_id=eq.${teamId}` }, payload => {
+        handlers.onGame(payload.eventType === 'DELETE' ? { type: 'delete', old: payload.old } : { type: 'upsert', row: payload.new });
+      })
+      // game_events / game_lineups have no team_id column; RLS limits payloads to this user's games
+      .on<GameEventRow>('postgres_changes', { event: '*', schema: 'public', table: 'game_events' }, payload => {
+        handlers.onEvent(payload.eventType === 'DELETE' ? { type: 'delete', old: payload.old } : { type: 'upsert', row: payload.new });
+      })
+      .on<GameLineupRow>('postgres_changes', { event: '*', schema: 'public', table: 'game_lineups' }, payload => {
+        handlers.onLineup(payload.eventType === 'DELETE' ? { type: 'delete', old: payload.old } : { type: 'upsert', row: payload.new });
+      })
+      .subscribe(status => {
+        if (status !== 'SUBSCRIBED') return;
+        if (hasSubscribed) handlers.onReconnect();
+        hasSubscribed = true;
+      });
+    return () => { client.removeChannel(channel); };
+  },
+
+  // --- Saved Lineups ---
+  listSavedLineups: async (teamId) => {
+    const { data, error } = await requireClient().from('saved_lineups').select('*').eq('team_id', teamId).order('name', { ascending: true });
+    if (error) throw toRepositoryError(error);
+    return data as SavedLineupRow[];
+  },
+  importSavedLineups: async (teamId, lineups) => {
+    if (lineups.length === 0) return;
+    const { error } = await requireClient()
+      .from('saved_lineups')
+      .upsert(lineups.map(l => ({ team_id: teamId, ...l })), { onConflict: 'team_id,name', ignoreDuplicates: true });
+    if (error) throw toRepositoryError(error);
+  },
+  saveLineup: async (teamId, name, lineupData) => {
+    const { data, error } = await requireClient()
+      .from('saved_lineups')
+      .upsert({ team_id: teamId, name, lineup_data: lineupData }, { onConflict: 'team_id,name' })
+      .select()
+      .single();
+    if (error) throw toRepositoryError(error);
+    return data as SavedLineupRow;
+  },
+  renameLineup: async (teamId, oldName, newName) => {
+    const { error } = await requireClient().from('saved_lineups').update({ name: newName }).eq('team_id', teamId).eq('name', oldName);
+    if (error) throw toRepositoryError(error);
+  },
+  deleteLineup: async (teamId, name) => {
+    const { error } = await requireClient().from('saved_lineups').delete().eq('team_id', teamId).eq('name', name);
+    if (error) throw toRepositoryError(error);
+  },
+};
@@ -0,0 +1,32 @@
+// Short beeps for clock alerts, generated with the Web Audio API (no sound files to cache for offline use)
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so this is called from the timer button before any alert is due
+export const unlockAlertSound = () => {
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    if (audioContext.state === 'suspended') audioContext.resume();
+  } catch (error) {
+    console.warn('Alert sounds are not available:', (error as Error).message);
+  }
+};
+
+export const playAlertBeep = (beeps = 1) => {
+  if (!audioContext) return;
+  const start = audioContext.currentTime;
+  for (let i = 0; i < beeps; i++) {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 880;
+    const beepStart = start + i * 0.35;
+    // Ramp the volume to avoid clicks at the start and end of each beep
+    gain.gain.setValueAtTime(0, beepStart);
+    gain.gain.linearRampToValueAtTime(0.25, beepStart + 0.02);
+    gain.gain.linearRampToValueAtTime(0, beepStart + 0.2);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(beepStart);
+    oscillator.stop(beepStart + 0.22);
+  }
+};
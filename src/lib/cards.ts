@@ -0,0 +1,52 @@
+import { GameEvent, PlayerLineupState } from '../context/TeamContext';
+
+// Card rules shared by the game screen, the timeline and the stats. A player is sent off by a red card or a
+// second yellow card; a team that loses a player that way keeps playing one player down.
+
+export type CardType = Extract<GameEvent['type'], 'yellow_card' | 'red_card'>;
+
+export const isCardEvent = (event: GameEvent): boolean => event.type === 'yellow_card' || event.type === 'red_card';
+
+export const getCardCounts = (events: GameEvent[], playerId: string): { yellow: number; red: number } => ({
+  yellow: events.filter(e => e.type === 'yellow_card' && e.playerId === playerId).length,
+  red: events.filter(e => e.type === 'red_card' && e.playerId === playerId).length,
+});
+
+export const isSentOff = (events: GameEvent[], playerId: string): boolean => {
+  const { yellow, red } = getCardCounts(events, playerId);
+  return red > 0 || yellow >= 2;
+};
+
+// The card that sent the player off (a red, or the second yellow), if any
+export const getSendingOffEvent = (events: GameEvent[], playerId: string): GameEvent | undefined => {
+  let yellowCount = 0;
+  for (const event of events) {
+    if (event.playerId !== playerId) continue;
+    if (event.type === 'red_card') return event;
+    if (event.type === 'yellow_card' && ++yellowCount === 2) return event;
+  }
+  return undefined;
+};
+
+// Replays the substitutions up to a game time: starters begin on the field, subs move players on and off
+const wasOnFieldAt = (state: PlayerLineupState, events: GameEvent[], gameSeconds: number): boolean => {
+  let isOnField = !!state.isStarter && !!state.initialPosition;
+  events.forEach(e => {
+    if (e.type !== 'substitution' || e.gameSeconds > gameSeconds) return;
+    if (e.playerInId === state.id) isOnField = true;
+    if (e.playerOutId === state.id) isOnField = false;
+  });
+  return isOnField;
+};
+
+// How many players our team may have on the field after sendings-off: the number that started, minus players sent
+// off from the field (a player sent off from the bench doesn't reduce the team). null when no limit applies.
+export const getAllowedFieldPlayerCount = (lineup: PlayerLineupState[], events: GameEvent[]): number | null => {
+  const startingCount = lineup.filter(p => p.isStarter && p.initialPosition).length;
+  const sentOffFromField = lineup.filter(p => {
+    const sendingOff = getSendingOffEvent(events, p.id);
+    return sendingOff && wasOnFieldAt(p, events, sendingOff.gameSeconds);
+  }).length;
+  if (startingCount === 0 || sentOffFromField === 0) return null;
+  return Math.max(0, startingCount - sentOffFromField);
+};
@@ -0,0 +1,51 @@
+// Game clock display preferences. They belong to the device running the clock rather than to a game or team,
+// so they are kept in localStorage. The stored clock (timer_elapsed_seconds) always counts up either way.
+
+export interface ClockSettings {
+  mode: 'countUp' | 'countDown'; // countDown shows the time left in the period, then +mm:ss
+  alertMinutes: number[]; // Minutes left in the period at which to alert, largest first
+  alertAtPeriodEnd: boolean;
+  sound: boolean; // Beep as well as the on-screen alert
+  fieldStintMinutes: number | null; // Alert when a field player has been on this long in a row; null for off
+  benchStintMinutes: number | null; // Alert when a bench player has sat this long in a row; null for off
+}
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = { mode: 'countUp', alertMinutes: [5], alertAtPeriodEnd: true, sound: true, fieldStintMinutes: null, benchStintMinutes: null };
+
+const CLOCK_SETTINGS_KEY = 'clockSettings';
+
+// A whole number of minutes > 0, or null
+export const normalizeStintMinutes = (minutes: unknown): number | null => {
+  const value = Number(minutes);
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+// Whole minutes > 0, largest first, without duplicates
+export const normalizeAlertMinutes = (minutes: unknown[]): number[] =>
+  [...new Set(minutes.map(Number).filter(m => Number.isInteger(m) && m > 0))].sort((a, b) => b - a);
+
+export const loadClockSettings = (): ClockSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CLOCK_SETTINGS_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_CLOCK_SETTINGS;
+    return {
+      mode: stored.mode === 'countDown' ? 'countDown' : 'countUp',
+      alertMinutes: Array.isArray(stored.alertMinutes) ? normalizeAlertMinutes(stored.alertMinutes) : DEFAULT_CLOCK_SETTINGS.alertMinutes,
+      alertAtPeriodEnd: typeof stored.alertAtPeriodEnd === 'boolean' ? stored.alertAtPeriodEnd : DEFAULT_CLOCK_SETTINGS.alertAtPeriodEnd,
+      sound: typeof stored.sound === 'boolean' ? stored.sound : DEFAULT_CLOCK_SETTINGS.sound,
+      fieldStintMinutes: normalizeStintMinutes(stored.fieldStintMinutes),
+      benchStintMinutes: normalizeStintMinutes(stored.benchStintMinutes),
+    };
+  } catch (error) {
+    console.error('Error reading clock settings:', (error as Error).message);
+    return DEFAULT_CLOCK_SETTINGS;
+  }
+};
+
+export const saveClockSettings = (settings: ClockSettings) => {
+  try {
+    localStorage.setItem(CLOCK_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving clock settings:', (error as Error).message);
+  }
+};
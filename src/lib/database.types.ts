@@ -0,0 +1,402 @@
+// Generated from supabase/migrations - do not edit by hand.
+// Regenerate with `npm run gen:types` after adding a migration (requires the Supabase CLI and a local database).
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      game_events: {
+        Row: {
+          assist_player_id: string | null
+          created_at: string
+          event_timestamp: string
+          game_id: string
+          game_seconds: number
+          goal_type: string | null
+          id: string
+          inactive_reason: string | null
+          note: string | null
+          player_id: string | null
+          player_in_id: string | null
+          player_out_id: string | null
+          points: number | null
+          scorer_player_id: string | null
+          team: string
+          type: string
+        }
+        Insert: {
+          assist_player_id?: string | null
+          created_at?: string
+          event_timestamp?: string
+          game_id: string
+          game_seconds: number
+          goal_type?: string | null
+          id?: string
+          inactive_reason?: string | null
+          note?: string | null
+          player_id?: string | null
+          player_in_id?: string | null
+          player_out_id?: string | null
+          points?: number | null
+          scorer_player_id?: string | null
+          team: string
+          type: string
+        }
+        Update: {
+          assist_player_id?: string | null
+          created_at?: string
+          event_timestamp?: string
+          game_id?: string
+          game_seconds?: number
+          goal_type?: string | null
+          id?: string
+          inactive_reason?: string | null
+          note?: string | null
+          player_id?: string | null
+          player_in_id?: string | null
+          player_out_id?: string | null
+          points?: number | null
+          scorer_player_id?: string | null
+          team?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_events_assist_player_id_fkey"
+            columns: ["assist_player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_events_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_events_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_events_player_in_id_fkey"
+            columns: ["player_in_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_events_player_out_id_fkey"
+            columns: ["player_out_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_events_scorer_player_id_fkey"
+            columns: ["scorer_player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_lineups: {
+        Row: {
+          created_at: string
+          game_id: string
+          id: string
+          initial_position: Json | null
+          is_starter: boolean
+          location: string
+          player_id: string
+          playtime_seconds: number
+          playtimer_start_time: string | null
+          position: Json | null
+          revision: number
+          role_playtime_seconds: Json
+          subbed_off_count: number
+          subbed_on_count: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          game_id: string
+          id?: string
+          initial_position?: Json | null
+          is_starter?: boolean
+          location: string
+          player_id: string
+          playtime_seconds?: number
+          playtimer_start_time?: string | null
+          position?: Json | null
+          revision?: number
+          role_playtime_seconds?: Json
+          subbed_off_count?: number
+          subbed_on_count?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          game_id?: string
+          id?: string
+          initial_position?: Json | null
+          is_starter?: boolean
+          location?: string
+          player_id?: string
+          playtime_seconds?: number
+          playtimer_start_time?: string | null
+          position?: Json | null
+          revision?: number
+          role_playtime_seconds?: Json
+          subbed_off_count?: number
+          subbed_on_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_lineups_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_lineups_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      games: {
+        Row: {
+          away_score: number
+          break_minutes: number
+          break_start_time: string | null
+          competition: string | null
+          created_at: string
+          field_player_count: number | null
+          formation_id: string | null
+          game_date: string
+          game_time: string | null
+          home_score: number
+          id: string
+          is_explicitly_finished: boolean
+          location: string
+          opponent: string
+          period_count: number
+          period_end_seconds: number[]
+          period_minutes: number
+          revision: number
+          season: string | null
+          substitution_waves: Json
+          team_id: string
+          timer_elapsed_seconds: number
+          timer_start_time: string | null
+          timer_status: string
+          updated_at: string
+        }
+        Insert: {
+          away_score?: number
+          break_minutes?: number
+          break_start_time?: string | null
+          competition?: string | null
+          created_at?: string
+          field_player_count?: number | null
+          formation_id?: string | null
+          game_date: string
+          game_time?: string | null
+          home_score?: number
+          id?: string
+          is_explicitly_finished?: boolean
+          location: string
+          opponent?: string
+          period_count?: number
+          period_end_seconds?: number[]
+          period_minutes?: number
+          revision?: number
+          season?: string | null
+          substitution_waves?: Json
+          team_id: string
+          timer_elapsed_seconds?: number
+          timer_start_time?: string | null
+          timer_status?: string
+          updated_at?: string
+        }
+        Update: {
+          away_score?: number
+          break_minutes?: number
+          break_start_time?: string | null
+          competition?: string | null
+          created_at?: string
+          field_player_count?: number | null
+          formation_id?: string | null
+          game_date?: string
+          game_time?: string | null
+          home_score?: number
+          id?: string
+          is_explicitly_finished?: boolean
+          location?: string
+          opponent?: string
+          period_count?: number
+          period_end_seconds?: number[]
+          period_minutes?: number
+          revision?: number
+          season?: string | null
+          substitution_waves?: Json
+          team_id?: string
+          timer_elapsed_seconds?: number
+          timer_start_time?: string | null
+          timer_status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "games_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      players: {
+        Row: {
+          created_at: string
+          first_name: string
+          id: string
+          last_name: string
+          number: string | null
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          number?: string | null
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          number?: string | null
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "players_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_lineups: {
+        Row: {
+          created_at: string
+          id: string
+          lineup_data: Json
+          name: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lineup_data: Json
+          name: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lineup_data?: Json
+          name?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_lineups_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          formations: Json | null
+          id: string
+          logo_url: string | null
+          name: string
+          role_zones: Json | null
+          sport: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          formations?: Json | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          role_zones?: Json | null
+          sport?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          formations?: Json | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          role_zones?: Json | null
+          sport?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      get_my_team_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
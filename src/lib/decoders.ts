@@ -0,0 +1,191 @@
+import { GameEventRow, GameLineupRow, PlayerLineupStructure } from '../context/TeamContext';
+import { GoalType } from './goals';
+import { InactiveReason } from './inactiveReasons';
+import { RoleZone, validateRoleZones } from './roles';
+import { Formation, MAX_FORMATION_SLOTS } from './formations';
+import { SubstitutionSwap, SubstitutionWave, sortWaves } from './substitutionWaves';
+
+// Runtime checks for rows and JSONB values coming from Supabase, IndexedDB or localStorage.
+// The database only guarantees column types, not the shape of JSONB values (positions, saved lineups), and
+// old clients or hand edits can leave rows the app cannot render. Each decoder repairs what has an obvious
+// safe value and rejects (returns null for) rows that cannot be used, so one bad row never breaks a game.
+
+type Position = { x: number; y: number };
+
+const LINEUP_LOCATIONS: GameLineupRow['location'][] = ['field', 'bench', 'inactive'];
+const EVENT_TYPES: GameEventRow['type'][] = ['goal', 'substitution', 'yellow_card', 'red_card', 'shot_on_target', 'shot_off_target', 'save', 'corner', 'foul', 'offside', 'shootout_scored', 'shootout_missed', 'player_inactive'];
+const EVENT_TEAMS: GameEventRow['team'][] = ['home', 'away'];
+const GOAL_TYPES: GoalType[] = ['open_play', 'penalty', 'free_kick', 'header', 'own_goal'];
+const INACTIVE_REASONS: InactiveReason[] = ['injury', 'illness', 'absent', 'sent_off', 'tired'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+// Counters and durations: anything missing, negative or fractional becomes a whole number >= 0
+const toCount = (value: unknown): number => Math.max(0, Math.round(toNumber(value) ?? 0));
+
+const toOptionalId = (value: unknown): string | null => (isNonEmptyString(value) ? value : null);
+
+// Accepts ISO strings and JS timestamps; returns an ISO string, or null if the value is not a valid time
+const toIsoTimestamp = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const time = typeof value === 'number' ? value : typeof value === 'string' ? new Date(value).getTime() : NaN;
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+};
+
+// Field positions are percentages of the pitch; out-of-range values are pulled back onto the field
+export const decodePosition = (value: unknown): Position | null => {
+  if (!isRecord(value)) return null;
+  const x = toNumber(value.x);
+  const y = toNumber(value.y);
+  if (x === null || y === null) return null;
+  return { x: Math.min(100, Math.max(0, x)), y: Math.min(100, Math.max(0, y)) };
+};
+
+// game_lineups.role_playtime_seconds: seconds per role name
+const decodeRolePlaytime = (value: unknown): Record<string, number> => {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([role]) => role.trim() !== '').map(([role, seconds]) => [role, toCount(seconds)]));
+};
+
+export const decodeGameLineupRow = (value: unknown): GameLineupRow | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.game_id) || !isNonEmptyString(value.player_id)) return null;
+  const position = decodePosition(value.position);
+  let location = LINEUP_LOCATIONS.includes(value.location as GameLineupRow['location']) ? value.location as GameLineupRow['location'] : 'bench';
+  if (location === 'field' && !position) location = 'bench'; // Cannot draw a field player without a position
+
+  return {
+    id: isNonEmptyString(value.id) ? value.id : undefined,
+    game_id: value.game_id,
+    player_id: value.player_id,
+    location,
+    position: location === 'field' ? position : null,
+    initial_position: decodePosition(value.initial_position),
+    playtime_seconds: toCount(value.playtime_seconds),
+    role_playtime_seconds: decodeRolePlaytime(value.role_playtime_seconds),
+    playtimer_start_time: toIsoTimestamp(value.playtimer_start_time),
+    is_starter: value.is_starter === true,
+    subbed_on_count: toCount(value.subbed_on_count),
+    subbed_off_count: toCount(value.subbed_off_count),
+    revision: toNumber(value.revision) ?? undefined,
+    created_at: typeof value.created_at === 'string' ? value.created_at : undefined,
+    updated_at: typeof value.updated_at === 'string' ? value.updated_at : undefined,
+  };
+};
+
+export const decodeGameEventRow = (value: unknown): GameEventRow | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.id) || !isNonEmptyString(value.game_id)) return null;
+  if (!EVENT_TYPES.includes(value.type as GameEventRow['type']) || !EVENT_TEAMS.includes(value.team as GameEventRow['team'])) return null;
+  // Without a time the event cannot be placed in the timeline
+  const eventTimestamp = toIsoTimestamp(value.event_timestamp) ?? toIsoTimestamp(value.created_at);
+  if (!eventTimestamp) return null;
+
+  return {
+    id: value.id,
+    game_id: value.game_id,
+    type: value.type as GameEventRow['type'],
+    team: value.team as GameEventRow['team'],
+    scorer_player_id: toOptionalId(value.scorer_player_id),
+    assist_player_id: toOptionalId(value.assist_player_id),
+    player_in_id: toOptionalId(value.player_in_id),
+    player_out_id: toOptionalId(value.player_out_id),
+    player_id: toOptionalId(value.player_id),
+    goal_type: GOAL_TYPES.includes(value.goal_type as GoalType) ? value.goal_type as GoalType : null,
+    points: toCount(value.points) > 0 ? toCount(value.points) : null,
+    inactive_reason: INACTIVE_REASONS.includes(value.inactive_reason as InactiveReason) ? value.inactive_reason as InactiveReason : null,
+    note: typeof value.note === 'string' && value.note.trim() ? value.note : null,
+    event_timestamp: eventTimestamp,
+    game_seconds: toCount(value.game_seconds),
+    created_at: typeof value.created_at === 'string' ? value.created_at : undefined,
+  };
+};
+
+// games.period_end_seconds: clock times in ascending order; anything else is dropped
+export const decodePeriodEndSeconds = (value: unknown): number[] => {
+  if (!Array.isArray(value)) return [];
+  const seconds = value.map(toNumber).filter((item): item is number => item !== null && item >= 0).map(Math.round);
+  return seconds.filter((item, index) => index === 0 || item >= seconds[index - 1]);
+};
+
+// teams.role_zones: null (use the defaults) unless the bands are complete and valid
+export const decodeRoleZones = (value: unknown): RoleZone[] | null => {
+  if (!Array.isArray(value)) return null;
+  const zones = value.map(item => isRecord(item) ? { role: typeof item.role === 'string' ? item.role : '', minY: toNumber(item.minY), maxY: toNumber(item.maxY) } : null);
+  if (zones.some(zone => !zone || zone.minY === null || zone.maxY === null)) return null;
+  const decoded = zones as RoleZone[];
+  return validateRoleZones(decoded) === null ? decoded : null;
+};
+
+// Lists are decoded on every fetch and realtime change, so each kind of bad data is reported only once per session
+const warnedLabels = new Set<string>();
+
+const warnOnce = (label: string, ...message: unknown[]) => {
+  if (warnedLabels.has(label)) return;
+  warnedLabels.add(label);
+  console.warn(...message);
+};
+
+// Decodes a list, dropping rows the decoder rejects (and saying so in the console)
+const decodeList = <T>(value: unknown, decode: (item: unknown) => T | null, label: string): T[] => {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnOnce(label, `Ignoring malformed ${label}: expected an array.`, value);
+    return [];
+  }
+  const decoded = value.map(decode).filter((item): item is T => item !== null);
+  if (decoded.length < value.length) {
+    warnOnce(label, `Ignored ${value.length - decoded.length} malformed ${label} row(s).`);
+  }
+  return decoded;
+};
+
+export const decodeGameLineupRows = (value: unknown): GameLineupRow[] => {
+  const rows = decodeList(value, decodeGameLineupRow, 'game_lineups');
+  // One row per player (the table has a unique constraint; local or legacy data might not)
+  return rows.filter((row, index) => rows.findIndex(other => other.player_id === row.player_id) === index);
+};
+
+export const decodeGameEventRows = (value: unknown): GameEventRow[] => decodeList(value, decodeGameEventRow, 'game_events');
+
+const decodeLineupStructureEntry = (value: unknown): PlayerLineupStructure | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.id)) return null;
+  const position = decodePosition(value.position) ?? undefined;
+  // Saved lineups only plan the field and bench
+  const location = value.location === 'field' && position ? 'field' : 'bench';
+  return { id: value.id, location, position: location === 'field' ? position : undefined };
+};
+
+const decodeFormation = (value: unknown): Formation | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.id) || typeof value.name !== 'string' || !value.name.trim() || !Array.isArray(value.slots)) return null;
+  const slots = value.slots.map(decodePosition).filter((slot): slot is Position => slot !== null).slice(0, MAX_FORMATION_SLOTS);
+  return slots.length > 0 ? { id: value.id, name: value.name, slots } : null;
+};
+
+const decodeSubstitutionSwap = (value: unknown): SubstitutionSwap | null =>
+  isRecord(value) && isNonEmptyString(value.inPlayerId) && isNonEmptyString(value.outPlayerId) && value.inPlayerId !== value.outPlayerId
+    ? { inPlayerId: value.inPlayerId, outPlayerId: value.outPlayerId }
+    : null;
+
+const decodeSubstitutionWave = (value: unknown): SubstitutionWave | null => {
+  if (!isRecord(value) || !isNonEmptyString(value.id) || !Array.isArray(value.swaps)) return null;
+  const swaps = value.swaps.map(decodeSubstitutionSwap).filter((swap): swap is SubstitutionSwap => swap !== null);
+  if (swaps.length === 0) return null;
+  return { id: value.id, period: Math.max(1, toCount(value.period)), secondsIntoPeriod: toCount(value.secondsIntoPeriod), swaps, isHandled: value.isHandled === true };
+};
+
+// games.substitution_waves, in the order they come due
+export const decodeSubstitutionWaves = (value: unknown): SubstitutionWave[] => sortWaves(decodeList(value, decodeSubstitutionWave, 'substitution wave'));
+
+// teams.formations: the team's custom formations
+export const decodeFormations = (value: unknown): Formation[] => decodeList(value, decodeFormation, 'formation');
+
+// saved_lineups.lineup_data (and the lineups once kept in localStorage)
+export const decodeLineupStructure = (value: unknown): PlayerLineupStructure[] =>
+  decodeList(value, decodeLineupStructureEntry, 'saved lineup');
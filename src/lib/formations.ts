@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Formation templates: named sets of field slots (x/y percentages, our goal at the bottom) that players snap to.
+// Built-in formations ship with the app; teams add their own (teams.formations) by saving a field layout. A game
+// remembers the formation it is playing (games.formation_id); switching keeps each player in the nearest slot.
+
+type Position = { x: number; y: number };
+
+export type Formation = {
+  id: string;
+  name: string;
+  slots: Position[]; // The goalkeeper's slot included
+};
+
+const GK: Position = { x: 50, y: 90 };
+
+export const BUILT_IN_FORMATIONS: Formation[] = [
+  { id: 'builtin-5v5-2-2', name: '2-2 (5v5)', slots: [GK, { x: 30, y: 70 }, { x: 70, y: 70 }, { x: 30, y: 32 }, { x: 70, y: 32 }] },
+  { id: 'builtin-7v7-2-3-1', name: '2-3-1 (7v7)', slots: [GK, { x: 30, y: 72 }, { x: 70, y: 72 }, { x: 20, y: 50 }, { x: 50, y: 52 }, { x: 80, y: 50 }, { x: 50, y: 25 }] },
+  { id: 'builtin-9v9-3-3-2', name: '3-3-2 (9v9)', slots: [GK, { x: 20, y: 72 }, { x: 50, y: 75 }, { x: 80, y: 72 }, { x: 20, y: 50 }, { x: 50, y: 52 }, { x: 80, y: 50 }, { x: 35, y: 25 }, { x: 65, y: 25 }] },
+  { id: 'builtin-11v11-4-4-2', name: '4-4-2 (11v11)', slots: [GK, { x: 15, y: 72 }, { x: 38, y: 75 }, { x: 62, y: 75 }, { x: 85, y: 72 }, { x: 15, y: 50 }, { x: 38, y: 52 }, { x: 62, y: 52 }, { x: 85, y: 50 }, { x: 38, y: 25 }, { x: 62, y: 25 }] },
+  { id: 'builtin-11v11-4-3-3', name: '4-3-3 (11v11)', slots: [GK, { x: 15, y: 72 }, { x: 38, y: 75 }, { x: 62, y: 75 }, { x: 85, y: 72 }, { x: 30, y: 52 }, { x: 50, y: 55 }, { x: 70, y: 52 }, { x: 20, y: 28 }, { x: 50, y: 22 }, { x: 80, y: 28 }] },
+];
+
+export const MAX_FORMATION_SLOTS = 11;
+const SNAP_DISTANCE = 12; // Percent of the field; drops further than this from every free slot stay where they are
+const SAME_SLOT_DISTANCE = 1;
+
+export const isBuiltInFormation = (formationId: string): boolean => BUILT_IN_FORMATIONS.some(f => f.id === formationId);
+
+export const findFormation = (formations: Formation[], formationId: string | null | undefined): Formation | null =>
+  (formationId ? formations.find(f => f.id === formationId) : undefined) ?? null;
+
+const getDistance = (a: Position, b: Position): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// The nearest free slot to a drop, or the drop position itself if no free slot is close enough
+export const snapToSlot = (slots: Position[], position: Position, occupied: Position[]): Position => {
+  const freeSlots = slots.filter(slot => !occupied.some(p => getDistance(p, slot) < SAME_SLOT_DISTANCE));
+  const nearest = freeSlots.reduce<Position | null>((best, slot) => (!best || getDistance(slot, position) < getDistance(best, position) ? slot : best), null);
+  return nearest && getDistance(nearest, position) <= SNAP_DISTANCE ? nearest : position;
+};
+
+// Places field players into a formation's slots, keeping who-plays-where: the closest player/slot pairs are matched
+// first, so a defender stays in defence. Players without a slot (more players than slots) keep their position.
+export const assignToFormation = (players: { id: string; position?: Position | null }[], slots: Position[]): Map<string, Position> => {
+  const pairs = players
+    .flatMap(p => (p.position ? slots.map((slot, slotIndex) => ({ playerId: p.id, slotIndex, distance: getDistance(p.position!, slot) })) : []))
+    .sort((a, b) => a.distance - b.distance);
+  const assignments = new Map<string, Position>();
+  const usedSlots = new Set<number>();
+  pairs.forEach(({ playerId, slotIndex }) => {
+    if (assignments.has(playerId) || usedSlots.has(slotIndex)) return;
+    assignments.set(playerId, slots[slotIndex]);
+    usedSlots.add(slotIndex);
+  });
+  return assignments;
+};
+
+// A custom formation from the current field layout (top to bottom, left to right)
+export const createFormation = (name: string, positions: Position[]): Formation => ({
+  id: uuidv4(),
+  name: name.trim(),
+  slots: [...positions]
+    .map(p => ({ x: Math.round(p.x), y: Math.round(p.y) }))
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .slice(0, MAX_FORMATION_SLOTS),
+});
+
+export const isSamePosition = (a: Position | null | undefined, b: Position | null | undefined): boolean =>
+  !!a && !!b && getDistance(a, b) < SAME_SLOT_DISTANCE;
@@ -0,0 +1,49 @@
+import { Game } from '../context/TeamContext';
+
+// Game formats: how many players each team has on the field (goalkeeper included). A game's field_player_count caps
+// our field players; null means no limit (games created before formats existed). The soccer field markings are drawn
+// for the format, since smaller formats are played on smaller pitches with relatively larger areas.
+
+// Soccer formats; other sports list their own (see lib/sports)
+export const GAME_FORMATS: { label: string; fieldPlayerCount: number }[] = [
+  { label: '5v5', fieldPlayerCount: 5 },
+  { label: '7v7', fieldPlayerCount: 7 },
+  { label: '9v9', fieldPlayerCount: 9 },
+  { label: '11v11', fieldPlayerCount: 11 },
+];
+
+export const DEFAULT_FIELD_PLAYER_COUNT = 11;
+export const MIN_FIELD_PLAYER_COUNT = 3; // Matches the check constraint on games.field_player_count
+export const MAX_FIELD_PLAYER_COUNT = 15;
+
+export const getGameFormatLabel = (fieldPlayerCount: number | null): string =>
+  fieldPlayerCount === null ? 'No limit' : `${fieldPlayerCount}v${fieldPlayerCount}`;
+
+// How many players we should have on the field: the format's count, or fewer after sendings-off (see lib/cards)
+export const getExpectedFieldPlayerCount = (game: Pick<Game, 'field_player_count'>, allowedAfterCards: number | null): number | null => {
+  if (game.field_player_count === null) return allowedAfterCards;
+  return allowedAfterCards === null ? game.field_player_count : Math.min(game.field_player_count, allowedAfterCards);
+};
+
+// Field markings as percentages of the drawn field (our goal at the bottom)
+export interface FieldMarkings {
+  penaltyArea: { width: number; depth: number };
+  goalArea: { width: number; depth: number } | null; // Small-sided pitches often have none
+  penaltyArc: boolean;
+  centerCircle: number; // Diameter, as a percentage of the field width
+  cornerArcs: boolean;
+}
+
+const FIELD_MARKINGS: { fieldPlayerCount: number; markings: FieldMarkings }[] = [
+  { fieldPlayerCount: 5, markings: { penaltyArea: { width: 44, depth: 20 }, goalArea: null, penaltyArc: false, centerCircle: 26, cornerArcs: false } },
+  { fieldPlayerCount: 7, markings: { penaltyArea: { width: 50, depth: 22 }, goalArea: null, penaltyArc: false, centerCircle: 24, cornerArcs: true } },
+  { fieldPlayerCount: 9, markings: { penaltyArea: { width: 56, depth: 20 }, goalArea: { width: 26, depth: 7 }, penaltyArc: true, centerCircle: 22, cornerArcs: true } },
+  { fieldPlayerCount: 11, markings: { penaltyArea: { width: 60, depth: 18 }, goalArea: { width: 24, depth: 6 }, penaltyArc: true, centerCircle: 20, cornerArcs: true } },
+];
+
+// Custom formats use the markings of the largest standard format they reach; no limit draws a full-size pitch
+export const getFieldMarkings = (fieldPlayerCount: number | null | undefined): FieldMarkings => {
+  const count = fieldPlayerCount ?? DEFAULT_FIELD_PLAYER_COUNT;
+  const match = [...FIELD_MARKINGS].reverse().find(m => count >= m.fieldPlayerCount) ?? FIELD_MARKINGS[0];
+  return match.markings;
+};
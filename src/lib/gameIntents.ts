@@ -0,0 +1,101 @@
+import { GameData, GameLineupRow, PlayerLineupState } from '../context/TeamContext';
+import { addRolePlaytime, getRoleForPosition, getRoleZones, RoleZone } from './roles';
+import { changeWaves, SubstitutionWave } from './substitutionWaves';
+import { decodeSubstitutionWaves } from './decoders';
+
+// Serializable descriptions of what a game action wants to change. The outbox first writes the values the
+// client computed locally; if the row changed on another device in the meantime, the intent is re-applied
+// to the latest row instead of overwriting it.
+
+export type GameIntent =
+  | { type: 'set'; values: Partial<GameData> }
+  | { type: 'adjustScore'; team: 'home' | 'away'; delta: number }
+  | { type: 'startTimer'; at: number } // JS timestamp (milliseconds)
+  | { type: 'stopTimer'; at: number; finish?: boolean }
+  | { type: 'endPeriod'; at: number; period: number } // period is 1-based
+  | { type: 'changeWaves'; waves: SubstitutionWave[]; removedWaveIds: string[] }; // Substitution waves added or replaced by id, or removed
+
+export type LineupIntent = {
+  type: 'move';
+  playerId: string;
+  location: PlayerLineupState['location'];
+  position: { x: number; y: number } | null;
+  at: number; // JS timestamp (milliseconds)
+  gameRunning: boolean; // Whether the game clock was running when the player was moved
+  subbedOn: boolean;
+  subbedOff: boolean;
+  roleZones?: RoleZone[]; // The team's zones at the time of the move (missing in moves queued by older clients)
+};
+
+// Columns of a game_lineups row that a move can change
+export type LineupIntentValues = Pick<GameLineupRow, 'location' | 'position' | 'playtime_seconds' | 'role_playtime_seconds' | 'playtimer_start_time' | 'subbed_on_count' | 'subbed_off_count'>;
+
+const stopTimerValues = (row: GameData, at: number): Pick<GameData, 'timer_status' | 'timer_start_time' | 'timer_elapsed_seconds'> => {
+  let elapsedSeconds = row.timer_elapsed_seconds ?? 0;
+  if (row.timer_status === 'running' && row.timer_start_time) {
+    elapsedSeconds = Math.round(elapsedSeconds + Math.max(0, at - new Date(row.timer_start_time).getTime()) / 1000);
+  }
+  return { timer_status: 'stopped', timer_start_time: null, timer_elapsed_seconds: elapsedSeconds };
+};
+
+export const applyGameIntent = (row: GameData, intent: GameIntent): Partial<GameData> => {
+  switch (intent.type) {
+    case 'set':
+      return intent.values;
+    case 'adjustScore':
+      return intent.team === 'home'
+        ? { home_score: Math.max(0, (row.home_score ?? 0) + intent.delta) }
+        : { away_score: Math.max(0, (row.away_score ?? 0) + intent.delta) };
+    case 'startTimer':
+      // Already started on another device (or finished there) - keep that clock
+      if (row.timer_status === 'running' || row.is_explicitly_finished) return {};
+      return { timer_status: 'running', timer_start_time: new Date(intent.at).toISOString(), is_explicitly_finished: false, break_start_time: null };
+    case 'stopTimer': {
+      const values = stopTimerValues(row, intent.at);
+      return intent.finish ? { ...values, is_explicitly_finished: true, break_start_time: null } : values;
+    }
+    case 'endPeriod': {
+      const periodEnds = row.period_end_seconds ?? [];
+      // This period was already ended on another device
+      if (periodEnds.length >= intent.period || row.is_explicitly_finished) return {};
+      const values = stopTimerValues(row, intent.at);
+      return { ...values, period_end_seconds: [...periodEnds, values.timer_elapsed_seconds], break_start_time: new Date(intent.at).toISOString() };
+    }
+    case 'changeWaves':
+      return { substitution_waves: changeWaves(decodeSubstitutionWaves(row.substitution_waves), intent.waves, intent.removedWaveIds) };
+  }
+};
+
+// Applies a move to a lineup row (null if the player has no row for this game yet)
+export const applyLineupIntent = (row: GameLineupRow | null, intent: LineupIntent): LineupIntentValues => {
+  let playtimeSeconds = row?.playtime_seconds ?? 0;
+  let rolePlaytimeSeconds = row?.role_playtime_seconds ?? {};
+  let playtimerStartTime = row?.playtimer_start_time ? new Date(row.playtimer_start_time).getTime() : null;
+
+  // Bank the time played so far when the player leaves the field (or inactive list); a field stint also counts
+  // towards the role of the zone the player was standing in
+  if (row && (row.location === 'field' || row.location === 'inactive') && playtimerStartTime) {
+    const stintSeconds = (intent.at - playtimerStartTime) / 1000;
+    playtimeSeconds = Math.round(playtimeSeconds + stintSeconds);
+    if (row.location === 'field' && row.position) {
+      rolePlaytimeSeconds = addRolePlaytime(rolePlaytimeSeconds, getRoleForPosition(getRoleZones(intent.roleZones), row.position), stintSeconds);
+    }
+    playtimerStartTime = null;
+  }
+
+  if (intent.location === 'field' && intent.gameRunning && playtimerStartTime === null) {
+    playtimerStartTime = intent.at;
+  } else if (intent.location !== 'field') {
+    playtimerStartTime = null;
+  }
+
+  return {
+    location: intent.location,
+    position: intent.location === 'field' ? intent.position : null,
+    playtime_seconds: playtimeSeconds,
+    role_playtime_seconds: rolePlaytimeSeconds,
+    playtimer_start_time: playtimerStartTime ? new Date(playtimerStartTime).toISOString() : null,
+    subbed_on_count: (row?.subbed_on_count ?? 0) + (intent.subbedOn ? 1 : 0),
+    subbed_off_count: (row?.subbed_off_count ?? 0) + (intent.subbedOff ? 1 : 0),
+  };
+};
@@ -0,0 +1,25 @@
+import { GameEvent } from '../context/TeamContext';
+
+// How a goal was scored. An own goal is stored on the team it counts for, so the score is always the goals per team;
+// it credits no scorer, and playerId records our player when we conceded it.
+
+export type GoalType = 'open_play' | 'penalty' | 'free_kick' | 'header' | 'own_goal';
+
+export const GOAL_TYPE_OPTIONS: { type: GoalType; label: string }[] = [
+  { type: 'open_play', label: 'Open play' },
+  { type: 'penalty', label: 'Penalty' },
+  { type: 'free_kick', label: 'Free kick' },
+  { type: 'header', label: 'Header' },
+  { type: 'own_goal', label: 'Own goal' },
+];
+
+export const getGoalTypeLabel = (goalType: GoalType): string => GOAL_TYPE_OPTIONS.find(o => o.type === goalType)?.label ?? goalType;
+
+export const isOwnGoal = (event: GameEvent): boolean => event.type === 'goal' && event.goalType === 'own_goal';
+
+// What a goal adds to the score; only sports with several scoring actions record points (see lib/sports)
+export const getGoalPoints = (event: GameEvent): number => event.points ?? 1;
+
+// The roster player credited with a goal; own goals credit nobody
+export const getCreditedScorerId = (event: GameEvent): string | null =>
+  event.type === 'goal' && !isOwnGoal(event) ? event.scorerPlayerId ?? null : null;
@@ -0,0 +1,34 @@
+import { Game, GameEvent } from '../context/TeamContext';
+import { getSendingOffEvent } from './cards';
+
+// Why a player is in the inactive zone. Each move there records a 'player_inactive' event with the reason; a player
+// sent off by a live card is inactive for that reason without a separate event (one sent off by correcting a card
+// in the timeline gets a 'sent_off' event, removed again if a later correction brings them back).
+
+export type InactiveReason = 'injury' | 'illness' | 'absent' | 'sent_off' | 'tired';
+
+export const INACTIVE_REASON_OPTIONS: { reason: InactiveReason; label: string }[] = [
+  { reason: 'injury', label: 'Injury' },
+  { reason: 'illness', label: 'Illness' },
+  { reason: 'absent', label: 'Absent' },
+  { reason: 'sent_off', label: 'Sent off' },
+  { reason: 'tired', label: 'Tired' },
+];
+
+export const getInactiveReasonLabel = (reason: InactiveReason): string =>
+  INACTIVE_REASON_OPTIONS.find(o => o.reason === reason)?.label ?? reason;
+
+// The reason for a player currently in the inactive zone: a sending-off, else the latest recorded reason
+export const getInactiveReason = (events: GameEvent[], playerId: string): InactiveReason | null => {
+  if (getSendingOffEvent(events, playerId)) return 'sent_off';
+  const inactiveEvents = events.filter(e => e.type === 'player_inactive' && e.playerId === playerId);
+  return inactiveEvents[inactiveEvents.length - 1]?.inactiveReason ?? null;
+};
+
+// A player's injuries across games, most recent first
+export const getInjuryHistory = (games: Game[], playerId: string): { game: Game; event: GameEvent }[] =>
+  games
+    .flatMap(game => (game.events ?? [])
+      .filter(e => e.type === 'player_inactive' && e.inactiveReason === 'injury' && e.playerId === playerId)
+      .map(event => ({ game, event })))
+    .sort((a, b) => b.event.timestamp - a.event.timestamp);
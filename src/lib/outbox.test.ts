@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DataRepository, RepositoryError } from '../data/repository';
+import { createLocalRepository } from '../data/localRepository';
+import { enqueueMutations, flushOutbox, getPendingMutationCount, OutboxMutation } from './outbox';
+
+// The outbox replays against whichever repository is active; each test swaps in its own
+let activeRepository: DataRepository;
+vi.mock('../data', () => ({ getRepository: () => activeRepository }));
+
+// Records the order mutations are applied in, failing those listed in errors
+const createRecordingRepository = (errors: Map<string, RepositoryError> = new Map()) => {
+  const applied: string[] = [];
+  const repository = {
+    ...createLocalRepository({ persist: false }),
+    applyMutation: async (mutation: OutboxMutation) => {
+      const label = String((mutation.values as { label: string }).label);
+      const error = errors.get(label) ?? null;
+      if (!error) applied.push(label);
+      return error;
+    },
+  };
+  return { repository, applied };
+};
+
+const enqueueLabelled = (label: string) =>
+  enqueueMutations([{ table: 'games', action: 'update', match: { id: 'game-1' }, values: { label } }]);
+
+describe('outbox', () => {
+  beforeEach(async () => {
+    // Start every test with an empty queue
+    activeRepository = createRecordingRepository().repository;
+    await flushOutbox();
+  });
+
+  it('replays mutations in the order they were queued', async () => {
+    const { repository, applied } = createRecordingRepository();
+    activeRepository = repository;
+    for (const label of ['first', 'second', 'third']) await enqueueLabelled(label);
+
+    const result = await flushOutbox();
+
+    expect(applied).toEqual(['first', 'second', 'third']);
+    expect(result).toEqual({ remaining: 0, rejected: [] });
+  });
+
+  it('stops at a transient error so later mutations are not applied before it', async () => {
+    const errors = new Map([['second', new RepositoryError('Failed to fetch')]]);
+    const { repository, applied } = createRecordingRepository(errors);
+    activeRepository = repository;
+    for (const label of ['first', 'second', 'third']) await enqueueLabelled(label);
+
+    expect(await flushOutbox()).toEqual({ remaining: 2, rejected: [] });
+    expect(applied).toEqual(['first']);
+
+    errors.clear(); // Back online
+    expect(await flushOutbox()).toEqual({ remaining: 0, rejected: [] });
+    expect(applied).toEqual(['first', 'second', 'third']);
+  });
+
+  it('drops mutations the server rejects and carries on with the rest', async () => {
+    const rejection = new RepositoryError('violates check constraint', '23514');
+    const { repository, applied } = createRecordingRepository(new Map([['second', rejection]]));
+    activeRepository = repository;
+    for (const label of ['first', 'second', 'third']) await enqueueLabelled(label);
+
+    const result = await flushOutbox();
+
+    expect(applied).toEqual(['first', 'third']);
+    expect(result.remaining).toBe(0);
+    expect(result.rejected).toMatchObject([{ mutation: { values: { label: 'second' } }, error: rejection }]);
+  });
+
+  it("queues none of a change's mutations when one of them can't be stored", async () => {
+    await expect(enqueueMutations([
+      { table: 'games', action: 'update', match: { id: 'game-1' }, values: { label: 'first' } },
+      { table: 'games', action: 'update', match: { id: 'game-1' }, values: { label: 'second', onSaved: () => {} } }, // Functions can't be cloned into IndexedDB
+    ])).rejects.toThrow();
+
+    expect(await getPendingMutationCount()).toBe(0);
+  });
+
+  it('only replays mutations queued for the active backend', async () => {
+    const supabase = createRecordingRepository();
+    activeRepository = { ...supabase.repository, kind: 'supabase' };
+    await enqueueLabelled('account');
+    const local = createRecordingRepository();
+    activeRepository = local.repository;
+    await enqueueLabelled('guest');
+
+    await flushOutbox();
+
+    expect(local.applied).toEqual(['guest']);
+    expect(await getPendingMutationCount()).toBe(0);
+    activeRepository = { ...supabase.repository, kind: 'supabase' };
+    expect(await getPendingMutationCount()).toBe(1);
+    await flushOutbox();
+    expect(supabase.applied).toEqual(['account']);
+  });
+
+  it('applies replayed game writes to the local repository in order', async () => {
+    const repository = createLocalRepository({ persist: false });
+    activeRepository = repository;
+    const team = await repository.createTeam('user-1', 'Lions');
+    await enqueueMutations([
+      {
+        table: 'games', action: 'upsert',
+        values: {
+          id: 'game-1', team_id: team.id, opponent: 'Rovers', game_date: '2026-09-05', game_time: null, location: 'home',
+          home_score: 0, away_score: 0, timer_status: 'stopped', timer_elapsed_seconds: 0, substitution_waves: [],
+        },
+      },
+      { table: 'games', action: 'update', match: { id: 'game-1' }, values: { home_score: 1 } },
+    ]);
+    await enqueueMutations([{ table: 'games', action: 'update', match: { id: 'game-1' }, values: { home_score: 2, opponent: 'United' } }]);
+
+    await flushOutbox();
+    const [game] = await repository.listGames(team.id);
+
+    expect(game).toMatchObject({ id: 'game-1', opponent: 'United', home_score: 2, revision: 2 });
+  });
+});
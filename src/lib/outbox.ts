@@ -0,0 +1,149 @@
+import { GameIntent, LineupIntent } from './gameIntents';
+import { getRepository } from '../data';
+import { DataRepository, RepositoryError } from '../data/repository';
+
+// Offline outbox: game writes are queued in IndexedDB and replayed against the active repository in order,
+// so actions taken on the sideline without signal are not lost.
+
+const DB_NAME = 'team-manager-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+// A single queued write. Stored as plain data so it survives a page reload.
+export interface OutboxMutation {
+  id?: number; // Auto-incremented by IndexedDB - defines replay order
+  backend: DataRepository['kind']; // Only replayed while this backend is active
+  table: 'games' | 'game_lineups' | 'game_events';
+  action: 'upsert' | 'update' | 'delete' | 'intent';
+  values?: object | object[]; // Row(s) for upsert, column values for update/intent
+  onConflict?: string; // Upsert conflict target
+  match?: Record<string, string>; // Equality filters for update/delete
+  inFilter?: { column: string; values: string[] };
+  notInFilter?: { column: string; values: string[] };
+  intent?: GameIntent | LineupIntent; // 'intent' only: re-applied to the latest row when the write is stale
+  expectedRevision?: number | null; // 'intent' only: revision the values were computed from (null = no row yet)
+  queuedAt: number; // JS timestamp (milliseconds)
+}
+
+export type OutboxMutationInput = Omit<OutboxMutation, 'id' | 'backend' | 'queuedAt'>;
+
+export interface OutboxFlushResult {
+  remaining: number; // Mutations still queued (e.g. still offline)
+  rejected: { mutation: OutboxMutation; error: RepositoryError }[]; // Refused by the server and dropped
+}
+
+// In-memory fallback for browsers where IndexedDB is unavailable (e.g. some private modes)
+let memoryQueue: OutboxMutation[] = [];
+let memoryNextId = 1;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') { resolve(null); return; }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Outbox: IndexedDB unavailable, falling back to memory.', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Outbox: IndexedDB unavailable, falling back to memory.', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = <T,>(db: IDBDatabase, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    let request: IDBRequest<T>;
+    try {
+      request = operation(transaction.objectStore(STORE_NAME));
+    } catch (error) {
+      transaction.abort(); // e.g. a value that can't be stored: don't commit the requests made before it
+      reject(error);
+      return;
+    }
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Queues the writes of one change together: either all of them are queued, or (on error) none are
+export const enqueueMutations = async (inputs: OutboxMutationInput[]): Promise<void> => {
+  if (inputs.length === 0) return;
+  const backend = getRepository().kind;
+  const queuedAt = Date.now();
+  const mutations: OutboxMutation[] = inputs.map(input => ({ ...input, backend, queuedAt }));
+  const db = await openDb();
+  if (!db) { mutations.forEach(mutation => memoryQueue.push({ ...mutation, id: memoryNextId++ })); return; }
+  await runTransaction(db, 'readwrite', store => mutations.map(mutation => store.add(mutation))[mutations.length - 1]);
+};
+
+// Mutations queued for the active backend
+const getQueuedMutations = async (): Promise<OutboxMutation[]> => {
+  const backend = getRepository().kind;
+  const db = await openDb();
+  if (!db) return memoryQueue.filter(m => m.backend === backend);
+  // getAll returns records in key order, i.e. the order they were queued
+  const queued = await runTransaction<OutboxMutation[]>(db, 'readonly', store => store.getAll());
+  return queued.filter(m => m.backend === backend);
+};
+
+const removeMutation = async (id: number): Promise<void> => {
+  const db = await openDb();
+  if (!db) { memoryQueue = memoryQueue.filter(m => m.id !== id); return; }
+  await runTransaction(db, 'readwrite', store => store.delete(id));
+};
+
+export const getPendingMutationCount = async (): Promise<number> => (await getQueuedMutations()).length;
+
+// Network failures come back without a Postgres/PostgREST code; PGRST3xx are JWT errors that clear once the session refreshes
+const isTransientError = (error: RepositoryError): boolean => !error.code || error.code.startsWith('PGRST3');
+
+let flushPromise: Promise<OutboxFlushResult> | null = null;
+
+const replayQueue = async (): Promise<OutboxFlushResult> => {
+  const rejected: OutboxFlushResult['rejected'] = [];
+  // Re-read the queue after each pass to pick up mutations queued while replaying
+  let queued = await getQueuedMutations();
+  while (queued.length > 0) {
+    for (let i = 0; i < queued.length; i++) {
+      const mutation = queued[i];
+      let error: RepositoryError | null;
+      try {
+        error = await getRepository().applyMutation(mutation);
+      } catch (thrown) {
+        console.warn('Outbox: replay interrupted, will retry later.', thrown);
+        return { remaining: await getPendingMutationCount(), rejected };
+      }
+      if (error && isTransientError(error)) {
+        // Stop here so later mutations are never applied before this one
+        return { remaining: await getPendingMutationCount(), rejected };
+      }
+      if (error) {
+        console.error(`Outbox: ${mutation.action} on ${mutation.table} rejected:`, error.message);
+        rejected.push({ mutation, error });
+      }
+      await removeMutation(mutation.id!);
+    }
+    queued = await getQueuedMutations();
+  }
+  return { remaining: 0, rejected };
+};
+
+// Replays queued mutations in order. Concurrent calls share the same in-flight replay.
+export const flushOutbox = (): Promise<OutboxFlushResult> => {
+  if (!flushPromise) {
+    flushPromise = replayQueue().finally(() => { flushPromise = null; });
+  }
+  return flushPromise;
+};
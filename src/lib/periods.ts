@@ -0,0 +1,63 @@
+import { Game, GameData } from '../context/TeamContext';
+
+// Match structure helpers. The game clock (timer_elapsed_seconds, event gameSeconds) runs continuously across
+// periods; period_end_seconds records the clock time at which each completed period was ended.
+
+export type PeriodConfig = Pick<GameData, 'period_count' | 'period_minutes' | 'break_minutes'>;
+
+export const DEFAULT_PERIOD_CONFIG: PeriodConfig = { period_count: 2, period_minutes: 45, break_minutes: 15 };
+export const MAX_PERIOD_COUNT = 8; // Matches the check constraint on games.period_count
+
+type PeriodGame = Pick<Game, 'period_count' | 'period_minutes' | 'period_end_seconds' | 'is_explicitly_finished' | 'timer_elapsed_seconds'>;
+
+// "1st Half", "Q3", "Period 2"
+export const getPeriodName = (periodCount: number, period: number): string => {
+  if (periodCount === 1) return 'Full Game';
+  if (periodCount === 2) return period === 1 ? '1st Half' : '2nd Half';
+  if (periodCount === 4) return `Q${period}`;
+  return `Period ${period}`;
+};
+
+// Short label for the marker at the end of a period ("HT", "Q1", "P2")
+export const getPeriodEndLabel = (periodCount: number, period: number): string => {
+  if (periodCount === 2) return 'HT';
+  if (periodCount === 4) return `Q${period}`;
+  return `P${period}`;
+};
+
+// The period being played (or, during a break, the next one)
+export const getCurrentPeriod = (game: PeriodGame): number =>
+  Math.min(game.period_count, game.period_end_seconds.length + 1);
+
+// Period ends used to place events. Finished games that were played without ending periods (including games from
+// before periods existed) are split at the configured period length, like the old 45/90 minute heuristic.
+export const getPeriodEnds = (game: PeriodGame): number[] => {
+  const ends = [...game.period_end_seconds];
+  if (!game.is_explicitly_finished) return ends;
+  while (ends.length < game.period_count - 1) {
+    const nextEnd = (ends[ends.length - 1] ?? 0) + game.period_minutes * 60;
+    if (nextEnd >= game.timer_elapsed_seconds) break; // The game ended early
+    ends.push(nextEnd);
+  }
+  return ends;
+};
+
+export const getPeriodStartSeconds = (game: PeriodGame, period: number): number =>
+  period <= 1 ? 0 : getPeriodEnds(game)[period - 2] ?? 0;
+
+// Which period a clock time falls into; an event at the exact end of a period belongs to that period
+export const locateGameSeconds = (game: PeriodGame, gameSeconds: number): { period: number; secondsIntoPeriod: number } => {
+  const ends = getPeriodEnds(game);
+  let period = 1;
+  while (period <= ends.length && gameSeconds > ends[period - 1]) period++;
+  return { period, secondsIntoPeriod: Math.max(0, gameSeconds - (period <= 1 ? 0 : ends[period - 2])) };
+};
+
+// Match minute as shown in the timeline: 25-minute halves give 1'-25', then 25+2' for stoppage time, then 26'-50'
+export const formatMinute = (game: PeriodGame, gameSeconds: number): string => {
+  const { period, secondsIntoPeriod } = locateGameSeconds(game, gameSeconds);
+  const periodSeconds = game.period_minutes * 60;
+  const periodEndMinute = period * game.period_minutes;
+  if (secondsIntoPeriod > periodSeconds) return `${periodEndMinute}+${Math.ceil((secondsIntoPeriod - periodSeconds) / 60)}'`;
+  return `${Math.min(periodEndMinute, Math.max(1, (period - 1) * game.period_minutes + Math.floor(secondsIntoPeriod / 60) + 1))}'`;
+};
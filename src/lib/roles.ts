@@ -0,0 +1,58 @@
+// Position roles derived from field coordinates. The field is split into horizontal bands (y is a percentage from the
+// top, our goal is at the bottom); each on-field stint is banked against the role of the band the player stood in.
+// Teams can rename the bands, move their boundaries or add custom ones; teams.role_zones is null until then.
+
+export type RoleZone = {
+  role: string; // "GK", "DEF", or a custom name
+  minY: number; // Inclusive, 0-100
+  maxY: number; // Exclusive, except for the band that reaches 100
+};
+
+export const DEFAULT_ROLE_ZONES: RoleZone[] = [
+  { role: 'FWD', minY: 0, maxY: 35 },
+  { role: 'MID', minY: 35, maxY: 62 },
+  { role: 'DEF', minY: 62, maxY: 88 },
+  { role: 'GK', minY: 88, maxY: 100 },
+];
+
+export const MAX_ROLE_ZONES = 8;
+
+export const getRoleZones = (zones: RoleZone[] | null | undefined): RoleZone[] => (zones && zones.length > 0 ? zones : DEFAULT_ROLE_ZONES);
+
+// Role for a field position (the bottom band if no band matches)
+export const getRoleForPosition = (zones: RoleZone[], position: { x: number; y: number }): string | null => {
+  if (zones.length === 0) return null;
+  const zone = zones.find(z => position.y >= z.minY && (position.y < z.maxY || z.maxY >= 100)) ?? zones[zones.length - 1];
+  return zone.role;
+};
+
+// Adds seconds to a role's total without changing the original
+export const addRolePlaytime = (rolePlaytime: Record<string, number>, role: string | null, seconds: number): Record<string, number> => {
+  if (!role || seconds <= 0) return rolePlaytime;
+  return { ...rolePlaytime, [role]: Math.round((rolePlaytime[role] ?? 0) + seconds) };
+};
+
+export const sumRolePlaytime = (totals: Record<string, number>[]): Record<string, number> =>
+  totals.reduce((sum, rolePlaytime) => Object.entries(rolePlaytime).reduce((acc, [role, seconds]) => addRolePlaytime(acc, role, seconds), sum), {});
+
+// Roles by time played, most played first
+export const getRoleBreakdown = (rolePlaytime: Record<string, number>): { role: string; seconds: number }[] =>
+  Object.entries(rolePlaytime)
+    .filter(([, seconds]) => seconds > 0)
+    .map(([role, seconds]) => ({ role, seconds }))
+    .sort((a, b) => b.seconds - a.seconds);
+
+// Band edits: zones must be named, in order from the top, and cover the whole field without gaps
+export const validateRoleZones = (zones: RoleZone[]): string | null => {
+  if (zones.length === 0) return 'Add at least one position.';
+  if (zones.length > MAX_ROLE_ZONES) return `At most ${MAX_ROLE_ZONES} positions are allowed.`;
+  const names = zones.map(z => z.role.trim());
+  if (names.some(name => !name)) return 'Every position needs a name.';
+  if (new Set(names.map(name => name.toLowerCase())).size !== names.length) return 'Position names must be unique.';
+  if (zones[0].minY !== 0 || zones[zones.length - 1].maxY !== 100) return 'Positions must cover the whole field.';
+  for (let i = 0; i < zones.length; i++) {
+    if (zones[i].maxY <= zones[i].minY) return `${names[i]} must end below where it starts.`;
+    if (i > 0 && zones[i].minY !== zones[i - 1].maxY) return `${names[i]} must start where ${names[i - 1]} ends.`;
+  }
+  return null;
+};
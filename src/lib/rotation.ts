@@ -0,0 +1,70 @@
+import { SubstitutionSwap, SubstitutionWave } from './substitutionWaves';
+
+// Fair-playtime rotation planner. From the players available now, it plans substitution waves for the rest of the
+// game so everyone ends up with roughly equal minutes: at each wave the bench players with the least (projected)
+// playtime come on for the field players with the most. Locked players (e.g. the goalkeeper) stay on throughout.
+// The waves are saved with the game as substitution waves (see lib/substitutionWaves).
+
+export type RotationWave = Pick<SubstitutionWave, 'period' | 'secondsIntoPeriod' | 'swaps'>;
+
+export interface RotationInput {
+  players: { id: string; location: 'field' | 'bench'; playtimeSeconds: number }[]; // Available players only
+  periodCount: number;
+  periodSeconds: number;
+  currentPeriod: number;
+  secondsIntoPeriod: number;
+  waveSeconds: number;
+  lockedPlayerIds: string[];
+}
+
+const MIN_PLAYTIME_GAP = 60; // A swap has to even out at least this much, so near-equal players aren't churned
+const LAST_WAVE_MARGIN = 60; // No wave in the last minute of a period
+
+// Wave times in seconds from the start of the game (nominal period lengths): at each period start except the
+// first, then every waveSeconds, from now on
+const getWaveTimes = (input: RotationInput): number[] => {
+  const now = (input.currentPeriod - 1) * input.periodSeconds + input.secondsIntoPeriod;
+  const times: number[] = [];
+  for (let period = input.currentPeriod; period <= input.periodCount; period++) {
+    const periodStart = (period - 1) * input.periodSeconds;
+    for (let offset = 0; offset < input.periodSeconds - LAST_WAVE_MARGIN; offset += input.waveSeconds) {
+      const time = periodStart + offset;
+      if (time > now || (time === now && time > 0)) times.push(time);
+    }
+  }
+  return times;
+};
+
+export const generateRotation = (input: RotationInput): { waves: RotationWave[]; projectedSeconds: Map<string, number> } => {
+  const projectedSeconds = new Map(input.players.map(p => [p.id, p.playtimeSeconds]));
+  const onField = new Set(input.players.filter(p => p.location === 'field').map(p => p.id));
+  const locked = new Set(input.lockedPlayerIds);
+  const gameEnd = input.periodCount * input.periodSeconds;
+  let cursor = (input.currentPeriod - 1) * input.periodSeconds + input.secondsIntoPeriod;
+
+  const addPlaytime = (until: number) => {
+    onField.forEach(id => projectedSeconds.set(id, (projectedSeconds.get(id) ?? 0) + (until - cursor)));
+    cursor = until;
+  };
+
+  const waves: RotationWave[] = [];
+  getWaveTimes(input).forEach(time => {
+    addPlaytime(time);
+    const byPlaytime = (a: string, b: string) => (projectedSeconds.get(a) ?? 0) - (projectedSeconds.get(b) ?? 0);
+    const outCandidates = [...onField].filter(id => !locked.has(id)).sort(byPlaytime).reverse();
+    const inCandidates = input.players.map(p => p.id).filter(id => !onField.has(id)).sort(byPlaytime);
+    const swaps: SubstitutionSwap[] = [];
+    for (let i = 0; i < Math.min(outCandidates.length, inCandidates.length); i++) {
+      const [outPlayerId, inPlayerId] = [outCandidates[i], inCandidates[i]];
+      if ((projectedSeconds.get(outPlayerId) ?? 0) - (projectedSeconds.get(inPlayerId) ?? 0) < MIN_PLAYTIME_GAP) break;
+      swaps.push({ inPlayerId, outPlayerId });
+    }
+    swaps.forEach(({ inPlayerId, outPlayerId }) => { onField.delete(outPlayerId); onField.add(inPlayerId); });
+    if (swaps.length > 0) {
+      const period = Math.floor(time / input.periodSeconds) + 1;
+      waves.push({ period, secondsIntoPeriod: time - (period - 1) * input.periodSeconds, swaps });
+    }
+  });
+  addPlaytime(Math.max(cursor, gameEnd));
+  return { waves, projectedSeconds };
+};
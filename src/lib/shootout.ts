@@ -0,0 +1,42 @@
+import { Game, GameEvent } from '../context/TeamContext';
+
+// Penalty shootouts. Each kick is an event after full time; the shootout decides the winner of a level game but is
+// kept out of home_score/away_score, which stay the regulation result.
+
+export type ShootoutKickType = Extract<GameEvent['type'], 'shootout_scored' | 'shootout_missed'>;
+
+export const isShootoutKick = (event: GameEvent): boolean => event.type === 'shootout_scored' || event.type === 'shootout_missed';
+
+// Kicks in the order they were taken
+export const getShootoutKicks = (events: GameEvent[]): GameEvent[] =>
+  events.filter(isShootoutKick).sort((a, b) => a.timestamp - b.timestamp);
+
+// Goals scored in the shootout per team; null when there was no shootout
+export const getShootoutScore = (events: GameEvent[]): { home: number; away: number } | null => {
+  const kicks = getShootoutKicks(events);
+  if (kicks.length === 0) return null;
+  return {
+    home: kicks.filter(k => k.team === 'home' && k.type === 'shootout_scored').length,
+    away: kicks.filter(k => k.team === 'away' && k.type === 'shootout_scored').length,
+  };
+};
+
+// The team to take the next kick: teams alternate, starting with whoever kicked first
+export const getNextShootoutTeam = (events: GameEvent[], firstTeam: 'home' | 'away'): 'home' | 'away' => {
+  const kicks = getShootoutKicks(events);
+  if (kicks.length === 0) return firstTeam;
+  if (kicks.length % 2 === 0) return kicks[0].team;
+  return kicks[0].team === 'home' ? 'away' : 'home';
+};
+
+// Result from our team's point of view; a level game decided on penalties counts as a win or loss
+export const getGameResult = (game: Pick<Game, 'location' | 'home_score' | 'away_score' | 'events'>): 'win' | 'loss' | 'draw' => {
+  const userScore = game.location === 'home' ? game.home_score ?? 0 : game.away_score ?? 0;
+  const opponentScore = game.location === 'home' ? game.away_score ?? 0 : game.home_score ?? 0;
+  if (userScore !== opponentScore) return userScore > opponentScore ? 'win' : 'loss';
+  const shootout = getShootoutScore(game.events ?? []);
+  if (!shootout || shootout.home === shootout.away) return 'draw';
+  const userShootout = game.location === 'home' ? shootout.home : shootout.away;
+  const opponentShootout = game.location === 'home' ? shootout.away : shootout.home;
+  return userShootout > opponentShootout ? 'win' : 'loss';
+};
@@ -0,0 +1,96 @@
+import { PeriodConfig } from './periods';
+import { StatEventType } from './statEvents';
+import { BUILT_IN_FORMATIONS, Formation } from './formations';
+import { GAME_FORMATS } from './gameFormats';
+
+// Sport definitions. The team's sport (teams.sport) drives the playing surface drawing, how points are scored, the
+// default period structure and formats for new games, and which stats are recorded and shown. A scoring event is
+// stored as a 'goal' event for every sport; its points (game_events.points) default to 1.
+
+export type SportId = 'soccer' | 'basketball' | 'field_hockey';
+
+export interface ScoringAction {
+  points: number;
+  label: string; // "Goal", "3 points"
+  assisted: boolean; // Whether to ask for an assist (not for free throws)
+}
+
+// Per-player stat columns on the team page; play time, attendance and starts are shown for every sport
+export type PlayerStatColumn = 'goals' | 'points' | 'assists' | 'yellowCards' | 'redCards' | 'shots' | 'shotsPerGoal' | 'saves' | 'fouls';
+
+export interface SportDefinition {
+  id: SportId;
+  label: string;
+  scoreLabel: string; // What a score is called: "Goal", "Basket"
+  scoringActions: ScoringAction[]; // A single action records straight away; several are offered as a choice
+  surfaceClassName: string; // Background of the playing surface
+  defaultPeriods: PeriodConfig;
+  formats: { label: string; fieldPlayerCount: number }[];
+  defaultFieldPlayerCount: number;
+  statEventTypes: StatEventType[]; // Stat events offered during a game, in order
+  playerStatColumns: PlayerStatColumn[];
+  hasGoalTypes: boolean; // Penalties, own goals, ... (see lib/goals)
+  hasCards: boolean;
+  hasShootout: boolean;
+  builtInFormations: Formation[];
+}
+
+export const SPORTS: SportDefinition[] = [
+  {
+    id: 'soccer',
+    label: 'Soccer',
+    scoreLabel: 'Goal',
+    scoringActions: [{ points: 1, label: 'Goal', assisted: true }],
+    surfaceClassName: 'bg-green-600',
+    defaultPeriods: { period_count: 2, period_minutes: 45, break_minutes: 15 },
+    formats: GAME_FORMATS,
+    defaultFieldPlayerCount: 11,
+    statEventTypes: ['shot_on_target', 'shot_off_target', 'save', 'corner', 'foul', 'offside'],
+    playerStatColumns: ['goals', 'assists', 'yellowCards', 'redCards', 'shots', 'shotsPerGoal', 'saves'],
+    hasGoalTypes: true,
+    hasCards: true,
+    hasShootout: true,
+    builtInFormations: BUILT_IN_FORMATIONS,
+  },
+  {
+    id: 'basketball',
+    label: 'Basketball',
+    scoreLabel: 'Basket',
+    scoringActions: [{ points: 1, label: 'Free throw', assisted: false }, { points: 2, label: '2 points', assisted: true }, { points: 3, label: '3 points', assisted: true }],
+    surfaceClassName: 'bg-amber-600',
+    defaultPeriods: { period_count: 4, period_minutes: 10, break_minutes: 2 },
+    formats: [{ label: '3x3', fieldPlayerCount: 3 }, { label: '5v5', fieldPlayerCount: 5 }],
+    defaultFieldPlayerCount: 5,
+    statEventTypes: ['shot_off_target', 'foul'],
+    playerStatColumns: ['points', 'assists', 'shots', 'fouls'],
+    hasGoalTypes: false,
+    hasCards: false,
+    hasShootout: false,
+    builtInFormations: [],
+  },
+  {
+    id: 'field_hockey',
+    label: 'Field hockey',
+    scoreLabel: 'Goal',
+    scoringActions: [{ points: 1, label: 'Goal', assisted: true }],
+    surfaceClassName: 'bg-blue-700',
+    defaultPeriods: { period_count: 4, period_minutes: 15, break_minutes: 5 },
+    formats: [{ label: '7v7', fieldPlayerCount: 7 }, { label: '11v11', fieldPlayerCount: 11 }],
+    defaultFieldPlayerCount: 11,
+    statEventTypes: ['shot_on_target', 'shot_off_target', 'save', 'corner', 'foul'],
+    playerStatColumns: ['goals', 'assists', 'yellowCards', 'redCards', 'shots', 'shotsPerGoal', 'saves'],
+    hasGoalTypes: false,
+    hasCards: true,
+    hasShootout: true,
+    builtInFormations: [],
+  },
+];
+
+export const DEFAULT_SPORT = SPORTS[0];
+
+// Unknown or missing values (teams created before sports existed) are soccer
+export const getSport = (sportId: string | null | undefined): SportDefinition =>
+  SPORTS.find(s => s.id === sportId) ?? DEFAULT_SPORT;
+
+export const getScoringAction = (sport: SportDefinition, points: number): ScoringAction =>
+  sport.scoringActions.find(a => a.points === points) ?? { points, label: `${points} points`, assisted: true };
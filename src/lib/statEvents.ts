@@ -0,0 +1,37 @@
+import { GameEvent } from '../context/TeamContext';
+import { getCreditedScorerId, isOwnGoal } from './goals';
+
+// Match stat events (shots, saves, corners, fouls, offsides). They don't change the score or the lineup and are only
+// totalled, so they stay out of the timeline. A goal counts as a shot on target (except own goals); it is not recorded twice.
+
+export type StatEventType = Extract<GameEvent['type'], 'shot_on_target' | 'shot_off_target' | 'save' | 'corner' | 'foul' | 'offside'>;
+
+export const STAT_EVENT_TYPES: { type: StatEventType; label: string; totalLabel: string; shortLabel: string }[] = [
+  { type: 'shot_on_target', label: 'Shot on target', totalLabel: 'Shots on target', shortLabel: 'On target' },
+  { type: 'shot_off_target', label: 'Shot off target', totalLabel: 'Shots off target', shortLabel: 'Off target' },
+  { type: 'save', label: 'Save', totalLabel: 'Saves', shortLabel: 'Save' },
+  { type: 'corner', label: 'Corner', totalLabel: 'Corners', shortLabel: 'Corner' },
+  { type: 'foul', label: 'Foul', totalLabel: 'Fouls', shortLabel: 'Foul' },
+  { type: 'offside', label: 'Offside', totalLabel: 'Offsides', shortLabel: 'Offside' },
+];
+
+export const isStatEvent = (event: GameEvent): boolean => STAT_EVENT_TYPES.some(s => s.type === event.type);
+
+export const getStatEventLabel = (type: StatEventType): string => STAT_EVENT_TYPES.find(s => s.type === type)?.label ?? type;
+
+export type StatCounts = Record<StatEventType, number> & { shots: number };
+
+// Totals for the events matching a filter; shots includes goals (on target) and both kinds of shot events
+const countStats = (events: GameEvent[], goalCount: number): StatCounts => {
+  const counts = Object.fromEntries(STAT_EVENT_TYPES.map(s => [s.type, 0])) as Record<StatEventType, number>;
+  events.forEach(e => { if (e.type in counts) counts[e.type as StatEventType]++; });
+  return { ...counts, shot_on_target: counts.shot_on_target + goalCount, shots: counts.shot_on_target + counts.shot_off_target + goalCount };
+};
+
+export const getTeamStatCounts = (events: GameEvent[], team: 'home' | 'away'): StatCounts => {
+  const teamEvents = events.filter(e => e.team === team);
+  return countStats(teamEvents, teamEvents.filter(e => e.type === 'goal' && !isOwnGoal(e)).length);
+};
+
+export const getPlayerStatCounts = (events: GameEvent[], playerId: string): StatCounts =>
+  countStats(events.filter(e => e.playerId === playerId), events.filter(e => getCreditedScorerId(e) === playerId).length);
@@ -0,0 +1,37 @@
+import { GameEvent, PlayerLineupState } from '../context/TeamContext';
+import { isSentOff } from './cards';
+
+// Stints: how long a player has been where they are now (on the field or on the bench), on the game clock. A stint
+// starts at the player's latest substitution or inactive event, or at kickoff. Moves made before the clock first
+// started aren't recorded as substitutions, so the starting lineup's stints all begin at kickoff.
+
+export const getStintStartSeconds = (events: GameEvent[], playerId: string): number =>
+  events.reduce((latest, e) => {
+    const isPlayerMove = (e.type === 'substitution' && (e.playerInId === playerId || e.playerOutId === playerId)) || (e.type === 'player_inactive' && e.playerId === playerId);
+    return isPlayerMove ? Math.max(latest, e.gameSeconds) : latest;
+  }, 0);
+
+// Current stint lengths of the players on the field or the bench (sent-off players excluded)
+export const getStintSeconds = (lineup: PlayerLineupState[], events: GameEvent[], gameSeconds: number): Map<string, number> =>
+  new Map(lineup
+    .filter(p => (p.location === 'field' || p.location === 'bench') && !isSentOff(events, p.id))
+    .map(p => [p.id, Math.max(0, gameSeconds - getStintStartSeconds(events, p.id))]));
+
+export interface BenchQueueEntry {
+  playerId: string;
+  deficitSeconds: number; // Behind an equal share of the field time so far (negative when ahead)
+  benchSeconds: number; // Since last on (or since kickoff)
+}
+
+// Bench players in the order they should come on: furthest behind their equal share first, then longest on the
+// bench. Deficits within the same minute count as equal, so seconds don't reshuffle the queue every tick.
+export const getBenchQueue = (lineup: PlayerLineupState[], events: GameEvent[], playtimes: Map<string, number>, gameSeconds: number): BenchQueueEntry[] => {
+  const stints = getStintSeconds(lineup, events, gameSeconds);
+  const available = lineup.filter(p => stints.has(p.id));
+  const fieldCount = available.filter(p => p.location === 'field').length;
+  const shareSeconds = available.length > 0 ? gameSeconds * fieldCount / available.length : 0;
+  return available
+    .filter(p => p.location === 'bench')
+    .map(p => ({ playerId: p.id, deficitSeconds: shareSeconds - (playtimes.get(p.id) ?? p.playtimeSeconds), benchSeconds: stints.get(p.id) ?? 0 }))
+    .sort((a, b) => Math.round(b.deficitSeconds / 60) - Math.round(a.deficitSeconds / 60) || b.benchSeconds - a.benchSeconds);
+};
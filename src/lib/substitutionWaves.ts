@@ -0,0 +1,63 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Game } from '../context/TeamContext';
+import { getPeriodName } from './periods';
+
+// Substitution waves: sets of swaps prepared ahead of time (by hand or by the rotation planner) and saved with the
+// game (games.substitution_waves). A wave is tied to a time within a period, so stoppage time doesn't move it; a
+// wave at the start of a later period is due during the break before it (e.g. at halftime). When its time comes,
+// the game screen loads its swaps into planning mode to be confirmed; confirmed or cancelled, it is then handled.
+
+export type SubstitutionSwap = {
+  inPlayerId: string;
+  outPlayerId: string;
+};
+
+export type SubstitutionWave = {
+  id: string;
+  period: number; // 1-based
+  secondsIntoPeriod: number;
+  swaps: SubstitutionSwap[];
+  isHandled: boolean;
+};
+
+type WaveGame = Pick<Game, 'period_count' | 'period_minutes'>;
+
+export const createWave = (period: number, secondsIntoPeriod: number, swaps: SubstitutionSwap[]): SubstitutionWave =>
+  ({ id: uuidv4(), period, secondsIntoPeriod, swaps, isHandled: false });
+
+// In the order they come due
+export const sortWaves = (waves: SubstitutionWave[]): SubstitutionWave[] =>
+  [...waves].sort((a, b) => a.period - b.period || a.secondsIntoPeriod - b.secondsIntoPeriod);
+
+// A game minute (nominal period lengths) as a wave time; a minute on a period boundary is the break after it
+export const getWaveTimeForMinute = (game: WaveGame, minute: number): Pick<SubstitutionWave, 'period' | 'secondsIntoPeriod'> => {
+  const period = Math.min(game.period_count, Math.floor(minute / game.period_minutes) + 1);
+  return { period, secondsIntoPeriod: Math.max(0, minute - (period - 1) * game.period_minutes) * 60 };
+};
+
+export const isBreakWave = (wave: Pick<SubstitutionWave, 'period' | 'secondsIntoPeriod'>): boolean => wave.period > 1 && wave.secondsIntoPeriod === 0;
+
+// "20'", "Halftime", "Before Q3"
+export const getWaveTimeLabel = (game: WaveGame, wave: Pick<SubstitutionWave, 'period' | 'secondsIntoPeriod'>): string => {
+  if (isBreakWave(wave)) return game.period_count === 2 ? 'Halftime' : `Before ${getPeriodName(game.period_count, wave.period)}`;
+  return `${(wave.period - 1) * game.period_minutes + Math.floor(wave.secondsIntoPeriod / 60)}'`;
+};
+
+// Whether a wave's time has come (during the break before its period, a wave at the period start is due)
+export const isWaveDue = (wave: SubstitutionWave, currentPeriod: number, secondsIntoPeriod: number): boolean =>
+  currentPeriod > wave.period || (currentPeriod === wave.period && secondsIntoPeriod >= wave.secondsIntoPeriod);
+
+// The latest unhandled wave that is due; earlier due waves it supersedes are handled along with it
+export const getDueWave = (waves: SubstitutionWave[], currentPeriod: number, secondsIntoPeriod: number): SubstitutionWave | null =>
+  sortWaves(waves).filter(w => !w.isHandled && isWaveDue(w, currentPeriod, secondsIntoPeriod)).pop() ?? null;
+
+// The waves to mark handled along with a wave: itself and any earlier unhandled waves it superseded
+export const markWavesHandled = (waves: SubstitutionWave[], handledWave: SubstitutionWave): SubstitutionWave[] =>
+  waves.filter(w => !w.isHandled && isWaveDue(w, handledWave.period, handledWave.secondsIntoPeriod)).map(w => ({ ...w, isHandled: true }));
+
+// Adds or replaces waves by id and removes the ones listed, leaving the rest as they are, so wave changes made on
+// two devices don't overwrite each other
+export const changeWaves = (waves: SubstitutionWave[], changedWaves: SubstitutionWave[], removedWaveIds: string[] = []): SubstitutionWave[] => {
+  const replacedIds = new Set([...changedWaves.map(w => w.id), ...removedWaveIds]);
+  return sortWaves([...waves.filter(w => !replacedIds.has(w.id)), ...changedWaves]);
+};
@@ -1,12 +1,15 @@
 import { createClient } from '@supabase/supabase-js'
+import { Database } from './database.types'
 
 // Ensure environment variables are loaded
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Supabase URL and Anon Key must be defined in .env file")
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+if (!isSupabaseConfigured) {
+  console.warn("Supabase URL and Anon Key are not defined in .env file - only the local (no account) mode is available.")
 }
 
-// Create a single supabase client for interacting with your database
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Create a single supabase client for interacting with your database (null when not configured)
+export const supabase = isSupabaseConfigured ? createClient<Database>(supabaseUrl, supabaseAnonKey) : null
@@ -0,0 +1,41 @@
+// Team logos are shown at most 40px (80px on high-DPI screens) in the header; 256px leaves room for larger uses
+const LOGO_MAX_SIZE = 256;
+const LOGO_TYPE = 'image/webp'; // Browsers that cannot encode WebP fall back to PNG
+const LOGO_QUALITY = 0.85;
+
+export const isDataUrl = (url: string | null | undefined): url is string => !!url && url.startsWith('data:');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => { URL.revokeObjectURL(url); resolve(image); };
+    image.onerror = () => { URL.revokeObjectURL(url); reject(new Error('The selected file is not a supported image.')); };
+    image.src = url;
+  });
+
+// Scales the image down (never up) to fit LOGO_MAX_SIZE and re-encodes it, keeping transparency
+export const resizeLogo = async (image: Blob): Promise<Blob> => {
+  const source = await loadImage(image);
+  const scale = Math.min(1, LOGO_MAX_SIZE / Math.max(source.naturalWidth, source.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(source.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process the image.');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not process the image.'))), LOGO_TYPE, LOGO_QUALITY);
+  });
+};
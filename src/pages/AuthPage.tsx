@@ -1,10 +1,25 @@
 import React, { useState } from 'react';
 import LoginForm from '../components/LoginForm';
 import SignUpForm from '../components/SignUpForm';
-import { Shield } from 'lucide-react'; // Using Shield as a generic app icon
+import { Shield, UserRound } from 'lucide-react'; // Using Shield as a generic app icon
+import { startGuestMode } from '../data';
+import { isSupabaseConfigured } from '../lib/supabaseClient';
 
 const AuthPage: React.FC = () => {
   const [showLogin, setShowLogin] = useState(true);
+  const [startingGuest, setStartingGuest] = useState(false);
+
+  // Guest mode keeps all data on this device (IndexedDB) - no account or Supabase project needed
+  const handleTryWithoutAccount = async () => {
+    setStartingGuest(true);
+    try {
+      await startGuestMode(); // App.tsx picks up the guest session
+    } catch (error) {
+      console.error('Error starting guest mode:', error);
+      alert(`Failed to start without an account: ${(error as Error).message}`);
+      setStartingGuest(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-red-100 via-white to-blue-100 flex items-center justify-center p-4">
@@ -32,6 +47,21 @@ const AuthPage: React.FC = () => {
                 : 'Already have an account? Log In'}
             </button>
           </div>
+
+          <div className="mt-6 pt-6 border-t border-gray-200 text-center">
+            {!isSupabaseConfigured && (
+              <p className="text-xs text-gray-500 mb-3">Accounts are not configured for this app. You can still use it on this device.</p>
+            )}
+            <button
+              onClick={handleTryWithoutAccount}
+              disabled={startingGuest}
+              className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50 transition duration-150 ease-in-out"
+            >
+              <UserRound size={16} className="mr-1.5" />
+              {startingGuest ? 'Starting...' : 'Try without an account'}
+            </button>
+            <p className="text-xs text-gray-400 mt-1">Your team is saved on this device only.</p>
+          </div>
         </div>
       </div>
     </div>
@@ -1,22 +1,50 @@
 import React, { useContext, useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import {
   ArrowLeft, MoreVertical, Play, Pause, Square, Calendar, RotateCcw, UserX,
-  ArrowRightLeft, Check, X as CancelIcon, Clock, Trophy, Repeat, MinusCircle, Loader2
+  ArrowRightLeft, Check, X as CancelIcon, Clock, Trophy, Repeat, MinusCircle, Loader2, Undo2, Redo2, Flag, Bell, LayoutGrid, CalendarClock, ListOrdered
 } from 'lucide-react';
 import { TeamContext, Game, Player, PlayerLineupState, PlayerLineupStructure, GameEvent, GameData } from '../context/TeamContext';
 import TeamDisplay from '../components/TeamDisplay';
 import EditGameModal from '../components/EditGameModal';
 import ConfirmModal from '../components/ConfirmModal';
+import EditEventModal from '../components/EditEventModal';
+import ClockSettingsModal from '../components/ClockSettingsModal';
+import AddCardModal from '../components/AddCardModal';
+import ShootoutModal from '../components/ShootoutModal';
+import InactiveReasonDialog from '../components/InactiveReasonDialog';
+import StatEventBar from '../components/StatEventBar';
 import PlayerIcon from '../components/PlayerIcon';
 import SelectPlayerDialog from '../components/SelectPlayerDialog';
+import GoalTypeDialog from '../components/GoalTypeDialog';
+import ScoringActionDialog from '../components/ScoringActionDialog';
+import FormationModal from '../components/FormationModal';
+import RotationPlannerModal from '../components/RotationPlannerModal';
+import SubstitutionWavesModal from '../components/SubstitutionWavesModal';
+import FieldLines from '../components/FieldLines';
 import GameSummary from '../components/GameSummary';
+import SyncStatusIndicator from '../components/SyncStatusIndicator';
 import { useDrop, useDrag, DropTargetMonitor, DragSourceMonitor } from 'react-dnd';
+import { getCurrentPeriod, getPeriodName, getPeriodStartSeconds } from '../lib/periods';
+import { ClockSettings, loadClockSettings, saveClockSettings } from '../lib/clockSettings';
+import { playAlertBeep, unlockAlertSound } from '../lib/alertSound';
+import { CardType, getAllowedFieldPlayerCount, getCardCounts, isSentOff } from '../lib/cards';
+import { StatEventType, getStatEventLabel } from '../lib/statEvents';
+import { GoalType } from '../lib/goals';
+import { getShootoutKicks, getShootoutScore } from '../lib/shootout';
+import { InactiveReason, getInactiveReason, getInactiveReasonLabel } from '../lib/inactiveReasons';
+import { assignToFormation, createFormation, findFormation, isBuiltInFormation, isSamePosition, snapToSlot } from '../lib/formations';
+import { getExpectedFieldPlayerCount, getGameFormatLabel } from '../lib/gameFormats';
+import { getScoringAction, SportId } from '../lib/sports';
+import { getRoleForPosition } from '../lib/roles';
+import { getDueWave, getWaveTimeLabel, markWavesHandled, SubstitutionWave } from '../lib/substitutionWaves';
+import { getBenchQueue, getStintSeconds } from '../lib/stints';
 
 // --- Constants & Helpers ---
 const ItemTypes = { PLAYER: 'player', PLANNING_PLAYER: 'planning_player' };
 const ICON_WIDTH_APPROX = 40;
 const ICON_HEIGHT_APPROX = 58;
 const LONG_PRESS_DURATION = 500;
+const EMPTY_EVENT_COUNTS = { goals: 0, assists: 0, yellowCards: 0, isSentOff: false };
 
 const formatTimer = (totalSeconds: number): string => {
   const minutes = Math.floor(totalSeconds / 60);
@@ -56,6 +84,7 @@ const createDefaultLineup = (players: Player[]): PlayerLineupState[] => {
     position: undefined,
     initialPosition: undefined,
     playtimeSeconds: 0,
+    rolePlaytimeSeconds: {},
     playtimerStartTime: null,
     isStarter: false,
     subbedOnCount: 0,
@@ -74,25 +103,29 @@ interface DraggablePlayerProps {
   totalGameSeconds: number;
   goalCount: number;
   assistCount: number;
+  yellowCardCount: number;
+  isSentOff: boolean; // Sent-off players stay out of play for the rest of the game
+  inactiveReasonLabel?: string | null;
   initialPosition?: { x: number; y: number };
 }
 
 const DraggablePlayer: React.FC<DraggablePlayerProps> = ({
   player, lineupState, fieldWidth, fieldHeight, playtimeDisplaySeconds,
-  totalGameSeconds, goalCount, assistCount, initialPosition
+  totalGameSeconds, goalCount, assistCount, yellowCardCount, isSentOff, inactiveReasonLabel, initialPosition
 }) => {
   const [{ isDragging }, drag] = useDrag(() => ({
     type: ItemTypes.PLAYER,
     item: { id: lineupState.id, location: lineupState.location, position: lineupState.position },
+    canDrag: !isSentOff,
     collect: (monitor: DragSourceMonitor) => ({ isDragging: !!monitor.isDragging() }),
-  }), [lineupState.id, lineupState.location, lineupState.position]);
+  }), [lineupState.id, lineupState.location, lineupState.position, isSentOff]);
 
   const hasSubCounters = lineupState.subbedOnCount > 0 || lineupState.subbedOffCount > 0;
   const currentIconHeight = ICON_HEIGHT_APPROX + (hasSubCounters ? 16 : 0);
 
   const style: React.CSSProperties = {
     opacity: isDragging ? 0.5 : 1,
-    cursor: 'move',
+    cursor: isSentOff ? 'not-allowed' : 'move',
     position: lineupState.location === 'field' ? 'absolute' : 'relative',
     zIndex: lineupState.location === 'field' ? 10 : 1,
     minWidth: `${ICON_WIDTH_APPROX}px`,
@@ -123,6 +156,9 @@ const DraggablePlayer: React.FC<DraggablePlayerProps> = ({
         subbedOffCount={lineupState.subbedOffCount}
         goalCount={goalCount}
         assistCount={assistCount}
+        yellowCardCount={yellowCardCount}
+        isSentOff={isSentOff}
+        inactiveReasonLabel={inactiveReasonLabel}
         initialPosition={initialPosition}
       />
     </div>
@@ -136,9 +172,11 @@ interface DropZoneProps {
   className?: string;
   location: 'field' | 'bench' | 'inactive';
   fieldRef?: React.RefObject<HTMLDivElement>;
+  sport?: SportId; // For the field markings
+  fieldPlayerCount?: number | null; // The game format, for the field markings
 }
 
-const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className, location, fieldRef }) => {
+const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className, location, fieldRef, sport, fieldPlayerCount }) => {
   const [{ isOver }, drop] = useDrop(() => ({
     accept: ItemTypes.PLAYER,
     drop: (item: { id: string; location: 'field' | 'bench' | 'inactive'; position?: { x: number; y: number } }, monitor: DropTargetMonitor) => {
@@ -174,12 +212,7 @@ const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className,
         style={{ position: 'relative', width: '100%', height: '100%' }}
       >
         {/* Field Markings */}
-        <div className="absolute bottom-0 left-[20%] w-[60%] md:left-[25%] md:w-[50%] h-[18%] border-2 border-white/50 border-b-0"></div>
-        <div className="absolute bottom-0 left-[38%] w-[24%] md:left-[40%] md:w-[20%] h-[6%] border-2 border-white/50 border-b-0"></div>
-        <div className="absolute bottom-[18%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[10%] border-2 border-white/50 border-b-0 rounded-t-full"></div>
-        <div className="absolute top-[-12%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[24%] border-2 border-white/50 border-t-0 rounded-b-full"></div>
-        <div className="absolute bottom-[-5%] left-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-l-0 rounded-tr-full"></div>
-        <div className="absolute bottom-[-5%] right-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-r-0 rounded-tl-full"></div>
+        <FieldLines sport={sport} fieldPlayerCount={fieldPlayerCount} />
         {children}
       </div>
     );
@@ -264,9 +297,10 @@ interface GamePageProps {
 const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
   const context = useContext(TeamContext);
   const {
-    games, gamesLoading, players, teamData, setCurrentPage, updateGame, deleteGame,
-    startGameTimer, stopGameTimer, markGameAsFinished, resetGameLineup,
-    movePlayerInGame, addGameEvent, removeLastGameEvent
+    games, gamesLoading, players, teamData, setCurrentPage, updateGame, deleteGame, changeSubstitutionWaves,
+    startGameTimer, stopGameTimer, endGamePeriod, markGameAsFinished, resetGameLineup,
+    movePlayerInGame, addGameEvent, addCardEvent, addStatEvent, addShootoutKick, addInactiveEvent, removeLastGameEvent, updateGameEvents, deleteGameEvents, syncStatus,
+    actionHistory, runGameAction, undoGameAction, redoGameAction, formations, updateTeamFormationsInDb, sport, roleZones
   } = context;
 
   const currentTeamName = teamData?.name || 'Your Team';
@@ -279,6 +313,12 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
   const [isConfirmEditFinishedOpen, setIsConfirmEditFinishedOpen] = useState(false);
   const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [gameDisplaySeconds, setGameDisplaySeconds] = useState(0);
+  const [breakRemainingSeconds, setBreakRemainingSeconds] = useState(0);
+  const [clockSettings, setClockSettings] = useState<ClockSettings>(loadClockSettings);
+  const [isClockSettingsOpen, setIsClockSettingsOpen] = useState(false);
+  const [clockAlert, setClockAlert] = useState<{ message: string; isPeriodOver: boolean } | null>(null);
+  const lastRemainingRef = useRef<{ period: number; seconds: number } | null>(null);
+  const lastStintsRef = useRef<Map<string, number> | null>(null);
   const [playerDisplayTimes, setPlayerDisplayTimes] = useState<Map<string, number>>(new Map());
   const fieldContainerRef = useRef<HTMLDivElement>(null);
   const fieldItselfRef = useRef<HTMLDivElement>(null);
@@ -292,8 +332,23 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
   const [isAssistDialogVisible, setIsAssistDialogVisible] = useState(false);
   const [selectedScorerId, setSelectedScorerId] = useState<string | null>(null);
   const [goalTeamTarget, setGoalTeamTarget] = useState<'home' | 'away' | null>(null);
+  const [isGoalTypeDialogVisible, setIsGoalTypeDialogVisible] = useState(false);
+  const [isOwnGoalDialogVisible, setIsOwnGoalDialogVisible] = useState(false); // Which of our players scored an opponent's own goal
+  const [selectedGoalType, setSelectedGoalType] = useState<GoalType | null>(null);
+  const [isScoringActionDialogVisible, setIsScoringActionDialogVisible] = useState(false); // Sports with several ways to score ask the points first
+  const [selectedPoints, setSelectedPoints] = useState(1);
   const [isConfirmDecrementOpen, setIsConfirmDecrementOpen] = useState(false);
   const [decrementTargetTeam, setDecrementTargetTeam] = useState<'home' | 'away' | null>(null);
+  const [editingEvents, setEditingEvents] = useState<GameEvent[] | null>(null);
+  const [isCardModalOpen, setIsCardModalOpen] = useState(false);
+  const [isShootoutOpen, setIsShootoutOpen] = useState(false);
+  const [isFormationModalOpen, setIsFormationModalOpen] = useState(false);
+  const [isRotationPlannerOpen, setIsRotationPlannerOpen] = useState(false);
+  const [rotationPlannerKey, setRotationPlannerKey] = useState(0); // Remounts the planner so each opening starts fresh
+  const [isWavesModalOpen, setIsWavesModalOpen] = useState(false);
+  const [activeWaveId, setActiveWaveId] = useState<string | null>(null); // The substitution wave loaded into planning mode
+  const [pendingInactiveMove, setPendingInactiveMove] = useState<{ playerId: string; sourceLocation: PlayerLineupState['location'] } | null>(null); // Waiting for a reason
+  const [pendingStatEvent, setPendingStatEvent] = useState<{ type: StatEventType; team: 'home' | 'away' } | null>(null); // Our team's stat waiting for a player
   const longPressTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [isActionLoading, setIsActionLoading] = useState(false);
 
@@ -302,11 +357,15 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
     if (!gameId) return null;
     return games.find(g => g.id === gameId) || null;
   }, [gameId, games]);
+  const activeFormation = useMemo(() => findFormation(formations, game?.formation_id), [formations, game?.formation_id]);
 
   // --- Game State Logic ---
   const isFinished = useMemo(() => game?.is_explicitly_finished === true, [game]);
   const isRunning = useMemo(() => game?.timer_status === 'running', [game]);
   const isPaused = useMemo(() => game?.timer_status === 'stopped' && (game?.timer_elapsed_seconds ?? 0) > 0 && !isFinished, [game, isFinished]);
+  const isBreak = useMemo(() => !!game?.break_start_time && !isFinished && !isRunning, [game, isFinished, isRunning]);
+  const currentPeriod = game ? getCurrentPeriod(game) : 1; // During a break, the period about to start
+  const currentPeriodName = game ? getPeriodName(game.period_count, currentPeriod) : '';
   const isNotStarted = useMemo(() => game?.timer_status === 'stopped' && (game?.timer_elapsed_seconds ?? 0) === 0 && !isFinished, [game, isFinished]);
 
   // NEW: Determine if the game is upcoming
@@ -329,6 +388,97 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
     return () => { if (intervalId) clearInterval(intervalId); };
   }, [isRunning, game?.timerStartTime, game?.timer_elapsed_seconds, game?.id]);
 
+  // Counts down the configured break; it only informs, the next period starts when the timer is tapped
+  useEffect(() => {
+    if (!isBreak || !game?.break_start_time) return;
+    const breakEndTime = new Date(game.break_start_time).getTime() + (game.break_minutes ?? 0) * 60 * 1000;
+    const updateBreak = () => setBreakRemainingSeconds(Math.max(0, (breakEndTime - Date.now()) / 1000));
+    updateBreak();
+    const intervalId = setInterval(updateBreak, 1000);
+    return () => clearInterval(intervalId);
+  }, [isBreak, game?.break_start_time, game?.break_minutes]);
+
+  // Clock alerts fire when the time left in the period crosses a threshold while the clock runs,
+  // so pausing, reopening the page or undoing never replays an alert that was already given
+  useEffect(() => {
+    if (!game || !isRunning) { lastRemainingRef.current = null; return; }
+    const remaining = game.period_minutes * 60 - (gameDisplaySeconds - getPeriodStartSeconds(game, currentPeriod));
+    const previous = lastRemainingRef.current;
+    lastRemainingRef.current = { period: currentPeriod, seconds: remaining };
+    if (!previous || previous.period !== currentPeriod) return;
+    const hasCrossed = (thresholdSeconds: number) => previous.seconds > thresholdSeconds && remaining <= thresholdSeconds;
+
+    let nextAlert: { message: string; isPeriodOver: boolean } | null = null;
+    if (clockSettings.alertAtPeriodEnd && hasCrossed(0)) {
+      nextAlert = { message: game.period_count === 1 ? 'Time is up' : `End of ${currentPeriodName}`, isPeriodOver: true };
+    } else {
+      const minutes = clockSettings.alertMinutes.find(m => hasCrossed(m * 60));
+      if (minutes !== undefined) nextAlert = { message: `${minutes} min left in ${currentPeriodName}`, isPeriodOver: false };
+    }
+    if (!nextAlert) return;
+    setClockAlert(nextAlert);
+    if (clockSettings.sound) playAlertBeep(nextAlert.isPeriodOver ? 3 : 1);
+    navigator.vibrate?.(nextAlert.isPeriodOver ? [300, 150, 300, 150, 300] : 300);
+  }, [game, isRunning, gameDisplaySeconds, currentPeriod, currentPeriodName, clockSettings]);
+
+  // Playtime alerts work like the clock alerts: they fire when a player's current stint crosses the limit while the
+  // clock runs. A substitution starts a new stint, so it never crosses a limit by itself.
+  useEffect(() => {
+    const { fieldStintMinutes, benchStintMinutes } = clockSettings;
+    if (!game || !isRunning || (fieldStintMinutes === null && benchStintMinutes === null)) { lastStintsRef.current = null; return; }
+    const stints = getStintSeconds(game.lineup, game.events, gameDisplaySeconds);
+    const previous = lastStintsRef.current;
+    lastStintsRef.current = stints;
+    if (!previous) return;
+    const getCrossedNames = (location: 'field' | 'bench', limitMinutes: number | null) => limitMinutes === null ? [] : game.lineup
+      .filter(p => p.location === location && (previous.get(p.id) ?? Infinity) < limitMinutes * 60 && (stints.get(p.id) ?? 0) >= limitMinutes * 60)
+      .map(p => players.find(player => player.id === p.id)?.first_name ?? 'Unknown');
+
+    const fieldNames = getCrossedNames('field', fieldStintMinutes);
+    const benchNames = getCrossedNames('bench', benchStintMinutes);
+    const messages = [
+      ...(fieldNames.length > 0 ? [`${fieldNames.join(', ')}: ${fieldStintMinutes} min on the field`] : []),
+      ...(benchNames.length > 0 ? [`${benchNames.join(', ')}: ${benchStintMinutes} min on the bench`] : []),
+    ];
+    if (messages.length === 0) return;
+    setClockAlert({ message: messages.join(' · '), isPeriodOver: false });
+    if (clockSettings.sound) playAlertBeep(1);
+    navigator.vibrate?.(300);
+  }, [game, isRunning, gameDisplaySeconds, clockSettings, players]);
+
+  useEffect(() => {
+    if (!clockAlert) return;
+    const timeoutId = setTimeout(() => setClockAlert(null), 10000);
+    return () => clearTimeout(timeoutId);
+  }, [clockAlert]);
+
+  // --- Substitution Waves ---
+  const handleChangeWaves = useCallback((waves: SubstitutionWave[], removedWaveIds?: string[]) => { if (game) changeSubstitutionWaves(game.id, waves, removedWaveIds); }, [game, changeSubstitutionWaves]);
+
+  // When a wave's time comes, its swaps are loaded into planning mode for the coach to confirm or cancel; the wave is
+  // handled then, so a reload before that offers it again. Waves missed while the page was closed are skipped in
+  // favour of the latest due one; swaps that no longer fit the lineup (the player coming on isn't on the bench, or
+  // the one going off isn't on the field) are dropped.
+  useEffect(() => {
+    if (!game || isFinished || isPlanningSubs || isActionLoading || !(isRunning || isPaused || isBreak)) return;
+    const wave = getDueWave(game.substitution_waves, currentPeriod, gameDisplaySeconds - getPeriodStartSeconds(game, currentPeriod));
+    if (!wave) return;
+
+    const swaps = new Map<string, { targetFieldPlayerId: string; targetPosition: { x: number; y: number } | undefined }>();
+    wave.swaps.forEach(({ inPlayerId, outPlayerId }) => {
+      const incoming = game.lineup.find(p => p.id === inPlayerId);
+      const outgoing = game.lineup.find(p => p.id === outPlayerId);
+      if (incoming?.location === 'bench' && outgoing?.location === 'field' && !isSentOff(game.events, inPlayerId)) swaps.set(inPlayerId, { targetFieldPlayerId: outPlayerId, targetPosition: outgoing.position });
+    });
+    if (swaps.size === 0) { handleChangeWaves(markWavesHandled(game.substitution_waves, wave)); return; }
+    setActiveWaveId(wave.id);
+    setPlannedSwaps(swaps);
+    setIsPlanningSubs(true);
+    setClockAlert({ message: `Substitutions due (${getWaveTimeLabel(game, wave)}): ${swaps.size} change${swaps.size === 1 ? '' : 's'}`, isPeriodOver: false });
+    if (clockSettings.sound) playAlertBeep(2);
+    navigator.vibrate?.([300, 150, 300]);
+  }, [game, isFinished, isPlanningSubs, isActionLoading, isRunning, isPaused, isBreak, gameDisplaySeconds, currentPeriod, clockSettings, handleChangeWaves]);
+
   useEffect(() => {
     const clearAllPlayerIntervals = () => { playerIntervalsRef.current.forEach(clearInterval); playerIntervalsRef.current.clear(); };
     clearAllPlayerIntervals();
@@ -411,32 +561,56 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
   const handleCancelEditFinished = () => { setIsConfirmEditFinishedOpen(false); setPendingAction(null); };
   const handleEditClick = () => { setIsMenuOpen(false); confirmAction(() => setIsEditModalOpen(true)); };
   const handleDeleteClick = () => { setIsMenuOpen(false); setIsConfirmDeleteOpen(true); };
+  const handleClockSettingsClick = () => { setIsMenuOpen(false); setIsClockSettingsOpen(true); };
+  const handleSaveClockSettings = (settings: ClockSettings) => { saveClockSettings(settings); setClockSettings(settings); };
   const handleConfirmDelete = async () => { if (game) { setIsActionLoading(true); await deleteGame(game.id); setIsConfirmDeleteOpen(false); setIsActionLoading(false); handleGoBack(); } };
-  const handleTimerClick = useCallback(async (e: React.MouseEvent) => { e.stopPropagation(); if (!game || isFinished || isActionLoading) return; setIsActionLoading(true); if (isRunning) { await stopGameTimer(game.id); } else { const gameDT = new Date(`${game.game_date}T${game.game_time || '00:00:00'}`); const isFut = gameDT > new Date(); const hasNR = (game.timer_elapsed_seconds ?? 0) === 0 && !game.timerStartTime; const shouldStart = !isFut || !hasNR || window.confirm('Start future game now? Date/time will update.'); if (shouldStart) { await startGameTimer(game.id); } } setIsActionLoading(false); }, [game, isFinished, isRunning, stopGameTimer, startGameTimer, isActionLoading]);
-  const handleEndGame = useCallback(async () => { if (game && !isActionLoading) { setIsActionLoading(true); await markGameAsFinished(game.id); setIsActionLoading(false); } }, [game, markGameAsFinished, isActionLoading]);
+  const handleTimerClick = useCallback(async (e: React.MouseEvent) => { e.stopPropagation(); if (!game || isFinished || isActionLoading) return; unlockAlertSound(); setIsActionLoading(true); if (isRunning) { await runGameAction(game.id, 'Pause timer', () => stopGameTimer(game.id)); } else { const gameDT = new Date(`${game.game_date}T${game.game_time || '00:00:00'}`); const isFut = gameDT > new Date(); const hasNR = (game.timer_elapsed_seconds ?? 0) === 0 && !game.timerStartTime; const shouldStart = !isFut || !hasNR || window.confirm('Start future game now? Date/time will update.'); if (shouldStart) { await runGameAction(game.id, isBreak ? `Start ${currentPeriodName}` : 'Start timer', () => startGameTimer(game.id)); } } setIsActionLoading(false); }, [game, isFinished, isRunning, isBreak, currentPeriodName, stopGameTimer, startGameTimer, runGameAction, isActionLoading]);
+  const handleEndPeriod = useCallback(async () => { if (game && !isActionLoading) { setIsActionLoading(true); await runGameAction(game.id, `End ${currentPeriodName}`, () => endGamePeriod(game.id)); setIsActionLoading(false); } }, [game, currentPeriodName, endGamePeriod, runGameAction, isActionLoading]);
+  const handleEndGame = useCallback(async () => { if (game && !isActionLoading) { setIsActionLoading(true); await runGameAction(game.id, 'End game', () => markGameAsFinished(game.id)); setIsActionLoading(false); } }, [game, markGameAsFinished, runGameAction, isActionLoading]);
 
   // --- Goal/Assist Handlers ---
-  const handleScoreClick = (team: 'home' | 'away') => { if (!game || isFinished || isActionLoading) return; const isUserTeam = (game.location === 'home' && team === 'home') || (game.location === 'away' && team === 'away'); if (isUserTeam) { setGoalTeamTarget(team); setIsGoalDialogVisible(true); } else { handleAddOpponentGoal(team); } };
-  const handleAddOpponentGoal = async (team: 'home' | 'away') => { if (!game || isActionLoading) return; setIsActionLoading(true); await addGameEvent(game.id, team, null); setIsActionLoading(false); };
-  const handleSelectScorer = (playerId: string) => { setSelectedScorerId(playerId); setIsGoalDialogVisible(false); setIsAssistDialogVisible(true); };
-  const handleCancelGoalDialog = async () => { if (!game || !goalTeamTarget || isActionLoading) return; setIsActionLoading(true); await addGameEvent(game.id, goalTeamTarget, null); setIsActionLoading(false); setIsGoalDialogVisible(false); setGoalTeamTarget(null); };
-  const handleCloseGoalDialog = async () => { if (!game || !goalTeamTarget || isActionLoading) return; setIsActionLoading(true); await addGameEvent(game.id, goalTeamTarget, null); setIsActionLoading(false); setIsGoalDialogVisible(false); setGoalTeamTarget(null); };
-  const handleSelectAssister = async (playerId: string) => { if (!game || !goalTeamTarget || !selectedScorerId || isActionLoading) return; setIsActionLoading(true); await addGameEvent(game.id, goalTeamTarget, selectedScorerId, playerId); setIsActionLoading(false); setIsAssistDialogVisible(false); setSelectedScorerId(null); setGoalTeamTarget(null); };
-  const handleCancelAssistDialog = async () => { if (!game || !goalTeamTarget || !selectedScorerId || isActionLoading) return; setIsActionLoading(true); await addGameEvent(game.id, goalTeamTarget, selectedScorerId, null); setIsActionLoading(false); setIsAssistDialogVisible(false); setSelectedScorerId(null); setGoalTeamTarget(null); };
+  const handleScoreClick = (team: 'home' | 'away') => { if (!game || isFinished || isActionLoading) return; setGoalTeamTarget(team); setSelectedScorerId(null); setSelectedGoalType(null); setSelectedPoints(sport.scoringActions[0].points); if (sport.scoringActions.length > 1) { setIsScoringActionDialogVisible(true); } else { showScorerStep(team, sport.scoringActions[0].points); } };
+  // Our scores ask the scorer; the opponent's ask the goal type, or are recorded straight away when the sport has none
+  const showScorerStep = (team: 'home' | 'away', points: number) => { if (!game) return; if (team === game.location) { setIsGoalDialogVisible(true); } else if (sport.hasGoalTypes) { setIsGoalTypeDialogVisible(true); } else { recordGoal(null, null, null, null, team, points); } };
+  const handleSelectScoringAction = (points: number) => { if (!goalTeamTarget) return; setSelectedPoints(points); setIsScoringActionDialogVisible(false); showScorerStep(goalTeamTarget, points); };
+  const recordGoal = async (scorerId: string | null, assistId: string | null, goalType: GoalType | null, ownGoalPlayerId: string | null = null, team = goalTeamTarget, points = selectedPoints) => { if (!game || !team || isActionLoading) return; setIsActionLoading(true); const label = goalType === 'own_goal' ? 'Own goal' : sport.scoringActions.length > 1 ? getScoringAction(sport, points).label : sport.scoreLabel; await runGameAction(game.id, label, () => addGameEvent(game.id, team, scorerId, assistId, goalType, ownGoalPlayerId, points)); setIsActionLoading(false); setIsGoalDialogVisible(false); setIsGoalTypeDialogVisible(false); setIsAssistDialogVisible(false); setIsOwnGoalDialogVisible(false); setSelectedScorerId(null); setSelectedGoalType(null); setGoalTeamTarget(null); };
+  // Without goal types the scorer goes straight on to the assist (unless the score can't be assisted, like a free throw)
+  const handleSelectScorer = (playerId: string) => { setSelectedScorerId(playerId); setIsGoalDialogVisible(false); if (sport.hasGoalTypes) { setIsGoalTypeDialogVisible(true); } else if (getScoringAction(sport, selectedPoints).assisted) { setIsAssistDialogVisible(true); } else { recordGoal(playerId, null, null); } };
+  const handleCancelGoalDialog = () => { setSelectedScorerId(null); setIsGoalDialogVisible(false); if (sport.hasGoalTypes) { setIsGoalTypeDialogVisible(true); } else { recordGoal(null, null, null); } }; // No scorer: still ask the type if the sport has them (e.g. an opponent own goal)
+  const handleCloseGoalDialog = () => recordGoal(null, null, null);
+  // Own goals credit no one; our goals with a scorer go on to the assist (except penalties), everything else is recorded now
+  const handleSelectGoalType = (goalType: GoalType | null) => { if (!game || !goalTeamTarget) return; const isUserTeam = goalTeamTarget === game.location; if (goalType === 'own_goal' && !isUserTeam) { setSelectedGoalType(goalType); setIsGoalTypeDialogVisible(false); setIsOwnGoalDialogVisible(true); } else if (goalType !== 'own_goal' && goalType !== 'penalty' && selectedScorerId) { setSelectedGoalType(goalType); setIsGoalTypeDialogVisible(false); setIsAssistDialogVisible(true); } else { recordGoal(goalType === 'own_goal' ? null : selectedScorerId, null, goalType); } };
+  const handleSelectAssister = (playerId: string) => { if (!selectedScorerId) return; recordGoal(selectedScorerId, playerId, selectedGoalType); };
+  const handleCancelAssistDialog = () => { if (!selectedScorerId) return; recordGoal(selectedScorerId, null, selectedGoalType); };
 
   // --- Score Decrement Handlers ---
   const handleScoreInteractionStart = (team: 'home' | 'away') => { if (!game || isFinished || isActionLoading) return; if (longPressTimerRef.current) { clearTimeout(longPressTimerRef.current); longPressTimerRef.current = null; } longPressTimerRef.current = setTimeout(() => { setDecrementTargetTeam(team); setIsConfirmDecrementOpen(true); longPressTimerRef.current = null; }, LONG_PRESS_DURATION); };
   const handleScoreInteractionEnd = () => { if (longPressTimerRef.current) { clearTimeout(longPressTimerRef.current); longPressTimerRef.current = null; } };
   const handleScoreContextMenu = (e: React.MouseEvent, team: 'home' | 'away') => { e.preventDefault(); if (!game || isFinished || isActionLoading) return; setDecrementTargetTeam(team); setIsConfirmDecrementOpen(true); };
-  const handleConfirmDecrementScore = async () => { if (game && decrementTargetTeam && !isActionLoading) { setIsActionLoading(true); await removeLastGameEvent(game.id, decrementTargetTeam); setIsActionLoading(false); } setIsConfirmDecrementOpen(false); setDecrementTargetTeam(null); };
+  const handleConfirmDecrementScore = async () => { if (game && decrementTargetTeam && !isActionLoading) { setIsActionLoading(true); await runGameAction(game.id, `Remove ${sport.scoreLabel.toLowerCase()}`, () => removeLastGameEvent(game.id, decrementTargetTeam)); setIsActionLoading(false); } setIsConfirmDecrementOpen(false); setDecrementTargetTeam(null); };
   const handleCancelDecrementScore = () => { setIsConfirmDecrementOpen(false); setDecrementTargetTeam(null); };
 
+  // --- Undo/Redo Handlers ---
+  const gameActionHistory = gameId ? actionHistory[gameId] : undefined;
+  const nextUndo = gameActionHistory?.undo[gameActionHistory.undo.length - 1];
+  const nextRedo = gameActionHistory?.redo[gameActionHistory.redo.length - 1];
+  const handleUndo = async () => { if (!game || !nextUndo || isActionLoading || isPlanningSubs) return; setIsActionLoading(true); await undoGameAction(game.id); setIsActionLoading(false); };
+  const handleRedo = async () => { if (!game || !nextRedo || isActionLoading || isPlanningSubs) return; setIsActionLoading(true); await redoGameAction(game.id); setIsActionLoading(false); };
+  const handleUpdateEvents = async (updates: Parameters<typeof updateGameEvents>[1]) => { if (!game) return; await runGameAction(game.id, 'Edit event', () => updateGameEvents(game.id, updates)); };
+  const handleAddCard = async (team: 'home' | 'away', cardType: CardType, playerId: string | null) => { if (!game) return; await runGameAction(game.id, cardType === 'red_card' ? 'Red card' : 'Yellow card', () => addCardEvent(game.id, team, cardType, playerId)); };
+  const recordStatEvent = async (type: StatEventType, team: 'home' | 'away', playerId: string | null) => { if (!game || isActionLoading) return; setIsActionLoading(true); await runGameAction(game.id, getStatEventLabel(type), () => addStatEvent(game.id, team, type, playerId)); setIsActionLoading(false); setPendingStatEvent(null); };
+  const handleStatEventSelect = (type: StatEventType, team: 'home' | 'away') => { if (!game) return; if (team === game.location) setPendingStatEvent({ type, team }); else recordStatEvent(type, team, null); };
+  const handleAddShootoutKick = async (team: 'home' | 'away', playerId: string | null, scored: boolean) => { if (!game) return; await runGameAction(game.id, scored ? 'Shootout goal' : 'Shootout miss', () => addShootoutKick(game.id, team, playerId, scored)); };
+  const handleRemoveLastShootoutKick = async () => { if (!game) return; const lastKick = getShootoutKicks(game.events).pop(); if (lastKick) await runGameAction(game.id, 'Remove shootout kick', () => deleteGameEvents(game.id, [lastKick.id])); };
+  const handleDeleteEvents = async (eventIds: string[]) => { if (!game) return; await runGameAction(game.id, 'Delete event', () => deleteGameEvents(game.id, eventIds)); };
+
   // --- DnD/Planning/Reset Handlers ---
   const handleDropInGame = useCallback(async ( item: { id: string; location: 'field' | 'bench' | 'inactive'; position?: { x: number; y: number } }, targetLocation: 'field' | 'bench' | 'inactive', xPercent?: number, yPercent?: number ) => {
     if (!game || isPlanningSubs || isFinished || isActionLoading) return;
     setIsActionLoading(true);
     const droppedPlayerId = item.id;
     const sourceLocation = item.location;
+    if (isSentOff(game.events, droppedPlayerId)) { alert('This player was sent off and cannot return to this game.'); setIsActionLoading(false); return; }
     const currentLineup = game.lineup ?? [];
     let nextLineupStructure: PlayerLineupStructure[] = currentLineup.map(({ id, location, position }) => ({ id, location, position }));
     const droppedPlayerIndex = nextLineupStructure.findIndex(p => p.id === droppedPlayerId);
@@ -451,24 +625,81 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
         const targetPlayerIndex = nextLineupStructure.findIndex(p => p.id === targetPlayerStructure.id);
         if (targetPlayerIndex === -1) { setIsActionLoading(false); return; }
         const playerBeingReplacedStructure = nextLineupStructure[targetPlayerIndex];
-        await movePlayerInGame(game.id, playerBeingReplacedStructure.id, 'field', sourceLocation, sourceLocation === 'field' ? playerBeingMovedStructure.position : undefined);
-        await movePlayerInGame(game.id, droppedPlayerId, sourceLocation, 'field', playerBeingReplacedStructure.position);
+        // Both moves form one undoable swap
+        await runGameAction(game.id, 'Swap players', async () => {
+          await movePlayerInGame(game.id, playerBeingReplacedStructure.id, 'field', sourceLocation, sourceLocation === 'field' ? playerBeingMovedStructure.position : undefined);
+          await movePlayerInGame(game.id, droppedPlayerId, sourceLocation, 'field', playerBeingReplacedStructure.position, playerBeingReplacedStructure.id);
+        });
       } else {
-        await movePlayerInGame(game.id, droppedPlayerId, sourceLocation, 'field', { x: xPercent, y: yPercent });
+        // After a sending-off the team plays short, so nobody can be added to the field (swaps are still allowed)
+        const allowedFieldPlayers = getAllowedFieldPlayerCount(currentLineup, game.events);
+        if (sourceLocation !== 'field' && allowedFieldPlayers !== null && currentFieldPlayersStructure.length >= allowedFieldPlayers) {
+          alert(`Your team is down to ${allowedFieldPlayers} players on the field after a red card. Drop the player onto a teammate to substitute.`);
+          setIsActionLoading(false);
+          return;
+        }
+        if (sourceLocation !== 'field' && game.field_player_count !== null && currentFieldPlayersStructure.length >= game.field_player_count) {
+          alert(`${getGameFormatLabel(game.field_player_count)} allows ${game.field_player_count} players on the field. Drop the player onto a teammate to substitute.`);
+          setIsActionLoading(false);
+          return;
+        }
+        // With a formation the player snaps to the nearest free slot
+        const occupied = currentFieldPlayersStructure.filter(fp => fp.position).map(fp => fp.position!);
+        const dropPosition = activeFormation ? snapToSlot(activeFormation.slots, { x: xPercent, y: yPercent }, occupied) : { x: xPercent, y: yPercent };
+        await runGameAction(game.id, 'Move player', () => movePlayerInGame(game.id, droppedPlayerId, sourceLocation, 'field', dropPosition));
       }
+    } else if (targetLocation === 'inactive' && sourceLocation !== 'inactive') {
+      setPendingInactiveMove({ playerId: droppedPlayerId, sourceLocation }); // Moved once a reason is picked
     } else if (targetLocation === 'bench' || targetLocation === 'inactive') {
       if (sourceLocation !== targetLocation) {
-        await movePlayerInGame(game.id, droppedPlayerId, sourceLocation, targetLocation, undefined);
+        await runGameAction(game.id, 'Move player', () => movePlayerInGame(game.id, droppedPlayerId, sourceLocation, targetLocation, undefined));
       }
     }
     setIsActionLoading(false);
-  }, [game, fieldDimensions, movePlayerInGame, gameId, isPlanningSubs, isFinished, isActionLoading]);
+  }, [game, fieldDimensions, movePlayerInGame, runGameAction, gameId, isPlanningSubs, isFinished, isActionLoading, activeFormation]);
 
-  const handleResetGameLineup = useCallback(async () => { if (!game || isPlanningSubs || isFinished || isActionLoading) return; if (window.confirm('Reset lineup? All players move to bench, playtime and starter status resets.')) { setIsActionLoading(true); await resetGameLineup(game.id); setIsActionLoading(false); } }, [game, resetGameLineup, isPlanningSubs, isFinished, isActionLoading]);
-  const handleTogglePlanningMode = () => { if (isFinished) { alert("Cannot plan substitutions for a finished game."); return; } setIsPlanningSubs(!isPlanningSubs); setPlannedSwaps(new Map()); };
+  const handleConfirmInactive = async (reason: InactiveReason, note: string | null) => {
+    if (!game || !pendingInactiveMove || isActionLoading) return;
+    const { playerId, sourceLocation } = pendingInactiveMove;
+    setPendingInactiveMove(null);
+    setIsActionLoading(true);
+    await runGameAction(game.id, `Player out: ${getInactiveReasonLabel(reason)}`, async () => {
+      await movePlayerInGame(game.id, playerId, sourceLocation, 'inactive', undefined);
+      await addInactiveEvent(game.id, playerId, reason, note);
+    });
+    setIsActionLoading(false);
+  };
+
+  const handleResetGameLineup = useCallback(async () => { if (!game || isPlanningSubs || isFinished || isActionLoading) return; if (window.confirm('Reset lineup? All players move to bench, playtime and starter status resets.')) { setIsActionLoading(true); await runGameAction(game.id, 'Reset lineup', () => resetGameLineup(game.id)); setIsActionLoading(false); } }, [game, resetGameLineup, runGameAction, isPlanningSubs, isFinished, isActionLoading]);
+  // Leaving planning mode handles the wave that was loaded into it: confirming does so as part of the (undoable)
+  // substitutions, so undoing them offers the wave again; cancelling skips it
+  const activeWave = game?.substitution_waves.find(w => w.id === activeWaveId);
+  const finishActiveWave = () => { if (game && activeWave) handleChangeWaves(markWavesHandled(game.substitution_waves, activeWave)); setActiveWaveId(null); };
+  const handleTogglePlanningMode = () => { if (isFinished) { alert("Cannot plan substitutions for a finished game."); return; } if (isPlanningSubs) finishActiveWave(); setIsPlanningSubs(!isPlanningSubs); setPlannedSwaps(new Map()); };
   const handlePlanDrop = useCallback((draggedPlayerId: string, targetPlayerId: string, targetPosition: { x: number; y: number } | undefined) => { setPlannedSwaps(prev => { const newMap = new Map(prev); const existingTarget = Array.from(newMap.entries()).find(([_, value]) => value.targetFieldPlayerId === targetPlayerId); if (existingTarget) { newMap.delete(existingTarget[0]); } newMap.delete(draggedPlayerId); newMap.set(draggedPlayerId, { targetFieldPlayerId: targetPlayerId, targetPosition }); return newMap; }); }, [setPlannedSwaps]);
-  const handleCancelPlan = () => { setIsPlanningSubs(false); setPlannedSwaps(new Map()); };
-  const handleConfirmPlan = async () => { if (!game || isActionLoading) return; setIsActionLoading(true); const swapPromises: Promise<void>[] = []; plannedSwaps.forEach(({ targetFieldPlayerId, targetPosition }, benchPlayerId) => { swapPromises.push( movePlayerInGame(game.id, targetFieldPlayerId, 'field', 'bench', undefined) .then(() => movePlayerInGame(game.id, benchPlayerId, 'bench', 'field', targetPosition)) ); }); await Promise.all(swapPromises); setIsPlanningSubs(false); setPlannedSwaps(new Map()); setIsActionLoading(false); };
+  const handleCancelPlan = () => { finishActiveWave(); setIsPlanningSubs(false); setPlannedSwaps(new Map()); };
+  const handleConfirmPlan = async () => { if (!game || isActionLoading) return; setIsActionLoading(true); await runGameAction(game.id, 'Substitutions', async () => { const swapPromises: Promise<void>[] = []; plannedSwaps.forEach(({ targetFieldPlayerId, targetPosition }, benchPlayerId) => { swapPromises.push( movePlayerInGame(game.id, targetFieldPlayerId, 'field', 'bench', undefined) .then(() => movePlayerInGame(game.id, benchPlayerId, 'bench', 'field', targetPosition, targetFieldPlayerId)) ); }); await Promise.all(swapPromises); if (activeWave) await changeSubstitutionWaves(game.id, markWavesHandled(game.substitution_waves, activeWave)); }); setActiveWaveId(null); setIsPlanningSubs(false); setPlannedSwaps(new Map()); setIsActionLoading(false); };
+
+  // Switching formation keeps who-plays-where: each field player moves to the nearest slot of the new formation
+  const handleSelectFormation = async (formationId: string | null) => {
+    if (!game || isActionLoading) return;
+    const formation = findFormation(formations, formationId);
+    const fieldStates = game.lineup.filter(p => p.location === 'field');
+    const moves = formation ? Array.from(assignToFormation(fieldStates, formation.slots)).filter(([playerId, position]) => !isSamePosition(fieldStates.find(p => p.id === playerId)?.position, position)) : [];
+    setIsActionLoading(true);
+    await runGameAction(game.id, formation ? `Formation ${formation.name}` : 'Free placement', async () => {
+      await updateGame(game.id, { formation_id: formationId });
+      for (const [playerId, position] of moves) await movePlayerInGame(game.id, playerId, 'field', 'field', position);
+    });
+    setIsActionLoading(false);
+  };
+  const handleSaveFormation = async (name: string) => {
+    if (!game) return;
+    const formation = createFormation(name, game.lineup.filter(p => p.location === 'field' && p.position).map(p => p.position!));
+    await updateTeamFormationsInDb([...formations.filter(f => !isBuiltInFormation(f.id)), formation]);
+    await runGameAction(game.id, `Formation ${formation.name}`, () => updateGame(game.id, { formation_id: formation.id }));
+  };
+  const handleDeleteFormation = (formationId: string) => updateTeamFormationsInDb(formations.filter(f => !isBuiltInFormation(f.id) && f.id !== formationId));
 
   // --- Derived Lineup Data ---
   const playerMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
@@ -509,7 +740,12 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
     return { fieldPlayersLineup: field, benchPlayersLineup: bench, inactivePlayersLineup: inactive, fieldPlayersForDialog: fieldDialog, startingPlayersLineup: starters, benchStartersLineup: benchStarters };
   }, [sourceLineup, playerMap]); // Depend on the calculated sourceLineup
 
-  const playerEventCounts = useMemo(() => { const counts = new Map<string, { goals: number; assists: number }>(); players.forEach(p => counts.set(p.id, { goals: 0, assists: 0 })); game?.events?.forEach(event => { if (event.type === 'goal') { if (event.scorerPlayerId) { const current = counts.get(event.scorerPlayerId) || { goals: 0, assists: 0 }; counts.set(event.scorerPlayerId, { ...current, goals: current.goals + 1 }); } if (event.assistPlayerId) { const current = counts.get(event.assistPlayerId) || { goals: 0, assists: 0 }; counts.set(event.assistPlayerId, { ...current, assists: current.assists + 1 }); } } }); return counts; }, [game?.events, players]);
+  const inactiveReasonLabels = useMemo(() => { const labels = new Map<string, string>(); inactivePlayersLineup.forEach(p => { const reason = getInactiveReason(game?.events ?? [], p.id); if (reason) labels.set(p.id, getInactiveReasonLabel(reason)); }); return labels; }, [inactivePlayersLineup, game?.events]);
+  const playerEventCounts = useMemo(() => { const counts = new Map<string, typeof EMPTY_EVENT_COUNTS>(); const events = game?.events ?? []; players.forEach(p => counts.set(p.id, { ...EMPTY_EVENT_COUNTS, yellowCards: getCardCounts(events, p.id).yellow, isSentOff: isSentOff(events, p.id) })); events.forEach(event => { if (event.type === 'goal') { if (event.scorerPlayerId) { const current = counts.get(event.scorerPlayerId) || EMPTY_EVENT_COUNTS; counts.set(event.scorerPlayerId, { ...current, goals: current.goals + 1 }); } if (event.assistPlayerId) { const current = counts.get(event.assistPlayerId) || EMPTY_EVENT_COUNTS; counts.set(event.assistPlayerId, { ...current, assists: current.assists + 1 }); } } }); return counts; }, [game?.events, players]);
+  // Compared with who is on the field to warn when we play short (or too many after the format changed)
+  const expectedFieldPlayerCount = useMemo(() => game ? getExpectedFieldPlayerCount(game, getAllowedFieldPlayerCount(game.lineup ?? [], game.events)) : null, [game]);
+  // Who should come on next; only meaningful once the game has started
+  const benchQueue = useMemo(() => game && !isNotStarted && !isFinished ? getBenchQueue(game.lineup, game.events, playerDisplayTimes, gameDisplaySeconds) : [], [game, isNotStarted, isFinished, playerDisplayTimes, gameDisplaySeconds]);
   const fieldPlayerIdToIncomingBenchPlayerId = useMemo(() => { const map = new Map<string, string>(); plannedSwaps.forEach(({ targetFieldPlayerId }, benchPlayerId) => { map.set(targetFieldPlayerId, benchPlayerId); }); return map; }, [plannedSwaps]);
 
   // --- Render Logic ---
@@ -517,7 +753,18 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
 
   const homeTeam = game.location === 'home' ? { name: currentTeamName, logo: currentTeamLogo } : { name: game.opponent, logo: null };
   const awayTeam = game.location === 'away' ? { name: currentTeamName, logo: currentTeamLogo } : { name: game.opponent, logo: null };
+  const shootoutScore = getShootoutScore(game.events);
+  const canHaveShootout = sport.hasShootout && isFinished && (game.home_score ?? 0) === (game.away_score ?? 0); // Only a level game goes to penalties
   const gameTimeDisplay = formatTime(game.game_time);
+  // The clock shows time within the current period; past the configured length it shows stoppage time
+  const periodLengthSeconds = game.period_minutes * 60;
+  const periodDisplaySeconds = Math.max(0, gameDisplaySeconds - getPeriodStartSeconds(game, currentPeriod));
+  const stoppageSeconds = Math.max(0, periodDisplaySeconds - periodLengthSeconds);
+  const periodTimerDisplay = clockSettings.mode === 'countDown' ? (
+    stoppageSeconds > 0 ? <span className="text-red-600">+{formatTimer(stoppageSeconds)}</span> : <span>{formatTimer(Math.ceil(periodLengthSeconds - periodDisplaySeconds))}</span>
+  ) : (
+    <span>{formatTimer(Math.min(periodDisplaySeconds, periodLengthSeconds))}{stoppageSeconds > 0 && <span className="text-sm text-red-600 ml-1">+{formatTimer(stoppageSeconds)}</span>}</span>
+  );
   const approxFixedElementsHeightPortrait = 280;
 
   return (
@@ -525,10 +772,15 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
       {/* Header */}
       <header className="flex justify-between items-center py-2 border-b bg-gray-100 z-30 px-2 flex-shrink-0">
         <button onClick={handleGoBack} disabled={isActionLoading} className="text-gray-600 hover:text-gray-900 p-2 rounded-full hover:bg-gray-200 disabled:opacity-50"><ArrowLeft size={20} /></button>
-        {isActionLoading && <Loader2 className="animate-spin text-red-600" size={20} />}
+        <div className="flex items-center space-x-3">
+          {isActionLoading && <Loader2 className="animate-spin text-red-600" size={20} />}
+          <button onClick={handleUndo} disabled={!nextUndo || isActionLoading || isPlanningSubs} className="text-gray-600 hover:text-gray-900 p-1.5 rounded-full hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent" title={nextUndo ? `Undo: ${nextUndo.label}` : 'Nothing to undo'} aria-label="Undo"><Undo2 size={18} /></button>
+          <button onClick={handleRedo} disabled={!nextRedo || isActionLoading || isPlanningSubs} className="text-gray-600 hover:text-gray-900 p-1.5 rounded-full hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent" title={nextRedo ? `Redo: ${nextRedo.label}` : 'Nothing to redo'} aria-label="Redo"><Redo2 size={18} /></button>
+          <SyncStatusIndicator status={syncStatus} />
+        </div>
         <div className="relative">
           <button onClick={toggleMenu} disabled={isActionLoading} className="text-gray-600 hover:text-gray-900 p-2 rounded-full hover:bg-gray-200 disabled:opacity-50"><MoreVertical size={20} /></button>
-          {isMenuOpen && ( <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-40"> <button onClick={handleEditClick} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Edit</button> <button onClick={handleDeleteClick} className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100">Delete</button> </div> )}
+          {isMenuOpen && ( <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg py-1 z-40"> <button onClick={handleEditClick} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Edit</button> <button onClick={handleClockSettingsClick} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">Clock Settings</button> <button onClick={handleDeleteClick} className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100">Delete</button> </div> )}
         </div>
       </header>
 
@@ -538,18 +790,40 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
         <div className="sticky top-0 bg-gray-100 z-20 pt-4 px-4 pb-2">
           <div className="flex items-center justify-around space-x-2 md:space-x-4 bg-white p-4 rounded-lg shadow">
             <div className="flex flex-col items-center space-y-2 flex-1">
-              <TeamDisplay name={homeTeam.name} logo={homeTeam.logo} isOpponentTeam={game.location === 'away'} size="large" className="justify-center mb-2" />
+              <TeamDisplay name={homeTeam.name} logo={homeTeam.logo} isOpponentTeam={game.location === 'away'} size="large" className="justify-center mb-2" shootoutScore={shootoutScore?.home} />
               <button onClick={() => handleScoreClick('home')} onContextMenu={(e) => handleScoreContextMenu(e, 'home')} onTouchStart={() => handleScoreInteractionStart('home')} onTouchEnd={handleScoreInteractionEnd} onMouseLeave={handleScoreInteractionEnd} disabled={isFinished || isActionLoading} className={`text-4xl md:text-5xl font-bold p-2 rounded hover:bg-gray-100 ${isFinished || isActionLoading ? 'cursor-default opacity-50' : 'cursor-pointer'}`}> {game.home_score ?? 0} </button>
             </div>
             <div className="text-center flex-shrink-0 flex flex-col items-center space-y-1">
-              <button onClick={handleTimerClick} disabled={isFinished || isActionLoading} className={`text-xl md:text-2xl font-semibold p-2 rounded hover:bg-gray-100 transition flex items-center justify-center space-x-1 ${isFinished || isActionLoading ? 'cursor-default text-gray-500 opacity-50' : ''}`}> {isFinished ? (<span className="font-bold text-gray-600">FT</span>) : isRunning ? (<><span>{formatTimer(gameDisplaySeconds)}</span><Pause size={18} /></>) : isPaused ? (<><span>{formatTimer(gameDisplaySeconds)}</span><Play size={18} /></>) : (<span>{gameTimeDisplay}</span>)} </button>
-              {(isRunning || isPaused) && !isFinished && (<button onClick={handleEndGame} disabled={isActionLoading} className="bg-red-600 text-white px-3 py-1 rounded-md text-sm hover:bg-red-700 transition flex items-center space-x-1 mt-1 disabled:opacity-50"><Square size={14} /><span>End Game</span></button>)}
+              <button onClick={handleTimerClick} disabled={isFinished || isActionLoading} className={`text-xl md:text-2xl font-semibold p-2 rounded hover:bg-gray-100 transition flex items-center justify-center space-x-1 ${isFinished || isActionLoading ? 'cursor-default text-gray-500 opacity-50' : ''} ${clockAlert ? 'animate-pulse' : ''}`}> {isFinished ? (<span className="font-bold text-gray-600">FT</span>) : isBreak ? (<><span className="font-bold text-gray-600">{game.period_count === 2 ? 'HT' : 'Break'}</span><Play size={18} /></>) : isRunning ? (<>{periodTimerDisplay}<Pause size={18} /></>) : isPaused ? (<>{periodTimerDisplay}<Play size={18} /></>) : (<span>{gameTimeDisplay}</span>)} </button>
+              {canHaveShootout && (
+                <button onClick={() => setIsShootoutOpen(true)} disabled={isActionLoading} className="border border-gray-300 px-3 py-1 rounded-md text-sm text-gray-700 hover:bg-gray-100 transition disabled:opacity-50">
+                  {shootoutScore ? `Pens ${shootoutScore.home} - ${shootoutScore.away}` : 'Penalties'}
+                </button>
+              )}
+              {(isRunning || isPaused) && !isFinished && game.period_count > 1 && (
+                <span className="text-xs text-gray-500">{isBreak ? `${currentPeriodName} in ${formatTimer(breakRemainingSeconds)}` : currentPeriodName}</span>
+              )}
+              {(isRunning || isPaused) && !isFinished && (
+                <div className="flex items-center space-x-1 mt-1">
+                  {!isBreak && currentPeriod < game.period_count && (<button onClick={handleEndPeriod} disabled={isActionLoading} className="bg-gray-600 text-white px-3 py-1 rounded-md text-sm hover:bg-gray-700 transition flex items-center space-x-1 disabled:opacity-50"><Flag size={14} /><span>End {game.period_count === 2 ? 'Half' : currentPeriodName}</span></button>)}
+                  <button onClick={handleEndGame} disabled={isActionLoading} className="bg-red-600 text-white px-3 py-1 rounded-md text-sm hover:bg-red-700 transition flex items-center space-x-1 disabled:opacity-50"><Square size={14} /><span>End Game</span></button>
+                  {sport.hasCards && <button onClick={() => setIsCardModalOpen(true)} disabled={isActionLoading || isPlanningSubs} className="border border-gray-300 px-2 py-1 rounded-md hover:bg-gray-100 transition flex items-center space-x-0.5 disabled:opacity-50" title="Record card" aria-label="Record card"><span className="w-2.5 h-3.5 rounded-sm bg-yellow-400"></span><span className="w-2.5 h-3.5 rounded-sm bg-red-600"></span></button>}
+                </div>
+              )}
             </div>
             <div className="flex flex-col items-center space-y-2 flex-1">
-              <TeamDisplay name={awayTeam.name} logo={awayTeam.logo} isOpponentTeam={game.location === 'home'} size="large" className="justify-center mb-2" />
+              <TeamDisplay name={awayTeam.name} logo={awayTeam.logo} isOpponentTeam={game.location === 'home'} size="large" className="justify-center mb-2" shootoutScore={shootoutScore?.away} />
               <button onClick={() => handleScoreClick('away')} onContextMenu={(e) => handleScoreContextMenu(e, 'away')} onTouchStart={() => handleScoreInteractionStart('away')} onTouchEnd={handleScoreInteractionEnd} onMouseLeave={handleScoreInteractionEnd} disabled={isFinished || isActionLoading} className={`text-4xl md:text-5xl font-bold p-2 rounded hover:bg-gray-100 ${isFinished || isActionLoading ? 'cursor-default opacity-50' : 'cursor-pointer'}`}> {game.away_score ?? 0} </button>
             </div>
           </div>
+          {(isRunning || isPaused) && !isFinished && !isPlanningSubs && (
+            <StatEventBar game={game} teamName={currentTeamName} types={sport.statEventTypes} disabled={isActionLoading} onSelect={handleStatEventSelect} />
+          )}
+          {clockAlert && (
+            <button onClick={() => setClockAlert(null)} className={`mt-2 w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg shadow text-sm font-semibold animate-pulse ${clockAlert.isPeriodOver ? 'bg-red-600 text-white' : 'bg-amber-100 text-amber-800'}`}>
+              <Bell size={16} /><span>{clockAlert.message}</span>
+            </button>
+          )}
         </div>
 
         {/* Main Content */}
@@ -558,18 +832,21 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
           {!isFinished && (
             <div className="flex flex-col md:flex-row flex-grow md:space-x-4 mt-4">
               <div ref={fieldContainerRef} className="relative w-full md:w-2/3 mx-auto my-2 md:my-0 md:mx-0 flex flex-col md:order-1 md:max-h-none" style={{ aspectRatio: '1 / 1', maxHeight: `calc(100vh - ${approxFixedElementsHeightPortrait}px)` }}>
-                <DropZone onDropPlayer={(item, xPct, yPct) => handleDropInGame(item, 'field', xPct, yPct)} fieldRef={fieldItselfRef} className="bg-green-600 w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden" location="field">
+                <DropZone onDropPlayer={(item, xPct, yPct) => handleDropInGame(item, 'field', xPct, yPct)} fieldRef={fieldItselfRef} sport={sport.id} fieldPlayerCount={game.field_player_count} className={`${sport.surfaceClassName} w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden`} location="field">
+                  {!isPlanningSubs && activeFormation?.slots.map((slot, index) => (
+                    <div key={index} className="absolute w-8 h-8 rounded-full border-2 border-dashed border-white/50 -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: `${slot.x}%`, top: `${slot.y}%` }}></div>
+                  ))}
                   {!isPlanningSubs && fieldPlayersLineup.map((lineupState) => {
                     const player = playerMap.get(lineupState.id);
-                    const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                    return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={fieldDimensions.width} fieldHeight={fieldDimensions.height} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> ) : null;
+                    const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                    return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={fieldDimensions.width} fieldHeight={fieldDimensions.height} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> ) : null;
                   })}
                   {isPlanningSubs && fieldPlayersLineup.map((lineupState) => {
                     const player = playerMap.get(lineupState.id);
-                    const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
+                    const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
                     const style: React.CSSProperties = { position: 'absolute', zIndex: 5 };
                     if (lineupState.position && fieldDimensions.width > 0 && fieldDimensions.height > 0) { const pxL = (lineupState.position.x / 100) * fieldDimensions.width; const pxT = (lineupState.position.y / 100) * fieldDimensions.height; style.left = `${pxL}px`; style.top = `${pxT}px`; style.transform = `translate(-${ICON_WIDTH_APPROX / 2}px, -${ICON_HEIGHT_APPROX / 2}px)`; } else { style.left = '-9999px'; style.top = '-9999px'; }
-                    return player ? ( <div key={player.id} style={style}> <PlayerIcon player={player} showName={true} size="small" context="field" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                    return player ? ( <div key={player.id} style={style}> <PlayerIcon player={player} showName={true} size="small" context="field" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                   })}
                 </DropZone>
                 {isPlanningSubs && (
@@ -588,23 +865,51 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
                 <div className="absolute top-2 left-2 flex space-x-1 bg-white/70 p-1 rounded shadow z-20">
                   <button onClick={handleResetGameLineup} disabled={isPlanningSubs || isActionLoading} className="text-gray-700 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed p-1.5" title="Reset Game Lineup"><RotateCcw size={18} /></button>
                   <button onClick={handleTogglePlanningMode} disabled={isFinished || isActionLoading} className={`p-1.5 rounded ${isPlanningSubs ? 'bg-blue-200 text-blue-700' : 'text-gray-700 hover:text-blue-600'} disabled:opacity-50 disabled:cursor-not-allowed`} title="Plan Substitutions"><ArrowRightLeft size={18} /></button>
+                  <button onClick={() => { setRotationPlannerKey(key => key + 1); setIsRotationPlannerOpen(true); }} disabled={isFinished || isPlanningSubs || isActionLoading} className="text-gray-700 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed p-1.5" title="Rotation Plan"><CalendarClock size={18} /></button>
+                  <button onClick={() => setIsWavesModalOpen(true)} disabled={isFinished || isPlanningSubs || isActionLoading} className={`p-1.5 ${game.substitution_waves.some(w => !w.isHandled) ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'} disabled:opacity-50 disabled:cursor-not-allowed`} title="Substitution Waves"><ListOrdered size={18} /></button>
+                  <button onClick={() => setIsFormationModalOpen(true)} disabled={isPlanningSubs || isActionLoading} className={`p-1.5 ${activeFormation ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'} disabled:opacity-50 disabled:cursor-not-allowed`} title={activeFormation ? `Formation: ${activeFormation.name}` : 'Formation'}><LayoutGrid size={18} /></button>
                 </div>
+                {!isPlanningSubs && expectedFieldPlayerCount !== null && fieldPlayersLineup.length !== expectedFieldPlayerCount && (
+                  <div className="absolute bottom-2 left-2 bg-amber-100 text-amber-800 text-xs font-medium px-2 py-1 rounded shadow z-20" title={getGameFormatLabel(game.field_player_count)}>
+                    {fieldPlayersLineup.length < expectedFieldPlayerCount ? 'Short' : 'Too many'}: {fieldPlayersLineup.length} of {expectedFieldPlayerCount} on the field
+                  </div>
+                )}
               </div>
               <div className="relative flex-shrink-0 md:w-1/3 md:order-2 md:flex md:flex-col space-y-3 mt-3 md:mt-0">
                 <div ref={benchContainerRef} className="bg-gray-200 p-3 rounded-lg shadow flex flex-col">
                   <h2 className="text-base font-semibold mb-2 border-b pb-1 text-gray-700 flex-shrink-0">Bench</h2>
+                  {benchQueue.length > 0 && (
+                    <div className="mb-2 flex-shrink-0">
+                      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-1">Next up</h3>
+                      <ol className="text-xs text-gray-700 space-y-0.5">
+                        {benchQueue.map((entry, index) => {
+                          const deficitMinutes = Math.round(entry.deficitSeconds / 60);
+                          const isOverBenchLimit = clockSettings.benchStintMinutes !== null && entry.benchSeconds >= clockSettings.benchStintMinutes * 60;
+                          return (
+                            <li key={entry.playerId} className="flex justify-between">
+                              <span><span className="font-semibold mr-1">{index + 1}.</span>{playerMap.get(entry.playerId)?.first_name ?? 'Unknown'}</span>
+                              <span className="text-gray-500">
+                                {deficitMinutes > 0 ? <span className="text-red-600">{deficitMinutes} min behind</span> : 'on par'}
+                                {' · '}<span className={isOverBenchLimit ? 'text-amber-700 font-semibold' : ''}>off {Math.floor(entry.benchSeconds / 60)} min</span>
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    </div>
+                  )}
                   <DropZone onDropPlayer={(item) => handleDropInGame(item, 'bench')} className="min-h-[60px] flex flex-wrap gap-x-3 gap-y-1 flex-grow md:overflow-y-auto" location="bench">
                     {!isPlanningSubs && benchPlayersLineup.length === 0 && <p className="text-gray-500 w-full text-center text-sm py-2">Bench empty.</p>}
                     {!isPlanningSubs && benchPlayersLineup.map((lineupState) => {
                       const player = playerMap.get(lineupState.id);
-                      const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                      return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={0} fieldHeight={0} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> ) : null;
+                      const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                      return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={0} fieldHeight={0} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> ) : null;
                     })}
                     {isPlanningSubs && benchPlayersLineup.length === 0 && <p className="text-gray-500 w-full text-center text-sm py-2 opacity-0">Bench empty.</p>}
                     {isPlanningSubs && benchPlayersLineup.map((lineupState) => {
                       const player = playerMap.get(lineupState.id);
-                      const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                      return player ? ( <div key={player.id} className="mb-1 opacity-0"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                      const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                      return player ? ( <div key={player.id} className="mb-1 opacity-0"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                     })}
                   </DropZone>
                 </div>
@@ -614,10 +919,10 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
                     <div className="min-h-[60px] flex flex-wrap gap-x-3 gap-y-1 flex-grow md:overflow-y-auto">
                       {benchPlayersLineup.map((lineupState) => {
                         const player = playerMap.get(lineupState.id);
-                        const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
+                        const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
                         const isPlannedToSubIn = Array.from(plannedSwaps.keys()).includes(player?.id ?? '');
-                        if (player && !isPlannedToSubIn) { return ( <DraggablePlanningPlayerWrapper key={player.id} player={player}> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </DraggablePlanningPlayerWrapper> ); }
-                        if (player && isPlannedToSubIn) { return ( <div key={player.id} className="mb-1 opacity-40 cursor-not-allowed"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ); }
+                        if (player && !isPlannedToSubIn) { return ( <DraggablePlanningPlayerWrapper key={player.id} player={player}> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </DraggablePlanningPlayerWrapper> ); }
+                        if (player && isPlannedToSubIn) { return ( <div key={player.id} className="mb-1 opacity-40 cursor-not-allowed"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ); }
                         return null;
                       })}
                       {benchPlayersLineup.length === 0 && <p className="text-gray-500 w-full text-center text-sm py-2">Bench empty.</p>}
@@ -630,8 +935,8 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
                     {inactivePlayersLineup.length === 0 ? ( <p className="text-gray-500 w-full text-center text-sm py-2">No inactive players.</p> ) : (
                       inactivePlayersLineup.map((lineupState) => {
                         const player = playerMap.get(lineupState.id);
-                        const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                        return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={0} fieldHeight={0} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> ) : null;
+                        const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                        return player ? ( <DraggablePlayer key={player.id} player={player} lineupState={lineupState} fieldWidth={0} fieldHeight={0} playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} inactiveReasonLabel={inactiveReasonLabels.get(lineupState.id)} initialPosition={lineupState.initialPosition} /> ) : null;
                       })
                     )}
                   </DropZone>
@@ -644,22 +949,17 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
           {isFinished && (
             <div className="flex flex-col md:flex-row flex-grow md:space-x-4 mt-4">
               <div ref={fieldContainerRef} className="relative w-full md:w-2/3 mx-auto my-2 md:my-0 md:mx-0 flex flex-col md:order-1 md:max-h-none" style={{ aspectRatio: '1 / 1', maxHeight: `calc(100vh - ${approxFixedElementsHeightPortrait}px)` }}>
-                <div ref={fieldItselfRef} className="bg-green-600 w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden relative">
+                <div ref={fieldItselfRef} className={`${sport.surfaceClassName} w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden relative`}>
                   {/* Field Markings */}
-                  <div className="absolute bottom-0 left-[20%] w-[60%] md:left-[25%] md:w-[50%] h-[18%] border-2 border-white/50 border-b-0"></div>
-                  <div className="absolute bottom-0 left-[38%] w-[24%] md:left-[40%] md:w-[20%] h-[6%] border-2 border-white/50 border-b-0"></div>
-                  <div className="absolute bottom-[18%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[10%] border-2 border-white/50 border-b-0 rounded-t-full"></div>
-                  <div className="absolute top-[-12%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[24%] border-2 border-white/50 border-t-0 rounded-b-full"></div>
-                  <div className="absolute bottom-[-5%] left-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-l-0 rounded-tr-full"></div>
-                  <div className="absolute bottom-[-5%] right-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-r-0 rounded-tl-full"></div>
+                  <FieldLines sport={sport.id} fieldPlayerCount={game.field_player_count} />
                   {/* Starting Players */}
                   {startingPlayersLineup.map((lineupState) => {
                     const player = playerMap.get(lineupState.id);
-                    const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
+                    const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
                     const position = lineupState.initialPosition;
                     const style: React.CSSProperties = { position: 'absolute', zIndex: 5, cursor: 'default' };
                     if (position && fieldDimensions.width > 0 && fieldDimensions.height > 0) { const pxL = (position.x / 100) * fieldDimensions.width; const pxT = (position.y / 100) * fieldDimensions.height; style.left = `${pxL}px`; style.top = `${pxT}px`; style.transform = `translate(-${ICON_WIDTH_APPROX / 2}px, -${ICON_HEIGHT_APPROX / 2}px)`; } else { style.left = '-9999px'; style.top = '-9999px'; }
-                    return player ? ( <div key={player.id} style={style}> <PlayerIcon player={player} showName={true} size="small" context="field" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={true} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                    return player ? ( <div key={player.id} style={style}> <PlayerIcon player={player} showName={true} size="small" context="field" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={true} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                   })}
                 </div>
               </div>
@@ -669,13 +969,13 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
                   <div className="min-h-[60px] flex flex-wrap gap-x-3 gap-y-1 flex-grow md:overflow-y-auto">
                     {benchStartersLineup.map((lineupState) => {
                       const player = playerMap.get(lineupState.id);
-                      const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={true} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                      const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={true} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                     })}
                     {benchPlayersLineup.filter(p => !p.isStarter).map((lineupState) => {
                       const player = playerMap.get(lineupState.id);
-                      const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={false} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                      const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="bench" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={false} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                     })}
                     {benchPlayersLineup.length === 0 && benchStartersLineup.length === 0 && <p className="text-gray-500 w-full text-center text-sm py-2">Bench empty.</p>}
                   </div>
@@ -685,8 +985,8 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
                   <div className="min-h-[60px] flex flex-wrap gap-x-3 gap-y-1 flex-grow md:overflow-y-auto">
                     {inactivePlayersLineup.length === 0 ? <p className="text-gray-500 w-full text-center text-sm py-2">No inactive players.</p> : inactivePlayersLineup.map((lineupState) => {
                       const player = playerMap.get(lineupState.id);
-                      const counts = playerEventCounts.get(lineupState.id) || { goals: 0, assists: 0 };
-                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="inactive" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} initialPosition={lineupState.initialPosition} /> </div> ) : null;
+                      const counts = playerEventCounts.get(lineupState.id) || EMPTY_EVENT_COUNTS;
+                      return player ? ( <div key={player.id} className="mb-1 cursor-default"> <PlayerIcon player={player} showName={true} size="small" context="inactive" playtimeDisplaySeconds={playerDisplayTimes.get(player.id) ?? 0} totalGameSeconds={gameDisplaySeconds} isStarter={lineupState.isStarter} subbedOnCount={lineupState.subbedOnCount} subbedOffCount={lineupState.subbedOffCount} goalCount={counts.goals} assistCount={counts.assists} yellowCardCount={counts.yellowCards} isSentOff={counts.isSentOff} inactiveReasonLabel={inactiveReasonLabels.get(lineupState.id)} initialPosition={lineupState.initialPosition} /> </div> ) : null;
                     })}
                   </div>
                 </div>
@@ -705,7 +1005,7 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
           </div>
 
           {/* Game Summary Section */}
-          {isFinished && ( <GameSummary game={game} players={players} teamName={currentTeamName} teamLogo={currentTeamLogo} /> )}
+          {isFinished && ( <GameSummary game={game} players={players} teamName={currentTeamName} teamLogo={currentTeamLogo} onEditEvents={setEditingEvents} /> )}
         </div>
       </div>
 
@@ -713,9 +1013,21 @@ const GamePage: React.FC<GamePageProps> = ({ gameId, previousPage }) => {
       <EditGameModal isOpen={isEditModalOpen} onClose={() => setIsEditModalOpen(false)} game={game} onUpdateGame={updateGame} />
       <ConfirmModal isOpen={isConfirmDeleteOpen} onClose={() => setIsConfirmDeleteOpen(false)} onConfirm={handleConfirmDelete} title="Delete Game" message={`Delete game vs ${game.opponent}?`} confirmText="Delete" />
       <ConfirmModal isOpen={isConfirmEditFinishedOpen} onClose={handleCancelEditFinished} onConfirm={handleConfirmEditFinished} title="Game Finished" message="Game ended. Change anyway?" confirmText="Yes, Change" cancelText="Cancel" />
+      <ScoringActionDialog isOpen={isScoringActionDialogVisible} onClose={() => { setIsScoringActionDialogVisible(false); setGoalTeamTarget(null); }} title={sport.scoreLabel} scoringActions={sport.scoringActions} onSelectScoringAction={handleSelectScoringAction} />
       <SelectPlayerDialog isOpen={isGoalDialogVisible} onClose={handleCloseGoalDialog} onCancel={handleCancelGoalDialog} onSelectPlayer={handleSelectScorer} title="Select Scorer" playersToShow={fieldPlayersForDialog} cancelText="No Scorer" />
+      <GoalTypeDialog isOpen={isGoalTypeDialogVisible} onClose={() => handleSelectGoalType(null)} onSelectGoalType={handleSelectGoalType} ownGoalLabel={goalTeamTarget === game.location ? 'Own goal (opponent)' : `Own goal (${currentTeamName})`} />
+      <SelectPlayerDialog isOpen={isOwnGoalDialogVisible} onClose={() => recordGoal(null, null, 'own_goal')} onCancel={() => recordGoal(null, null, 'own_goal')} onSelectPlayer={(playerId) => recordGoal(null, null, 'own_goal', playerId)} title="Own Goal By" playersToShow={fieldPlayersForDialog} cancelText="Unknown" />
       <SelectPlayerDialog isOpen={isAssistDialogVisible} onClose={() => setIsAssistDialogVisible(false)} onCancel={handleCancelAssistDialog} onSelectPlayer={handleSelectAssister} title="Select Assist (Optional)" playersToShow={fieldPlayersForDialog.filter(p => p.id !== selectedScorerId)} cancelText="No Assist" />
-      <ConfirmModal isOpen={isConfirmDecrementOpen} onClose={handleCancelDecrementScore} onConfirm={handleConfirmDecrementScore} title="Decrement Score" message={`Remove the last goal scored by ${decrementTargetTeam === 'home' ? homeTeam.name : awayTeam.name}?`} confirmText="Yes, Remove Goal" />
+      <ConfirmModal isOpen={isConfirmDecrementOpen} onClose={handleCancelDecrementScore} onConfirm={handleConfirmDecrementScore} title="Decrement Score" message={`Remove the last ${sport.scoreLabel.toLowerCase()} scored by ${decrementTargetTeam === 'home' ? homeTeam.name : awayTeam.name}?`} confirmText={`Yes, Remove ${sport.scoreLabel}`} />
+      <ClockSettingsModal isOpen={isClockSettingsOpen} onClose={() => setIsClockSettingsOpen(false)} settings={clockSettings} onSave={handleSaveClockSettings} />
+      <SelectPlayerDialog isOpen={!!pendingStatEvent} onClose={() => setPendingStatEvent(null)} onCancel={() => pendingStatEvent && recordStatEvent(pendingStatEvent.type, pendingStatEvent.team, null)} onSelectPlayer={(playerId) => pendingStatEvent && recordStatEvent(pendingStatEvent.type, pendingStatEvent.team, playerId)} title={pendingStatEvent ? `${getStatEventLabel(pendingStatEvent.type)}: Select Player` : ''} playersToShow={fieldPlayersForDialog} cancelText="No Player" />
+      <InactiveReasonDialog isOpen={!!pendingInactiveMove} onClose={() => setPendingInactiveMove(null)} player={pendingInactiveMove ? playerMap.get(pendingInactiveMove.playerId) ?? null : null} onConfirm={handleConfirmInactive} />
+      <ShootoutModal isOpen={isShootoutOpen} onClose={() => setIsShootoutOpen(false)} game={game} teamName={currentTeamName} players={players} onAddKick={handleAddShootoutKick} onRemoveLastKick={handleRemoveLastShootoutKick} />
+      <FormationModal isOpen={isFormationModalOpen} onClose={() => setIsFormationModalOpen(false)} formations={formations} activeFormationId={activeFormation?.id ?? null} fieldPlayerCount={fieldPlayersLineup.length} onSelect={handleSelectFormation} onSaveFormation={handleSaveFormation} onDeleteFormation={handleDeleteFormation} />
+      <RotationPlannerModal key={rotationPlannerKey} isOpen={isRotationPlannerOpen} onClose={() => setIsRotationPlannerOpen(false)} game={game} players={players} playtimes={playerDisplayTimes} currentPeriod={currentPeriod} secondsIntoPeriod={periodDisplaySeconds} defaultLockedPlayerIds={fieldPlayersLineup.filter(p => p.position && getRoleForPosition(roleZones, p.position) === 'GK').map(p => p.id)} onChangeWaves={handleChangeWaves} />
+      <SubstitutionWavesModal isOpen={isWavesModalOpen} onClose={() => setIsWavesModalOpen(false)} game={game} players={players} onChangeWaves={handleChangeWaves} />
+      <AddCardModal isOpen={isCardModalOpen} onClose={() => setIsCardModalOpen(false)} game={game} teamName={currentTeamName} players={players} onAddCard={handleAddCard} />
+      <EditEventModal isOpen={editingEvents !== null} onClose={() => setEditingEvents(null)} game={game} teamName={currentTeamName} sport={sport} events={editingEvents ?? []} players={players} onUpdateEvents={handleUpdateEvents} onDeleteEvents={handleDeleteEvents} />
     </div>
   );
 };
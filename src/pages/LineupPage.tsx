@@ -2,9 +2,13 @@ import React, { useContext, useState, useMemo, useRef, useEffect } from 'react';
 import { TeamContext, Player } from '../context/TeamContext';
 import { useDrop, useDrag, DropTargetMonitor, DragSourceMonitor } from 'react-dnd';
 import PlayerIcon from '../components/PlayerIcon';
-import { Save, Download, RotateCcw, ArrowLeft } from 'lucide-react';
+import { Save, Download, RotateCcw, ArrowLeft, LayoutGrid } from 'lucide-react';
 import SaveLineupModal from '../components/SaveLineupModal';
 import LoadLineupModal from '../components/LoadLineupModal';
+import FormationModal from '../components/FormationModal';
+import FieldLines from '../components/FieldLines';
+import { assignToFormation, createFormation, findFormation, isBuiltInFormation, snapToSlot } from '../lib/formations';
+import { SportId } from '../lib/sports';
 
 const ItemTypes = {
   PLAYER: 'player',
@@ -73,9 +77,11 @@ interface DropZoneProps {
   className?: string;
   location: 'field' | 'bench';
   fieldRef?: React.RefObject<HTMLDivElement>;
+  sport?: SportId; // For the field markings
+  fieldPlayerCount?: number | null; // For the field markings
 }
 
-const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className, location, fieldRef }) => {
+const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className, location, fieldRef, sport, fieldPlayerCount }) => {
   const [{ isOver }, drop] = useDrop(() => ({
     accept: ItemTypes.PLAYER,
     drop: (item: { id: string; location: 'field' | 'bench'; position?: { x: number; y: number } }, monitor: DropTargetMonitor) => {
@@ -115,12 +121,7 @@ const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className,
         style={{ position: 'relative', width: '100%', height: '100%' }}
       >
         {/* Field Markings */}
-        <div className="absolute bottom-0 left-[20%] w-[60%] md:left-[25%] md:w-[50%] h-[18%] border-2 border-white/50 border-b-0"></div>
-        <div className="absolute bottom-0 left-[38%] w-[24%] md:left-[40%] md:w-[20%] h-[6%] border-2 border-white/50 border-b-0"></div>
-        <div className="absolute bottom-[18%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[10%] border-2 border-white/50 border-b-0 rounded-t-full"></div>
-        <div className="absolute top-[-12%] left-[40%] w-[20%] md:left-[42%] md:w-[16%] h-[24%] border-2 border-white/50 border-t-0 rounded-b-full"></div>
-        <div className="absolute bottom-[-5%] left-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-l-0 rounded-tr-full"></div>
-        <div className="absolute bottom-[-5%] right-[-5%] w-[10%] h-[10%] border-2 border-white/50 border-b-0 border-r-0 rounded-tl-full"></div>
+        <FieldLines sport={sport} fieldPlayerCount={fieldPlayerCount} />
         {children}
       </div>
     );
@@ -137,9 +138,11 @@ const DropZone: React.FC<DropZoneProps> = ({ children, onDropPlayer, className,
 };
 
 const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
-  const { players, movePlayer, swapPlayers, savedLineups, saveLineup, loadLineup, deleteLineup, resetLineup, setCurrentPage } = useContext(TeamContext);
+  const { players, movePlayer, swapPlayers, savedLineups, saveLineup, loadLineup, renameLineup, deleteLineup, resetLineup, setCurrentPage, formations, updateTeamFormationsInDb, sport } = useContext(TeamContext);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [isLoadModalOpen, setIsLoadModalOpen] = useState(false);
+  const [isFormationModalOpen, setIsFormationModalOpen] = useState(false);
+  const [activeFormationId, setActiveFormationId] = useState<string | null>(null);
   const fieldContainerRef = useRef<HTMLDivElement>(null);
   const fieldItselfRef = useRef<HTMLDivElement>(null);
   const benchContainerRef = useRef<HTMLDivElement>(null);
@@ -182,6 +185,7 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
   }, [fieldDimensions.width, fieldDimensions.height]);
 
   const fieldPlayers = players.filter(p => p.location === 'field');
+  const activeFormation = findFormation(formations, activeFormationId);
   const benchPlayers = useMemo(() =>
     players
       .filter(p => p.location === 'bench')
@@ -213,7 +217,8 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
       if (targetPlayer) {
         swapPlayers(droppedPlayerId, targetPlayer.id);
       } else {
-        movePlayer(droppedPlayerId, 'field', { x: xPercent, y: yPercent });
+        const occupied = fieldPlayers.filter(p => p.id !== droppedPlayerId && p.position).map(p => p.position!);
+        movePlayer(droppedPlayerId, 'field', activeFormation ? snapToSlot(activeFormation.slots, { x: xPercent, y: yPercent }, occupied) : { x: xPercent, y: yPercent });
       }
     } else if (targetLocation === 'bench') {
       if (sourceLocation === 'field') {
@@ -225,9 +230,26 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
   const handleSaveClick = () => setIsSaveModalOpen(true);
   const handleLoadClick = () => setIsLoadModalOpen(true);
   const handleResetClick = () => { if (window.confirm('Are you sure you want to move all players to the bench?')) { resetLineup(); } };
-  const handleSaveLineup = (name: string) => { saveLineup(name); setIsSaveModalOpen(false); };
+  const handleSaveLineup = async (name: string) => { await saveLineup(name); setIsSaveModalOpen(false); };
   const handleLoadLineup = (name: string) => { if (loadLineup(name)) setIsLoadModalOpen(false); else alert(`Failed to load lineup "${name}".`); };
   const handleDeleteLineup = (name: string) => deleteLineup(name);
+  const handleRenameLineup = (oldName: string, newName: string) => renameLineup(oldName, newName);
+
+  // Switching formation moves each field player to the nearest slot of the new formation
+  const handleSelectFormation = async (formationId: string | null) => {
+    setActiveFormationId(formationId);
+    const formation = findFormation(formations, formationId);
+    if (formation) assignToFormation(fieldPlayers, formation.slots).forEach((position, playerId) => movePlayer(playerId, 'field', position));
+  };
+  const handleSaveFormation = async (name: string) => {
+    const formation = createFormation(name, fieldPlayers.filter(p => p.position).map(p => p.position!));
+    await updateTeamFormationsInDb([...formations.filter(f => !isBuiltInFormation(f.id)), formation]);
+    setActiveFormationId(formation.id);
+  };
+  const handleDeleteFormation = async (formationId: string) => {
+    await updateTeamFormationsInDb(formations.filter(f => !isBuiltInFormation(f.id) && f.id !== formationId));
+    if (activeFormationId === formationId) setActiveFormationId(null);
+  };
 
   const handleGoBack = () => {
     if (typeof setCurrentPage === 'function') {
@@ -263,9 +285,14 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
           <DropZone
             onDropPlayer={(item, xPct, yPct) => handleDrop(item, 'field', xPct, yPct)}
             fieldRef={fieldItselfRef}
-            className="bg-green-600 w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden"
+            sport={sport.id}
+            fieldPlayerCount={activeFormation?.slots.length}
+            className={`${sport.surfaceClassName} w-full h-full rounded-lg shadow-inner flex-grow overflow-hidden`}
             location="field"
           >
+            {activeFormation?.slots.map((slot, index) => (
+              <div key={index} className="absolute w-8 h-8 rounded-full border-2 border-dashed border-white/50 -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: `${slot.x}%`, top: `${slot.y}%` }}></div>
+            ))}
             {fieldPlayers.map((player) => (
               <DraggablePlayer
                 key={player.id}
@@ -277,6 +304,7 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
             ))}
           </DropZone>
           <div className="absolute top-2 right-2 flex space-x-1 bg-white/70 p-1 rounded shadow z-20">
+            <button onClick={() => setIsFormationModalOpen(true)} className={`p-1.5 ${activeFormation ? 'text-blue-600' : 'text-gray-700 hover:text-blue-600'}`} title={activeFormation ? `Formation: ${activeFormation.name}` : 'Formation'}><LayoutGrid size={18} /></button>
             <button onClick={handleSaveClick} className="text-gray-700 hover:text-blue-600 p-1.5" title="Save Lineup"><Save size={18} /></button>
             <button onClick={handleLoadClick} className="text-gray-700 hover:text-blue-600 p-1.5" title="Load Lineup"><Download size={18} /></button>
             <button onClick={handleResetClick} className="text-gray-700 hover:text-red-600 p-1.5" title="Reset Lineup"><RotateCcw size={18} /></button>
@@ -304,8 +332,9 @@ const LineupPage: React.FC<LineupPageProps> = ({ previousPage }) => {
         </div>
       </div>
 
-      <SaveLineupModal isOpen={isSaveModalOpen} onClose={() => setIsSaveModalOpen(false)} onSave={handleSaveLineup} />
-      <LoadLineupModal isOpen={isLoadModalOpen} onClose={() => setIsLoadModalOpen(false)} savedLineups={savedLineups} onLoad={handleLoadLineup} onDelete={handleDeleteLineup} />
+      <SaveLineupModal isOpen={isSaveModalOpen} onClose={() => setIsSaveModalOpen(false)} onSave={handleSaveLineup} existingNames={savedLineups.map(l => l.name)} />
+      <LoadLineupModal isOpen={isLoadModalOpen} onClose={() => setIsLoadModalOpen(false)} savedLineups={savedLineups} onLoad={handleLoadLineup} onDelete={handleDeleteLineup} onRename={handleRenameLineup} />
+      <FormationModal isOpen={isFormationModalOpen} onClose={() => setIsFormationModalOpen(false)} formations={formations} activeFormationId={activeFormation?.id ?? null} fieldPlayerCount={fieldPlayers.length} onSelect={handleSelectFormation} onSaveFormation={handleSaveFormation} onDeleteFormation={handleDeleteFormation} />
     </div>
   );
 };
@@ -2,6 +2,8 @@ import React, { useState, useContext, useEffect, useMemo, useRef } from 'react';
 import { Plus, Shield, Loader2 } from 'lucide-react';
 import { TeamContext, Game } from '../context/TeamContext';
 import AddGameModal from '../components/AddGameModal';
+import { PeriodConfig } from '../lib/periods';
+import { getGameResult, getShootoutScore } from '../lib/shootout';
 import TeamDisplay from '../components/TeamDisplay';
 
 const SchedulePage: React.FC = () => {
@@ -84,9 +86,9 @@ const SchedulePage: React.FC = () => {
     }
   };
 
-  const handleAddGame = async (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string) => {
+  const handleAddGame = async (opponent: string, date: string, time: string, location: 'home' | 'away', season?: string, competition?: string, periods?: PeriodConfig, fieldPlayerCount?: number | null) => {
     try {
-      await addGame(opponent, date, time, location, season, competition);
+      await addGame(opponent, date, time, location, season, competition, periods, fieldPlayerCount);
       setIsModalOpen(false);
     } catch (error) {
       console.error("Failed to add game from modal:", error);
@@ -103,17 +105,17 @@ const SchedulePage: React.FC = () => {
     const isFinished = game.is_explicitly_finished === true;
     const userScore = isUserHome ? scoreHome : scoreAway;
     const opponentScore = isUserHome ? scoreAway : scoreHome;
-    const isWin = userScore > opponentScore;
-    const isLoss = userScore < opponentScore;
+    const result = getGameResult(game); // Includes a penalty shootout
+    const shootoutScore = isFinished ? getShootoutScore(game.events) : null;
     let scoreBg = 'bg-gray-400';
     let scoreColorOngoing = 'text-gray-600';
 
     if (status === 'previous' && scoreAvailable && isFinished) {
-      if (isWin) scoreBg = 'bg-green-500';
-      else if (isLoss) scoreBg = 'bg-red-500';
+      if (result === 'win') scoreBg = 'bg-green-500';
+      else if (result === 'loss') scoreBg = 'bg-red-500';
     } else if (status === 'ongoing' && scoreAvailable) {
-      if (isWin) scoreColorOngoing = 'text-green-600';
-      else if (isLoss) scoreColorOngoing = 'text-red-600';
+      if (userScore > opponentScore) scoreColorOngoing = 'text-green-600';
+      else if (userScore < opponentScore) scoreColorOngoing = 'text-red-600';
     }
 
     let middleText: React.ReactNode;
@@ -135,9 +137,9 @@ const SchedulePage: React.FC = () => {
       <button onClick={() => selectGame(game.id)} className={`w-full text-left py-4 border-b border-gray-200 last:border-b-0 hover:bg-gray-50 transition rounded ${status === 'previous' ? 'opacity-70' : ''}`}>
         <p className="text-sm text-gray-500 mb-2 text-center">{formatDate(game.game_date)}</p>
         <div className="flex justify-between items-center px-2">
-          <TeamDisplay name={homeTeam.name} logo={homeTeam.logo} isOpponentTeam={!isUserHome} className="w-2/5 justify-end text-right" />
+          <TeamDisplay name={homeTeam.name} logo={homeTeam.logo} isOpponentTeam={!isUserHome} className="w-2/5 justify-end text-right" shootoutScore={shootoutScore?.home} />
           <span className={`${middleClass}`}>{middleText}</span>
-          <TeamDisplay name={awayTeam.name} logo={awayTeam.logo} isOpponentTeam={isUserHome} className="w-2/5 justify-start text-left" />
+          <TeamDisplay name={awayTeam.name} logo={awayTeam.logo} isOpponentTeam={isUserHome} className="w-2/5 justify-start text-left" shootoutScore={shootoutScore?.away} />
         </div>
       </button>
     );
@@ -1,10 +1,19 @@
 import React, { useState, useContext, useMemo, useEffect } from 'react';
-import { Plus, Shield, ChevronDown, Loader2 } from 'lucide-react';
+import { Plus, Shield, ChevronDown, Loader2, Ambulance, MapPin } from 'lucide-react';
 import { TeamContext, Player, Game, PlayerLineupState, GameEvent, PlayerData } from '../context/TeamContext';
 import AddPlayerModal from '../components/AddPlayerModal';
-import EditPlayerModal from '../components/EditPlayerModal';
+import RoleZonesModal from '../components/RoleZonesModal';
+import EditPlayerModal, { PlayerInjury } from '../components/EditPlayerModal';
 import TeamDisplay from '../components/TeamDisplay';
 import PlayerIcon from '../components/PlayerIcon';
+import { getCardCounts, getSendingOffEvent } from '../lib/cards';
+import { getPlayerStatCounts } from '../lib/statEvents';
+import { getCreditedScorerId, getGoalPoints } from '../lib/goals';
+import { getGameResult, getShootoutScore } from '../lib/shootout';
+import { getInjuryHistory } from '../lib/inactiveReasons';
+import { formatMinute } from '../lib/periods';
+import { addRolePlaytime, getRoleBreakdown } from '../lib/roles';
+import { PlayerStatColumn, SportId, SPORTS } from '../lib/sports';
 
 // --- Helper Functions ---
 const formatDate = (dateString: string, options: Intl.DateTimeFormatOptions) => {
@@ -47,9 +56,14 @@ interface PlayerStats {
   gp: number;
   s: number;
   g: number;
+  pts: number; // Points from goals; more than g in sports with multi-point scores
   a: number;
   yc: number;
   rc: number;
+  sh: number; // Shots, including goals
+  sv: number;
+  fl: number;
+  rolePt: Record<string, number>; // Play time per position role
 }
 
 const calculatePlayerStats = (playerId: string, filteredGames: Game[]): PlayerStats => {
@@ -58,36 +72,67 @@ const calculatePlayerStats = (playerId: string, filteredGames: Game[]): PlayerSt
   let gp = 0;
   let s = 0;
   let g = 0;
+  let pts = 0;
   let a = 0;
+  let yc = 0;
+  let rc = 0;
+  let sh = 0;
+  let sv = 0;
+  let fl = 0;
+  let rolePt: Record<string, number> = {};
 
   filteredGames.forEach(game => {
     if (game.is_explicitly_finished) {
       const playerState = game.lineup?.find(p => p.id === playerId);
       if (playerState) {
-        if (playerState.location === 'field' || playerState.location === 'bench') ga++;
+        // A player sent off ends the game inactive but was still available for it
+        const wasSentOff = !!getSendingOffEvent(game.events ?? [], playerId);
+        if (playerState.location === 'field' || playerState.location === 'bench' || wasSentOff) ga++;
         pt += playerState.playtimeSeconds || 0;
         if ((playerState.playtimeSeconds || 0) > 0) gp++;
         if (playerState.isStarter) s++;
+        Object.entries(playerState.rolePlaytimeSeconds ?? {}).forEach(([role, seconds]) => { rolePt = addRolePlaytime(rolePt, role, seconds); });
       }
       game.events?.forEach(event => {
         if (event.type === 'goal') {
-          if (event.scorerPlayerId === playerId) g++;
+          if (getCreditedScorerId(event) === playerId) { g++; pts += getGoalPoints(event); } // Own goals credit no one
           if (event.assistPlayerId === playerId) a++;
         }
       });
+      // A second yellow counts as both a yellow card and a sending-off
+      yc += getCardCounts(game.events ?? [], playerId).yellow;
+      if (getSendingOffEvent(game.events ?? [], playerId)) rc++;
+      const statCounts = getPlayerStatCounts(game.events ?? [], playerId);
+      sh += statCounts.shots;
+      sv += statCounts.save;
+      fl += statCounts.foul;
     }
   });
-  return { pt, ga, gp, s, g, a, yc: 0, rc: 0 }; // YC/RC placeholders
+  return { pt, ga, gp, s, g, pts, a, yc, rc, sh, sv, fl, rolePt };
+};
+
+// The sport's stat columns (see lib/sports), between starts and the position column
+const STAT_COLUMNS: Record<PlayerStatColumn, { label: string; title: string; getValue: (stats: PlayerStats) => React.ReactNode }> = {
+  goals: { label: 'G', title: 'Goals', getValue: stats => stats.g },
+  points: { label: 'PTS', title: 'Points', getValue: stats => stats.pts },
+  assists: { label: 'A', title: 'Assists', getValue: stats => stats.a },
+  yellowCards: { label: 'YC', title: 'Yellow Cards', getValue: stats => stats.yc },
+  redCards: { label: 'RC', title: 'Red Cards', getValue: stats => stats.rc },
+  shots: { label: 'Sh', title: 'Shots (including goals)', getValue: stats => stats.sh },
+  shotsPerGoal: { label: 'Sh/G', title: 'Shots per Goal', getValue: stats => (stats.g > 0 ? (stats.sh / stats.g).toFixed(1) : '-') },
+  saves: { label: 'Sv', title: 'Saves', getValue: stats => stats.sv },
+  fouls: { label: 'F', title: 'Fouls', getValue: stats => stats.fl },
 };
 
 const TeamPage: React.FC = () => {
   const {
     players, playersLoading, addPlayer, updatePlayer, deletePlayer,
-    games, gamesLoading, teamData, selectGame, gameHistory
+    games, gamesLoading, teamData, selectGame, gameHistory, roleZones, updateTeamRoleZonesInDb, sport, updateTeamSportInDb
   } = useContext(TeamContext);
 
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isRoleZonesModalOpen, setIsRoleZonesModalOpen] = useState(false);
   const [playerToEdit, setPlayerToEdit] = useState<Player | null>(null);
   const [selectedSeason, setSelectedSeason] = useState<string>('');
   const [selectedCompetition, setSelectedCompetition] = useState<string>('');
@@ -104,6 +149,21 @@ const TeamPage: React.FC = () => {
   const now = useMemo(() => new Date(), []);
   const validGames = useMemo(() => games || [], [games]);
 
+  // Injuries across all games (not filtered by season), for the roster
+  const injuryHistoryMap = useMemo(() => {
+    const map = new Map<string, PlayerInjury[]>();
+    players.forEach(player => {
+      map.set(player.id, getInjuryHistory(validGames, player.id).map(({ game, event }) => ({
+        eventId: event.id,
+        date: formatDate(game.game_date, { year: 'numeric', month: 'short', day: 'numeric' }),
+        opponent: game.opponent,
+        minute: formatMinute(game, event.gameSeconds),
+        note: event.note ?? null,
+      })));
+    });
+    return map;
+  }, [players, validGames]);
+
   const upcomingGames = useMemo(() =>
     validGames.filter(game => {
       const gameDateTime = new Date(`${game.game_date}T${game.game_time || '00:00:00'}`);
@@ -192,18 +252,17 @@ const TeamPage: React.FC = () => {
             {lastFiveGamesReversed.map((game) => {
               const scoreHome = game.home_score ?? 0;
               const scoreAway = game.away_score ?? 0;
-              const userScore = game.location === 'home' ? scoreHome : scoreAway;
-              const opponentScore = game.location === 'home' ? scoreAway : scoreHome;
-              const isWin = userScore > opponentScore;
-              const isLoss = userScore < opponentScore;
+              const result = getGameResult(game); // Includes a penalty shootout
+              const shootoutScore = getShootoutScore(game.events ?? []);
               let scoreBg = 'bg-gray-400';
-              if (isWin) scoreBg = 'bg-green-500';
-              else if (isLoss) scoreBg = 'bg-red-500';
+              if (result === 'win') scoreBg = 'bg-green-500';
+              else if (result === 'loss') scoreBg = 'bg-red-500';
               return (
                 <button key={game.id} onClick={() => selectGame(game.id)} className="flex flex-col items-center space-y-1 flex-1 min-w-0 hover:opacity-75 transition">
                   <span className={`px-3 py-1 rounded text-white text-sm font-bold ${scoreBg}`}>
                     {`${scoreHome} - ${scoreAway}`}
                   </span>
+                  {shootoutScore && <span className="text-xs text-gray-500" title="Penalty shootout">P {shootoutScore.home} - {shootoutScore.away}</span>}
                   <TeamDisplay name="" logo={null} isOpponentTeam={true} size="medium" className="mt-1" />
                   <span className="text-xs text-gray-500 truncate w-full px-1">{game.opponent}</span>
                 </button>
@@ -233,6 +292,15 @@ const TeamPage: React.FC = () => {
               </select>
               <ChevronDown size={16} className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 pointer-events-none" />
             </div>
+            <div className="relative">
+              <select value={sport.id} onChange={(e) => updateTeamSportInDb(e.target.value as SportId)} className="appearance-none bg-gray-100 border border-gray-300 rounded-md pl-3 pr-8 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-red-500 focus:border-red-500" title="Sport: sets the field drawing, scoring and stats">
+                {SPORTS.map(s => (<option key={s.id} value={s.id}>{s.label}</option>))}
+              </select>
+              <ChevronDown size={16} className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-500 pointer-events-none" />
+            </div>
+            <button onClick={() => setIsRoleZonesModalOpen(true)} className="bg-gray-100 border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 transition flex items-center space-x-1 text-sm" title="Field zones for position roles">
+              <MapPin size={16} /><span>Positions</span>
+            </button>
             <button onClick={() => setIsAddModalOpen(true)} className="bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 transition flex items-center space-x-1 text-sm">
               <Plus size={16} /><span>Add Player</span>
             </button>
@@ -241,19 +309,17 @@ const TeamPage: React.FC = () => {
 
         {/* Player Stats Table */}
         <div className="overflow-x-auto">
-          <div className="min-w-full">
+          <div className="min-w-[52rem]">
             {/* Header Row */}
             <div className="flex items-center border-b border-gray-200 pb-2 mb-2 text-xs font-medium text-gray-500 sticky top-0 bg-white z-10">
-              <div className="w-1/4 pl-2">Player</div>
-              <div className="w-1/12 text-center" title="Play Time">PT</div>
-              <div className="w-1/12 text-center" title="Play Time per Game Attended">PT/G</div>
-              <div className="w-1/12 text-center" title="Games Attended">GA</div>
-              <div className="w-1/12 text-center" title="Games Played">GP</div>
-              <div className="w-1/12 text-center" title="Starts">S</div>
-              <div className="w-1/12 text-center" title="Goals">G</div>
-              <div className="w-1/12 text-center" title="Assists">A</div>
-              <div className="w-1/12 text-center" title="Yellow Cards">YC</div>
-              <div className="w-1/12 text-center" title="Red Cards">RC</div>
+              <div className="w-[22%] pl-2">Player</div>
+              <div className="w-[6%] text-center" title="Play Time">PT</div>
+              <div className="w-[6%] text-center" title="Play Time per Game Attended">PT/G</div>
+              <div className="w-[6%] text-center" title="Games Attended">GA</div>
+              <div className="w-[6%] text-center" title="Games Played">GP</div>
+              <div className="w-[6%] text-center" title="Starts">S</div>
+              {sport.playerStatColumns.map(column => (<div key={column} className="w-[6%] text-center" title={STAT_COLUMNS[column].title}>{STAT_COLUMNS[column].label}</div>))}
+              <div className="w-[6%] text-center" title="Most Played Position">Pos</div>
             </div>
 
             {/* Player Rows */}
@@ -267,26 +333,28 @@ const TeamPage: React.FC = () => {
                 <p className="text-gray-500 text-center py-4">No players added yet.</p>
               ) : (
                 sortedPlayers.map((player) => {
-                  const stats = playerStatsMap.get(player.id) || { pt: 0, ga: 0, gp: 0, s: 0, g: 0, a: 0, yc: 0, rc: 0 };
+                  const stats = playerStatsMap.get(player.id) || { pt: 0, ga: 0, gp: 0, s: 0, g: 0, pts: 0, a: 0, yc: 0, rc: 0, sh: 0, sv: 0, fl: 0, rolePt: {} };
+                  const roleBreakdown = getRoleBreakdown(stats.rolePt);
                   const ptPerGame = stats.ga > 0 ? stats.pt / stats.ga : 0;
                   return (
                     <button key={player.id} onClick={() => handleEditPlayerClick(player)} className="flex items-center p-2 border-b last:border-b-0 w-full text-left hover:bg-gray-50 transition rounded text-sm">
-                      <div className="w-1/4 flex items-center space-x-2 pr-2">
+                      <div className="w-[22%] flex items-center space-x-2 pr-2">
                         <PlayerIcon player={player} showName={false} size="small" context="roster" />
                         <div className="flex-grow truncate">
                           <span className="font-medium">{player.first_name} {player.last_name}</span>
                           {player.number && <span className="text-xs text-gray-500 ml-1">#{player.number}</span>}
+                          {(injuryHistoryMap.get(player.id)?.length ?? 0) > 0 && (
+                            <span className="inline-flex items-center ml-1 text-xs text-red-600 align-middle" title={`Injuries: ${injuryHistoryMap.get(player.id)?.length}`}><Ambulance size={12} /><span className="ml-0.5">{injuryHistoryMap.get(player.id)?.length}</span></span>
+                          )}
                         </div>
                       </div>
-                      <div className="w-1/12 text-center">{formatPlayTime(stats.pt)}</div>
-                      <div className="w-1/12 text-center">{formatPlayTime(ptPerGame)}</div>
-                      <div className="w-1/12 text-center">{stats.ga}</div>
-                      <div className="w-1/12 text-center">{stats.gp}</div>
-                      <div className="w-1/12 text-center">{stats.s}</div>
-                      <div className="w-1/12 text-center">{stats.g}</div>
-                      <div className="w-1/12 text-center">{stats.a}</div>
-                      <div className="w-1/12 text-center text-gray-400">{stats.yc}</div>
-                      <div className="w-1/12 text-center text-gray-400">{stats.rc}</div>
+                      <div className="w-[6%] text-center">{formatPlayTime(stats.pt)}</div>
+                      <div className="w-[6%] text-center">{formatPlayTime(ptPerGame)}</div>
+                      <div className="w-[6%] text-center">{stats.ga}</div>
+                      <div className="w-[6%] text-center">{stats.gp}</div>
+                      <div className="w-[6%] text-center">{stats.s}</div>
+                      {sport.playerStatColumns.map(column => (<div key={column} className="w-[6%] text-center">{STAT_COLUMNS[column].getValue(stats)}</div>))}
+                      <div className="w-[6%] text-center truncate" title={roleBreakdown.map(r => `${r.role} ${formatPlayTime(r.seconds)}`).join(', ')}>{roleBreakdown[0]?.role ?? '-'}</div>
                     </button>
                   );
                 })
@@ -295,7 +363,7 @@ const TeamPage: React.FC = () => {
           </div>
         </div>
         {/* Note about placeholder stats */}
-        {!playersLoading && !gamesLoading && sortedPlayers.length > 0 && (
+        {!playersLoading && !gamesLoading && sortedPlayers.length > 0 && sport.hasCards && (
           <p className="text-xs text-gray-500 mt-3 text-center">
             Note: Yellow Cards (YC) and Red Cards (RC) are currently placeholders.
           </p>
@@ -304,7 +372,8 @@ const TeamPage: React.FC = () => {
 
       {/* Modals */}
       <AddPlayerModal isOpen={isAddModalOpen} onClose={() => setIsAddModalOpen(false)} onAddPlayer={handleAddPlayerSubmit} />
-      <EditPlayerModal isOpen={isEditModalOpen} onClose={handleCloseEditModal} player={playerToEdit} onUpdatePlayer={handleUpdatePlayerSubmit} onDeletePlayer={handleDeletePlayerSubmit} />
+      <EditPlayerModal isOpen={isEditModalOpen} onClose={handleCloseEditModal} player={playerToEdit} onUpdatePlayer={handleUpdatePlayerSubmit} onDeletePlayer={handleDeletePlayerSubmit} injuries={playerToEdit ? injuryHistoryMap.get(playerToEdit.id) : undefined} roleMinutes={playerToEdit ? getRoleBreakdown(playerStatsMap.get(playerToEdit.id)?.rolePt ?? {}) : undefined} />
+      <RoleZonesModal isOpen={isRoleZonesModalOpen} onClose={() => setIsRoleZonesModalOpen(false)} zones={roleZones} onSave={updateTeamRoleZonesInDb} />
     </div>
   );
 };
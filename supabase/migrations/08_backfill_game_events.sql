@@ -0,0 +1,53 @@
+/*
+      # Backfill game_events from games.events JSONB
+
+      This migration moves existing game events out of the legacy `games.events` JSONB array and into the normalized `game_events` table (created in `05_create_game_events.sql`). The app now reads and writes events as individual rows.
+
+      1. Data Migration
+         - For every game with a non-empty `events` array, inserts one `game_events` row per element.
+         - Keeps the client-generated event `id`, so re-running the migration is a no-op (`ON CONFLICT (id) DO NOTHING`).
+         - Converts the JS millisecond `timestamp` into `event_timestamp` and `gameSeconds` into `game_seconds`.
+         - Player references that no longer exist in `players` are stored as NULL to satisfy the foreign keys.
+         - Elements with an unknown `type`/`team` or a non-uuid `id` are skipped.
+      2. Indexes
+         - Adds a composite index on (`game_id`, `game_seconds`) for ordered timeline reads.
+      3. Legacy Column
+         - `games.events` is left in place but is no longer written by the app.
+    */
+
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'games' AND column_name = 'events'
+      ) THEN
+        INSERT INTO public.game_events (
+          id, game_id, type, team,
+          scorer_player_id, assist_player_id, player_in_id, player_out_id,
+          event_timestamp, game_seconds
+        )
+        SELECT
+          (e->>'id')::uuid,
+          g.id,
+          e->>'type',
+          e->>'team',
+          (SELECT p.id FROM public.players p WHERE p.id::text = e->>'scorerPlayerId'),
+          (SELECT p.id FROM public.players p WHERE p.id::text = e->>'assistPlayerId'),
+          (SELECT p.id FROM public.players p WHERE p.id::text = e->>'playerInId'),
+          (SELECT p.id FROM public.players p WHERE p.id::text = e->>'playerOutId'),
+          COALESCE(to_timestamp((e->>'timestamp')::double precision / 1000.0), g.updated_at),
+          COALESCE(round((e->>'gameSeconds')::numeric)::integer, 0)
+        FROM public.games g
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(g.events) = 'array' THEN g.events ELSE '[]'::jsonb END
+        ) AS e
+        WHERE e->>'type' IN ('goal', 'substitution')
+          AND e->>'team' IN ('home', 'away')
+          AND e->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        ON CONFLICT (id) DO NOTHING;
+
+        COMMENT ON COLUMN public.games.events IS 'DEPRECATED: events are stored in game_events. Kept for rollback only.';
+      END IF;
+    END $$;
+
+    CREATE INDEX IF NOT EXISTS idx_game_events_game_id_seconds ON public.game_events(game_id, game_seconds);
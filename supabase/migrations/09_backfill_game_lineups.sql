@@ -0,0 +1,62 @@
+/*
+      # Backfill game_lineups from games.lineup JSONB
+
+      This migration moves per-game player state out of the legacy `games.lineup` JSONB array and into the per-player `game_lineups` table (created in `04_create_game_lineups.sql`). The app now upserts one row per player instead of rewriting the whole array.
+
+      1. Data Migration
+         - For every game with a non-empty `lineup` array, inserts one `game_lineups` row per element whose `id` matches an existing player.
+         - Converts the JS millisecond `playtimerStartTime` into `playtimer_start_time`.
+         - Existing rows are left untouched (`ON CONFLICT (game_id, player_id) DO NOTHING`), so the migration can be re-run safely.
+      2. Triggers
+         - Keeps `game_lineups.updated_at` current on every update.
+      3. Legacy Column
+         - `games.lineup` is left in place but is no longer written by the app.
+    */
+
+    CREATE OR REPLACE FUNCTION public.trigger_set_timestamp()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.updated_at = NOW();
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS set_timestamp ON public.game_lineups;
+    CREATE TRIGGER set_timestamp
+    BEFORE UPDATE ON public.game_lineups
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_set_timestamp();
+
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'games' AND column_name = 'lineup'
+      ) THEN
+        INSERT INTO public.game_lineups (
+          game_id, player_id, location, position, initial_position,
+          playtime_seconds, playtimer_start_time, is_starter,
+          subbed_on_count, subbed_off_count
+        )
+        SELECT
+          g.id,
+          p.id,
+          CASE WHEN l->>'location' IN ('field', 'bench', 'inactive') THEN l->>'location' ELSE 'bench' END,
+          CASE WHEN jsonb_typeof(l->'position') = 'object' THEN l->'position' END,
+          CASE WHEN jsonb_typeof(l->'initialPosition') = 'object' THEN l->'initialPosition' END,
+          COALESCE(round((l->>'playtimeSeconds')::numeric)::integer, 0),
+          CASE WHEN jsonb_typeof(l->'playtimerStartTime') = 'number'
+               THEN to_timestamp((l->>'playtimerStartTime')::double precision / 1000.0) END,
+          COALESCE((l->>'isStarter')::boolean, false),
+          COALESCE((l->>'subbedOnCount')::integer, 0),
+          COALESCE((l->>'subbedOffCount')::integer, 0)
+        FROM public.games g
+        CROSS JOIN LATERAL jsonb_array_elements(
+          CASE WHEN jsonb_typeof(g.lineup) = 'array' THEN g.lineup ELSE '[]'::jsonb END
+        ) AS l
+        JOIN public.players p ON p.id::text = l->>'id' AND p.team_id = g.team_id
+        ON CONFLICT (game_id, player_id) DO NOTHING;
+
+        COMMENT ON COLUMN public.games.lineup IS 'DEPRECATED: per-player state is stored in game_lineups. Kept for rollback only.';
+      END IF;
+    END $$;
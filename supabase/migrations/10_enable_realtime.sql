@@ -0,0 +1,41 @@
+/*
+      # Enable Realtime for live game data
+
+      Lets every device watching a game receive changes to the clock, score, events and field positions as they happen, instead of only after a reload.
+
+      1. Publication
+         - Adds `games`, `game_events` and `game_lineups` to the `supabase_realtime` publication (skipped for tables that are already members).
+      2. Replica Identity
+         - Sets `REPLICA IDENTITY FULL` on `game_events` and `game_lineups` so DELETE payloads include `game_id` / `player_id`, not just the primary key.
+      3. Triggers
+         - Keeps `games.updated_at` current on every update. Stale change notifications are detected by each row's `revision` (see 11_add_revision_columns.sql), not by `updated_at`.
+      4. Security
+         - Realtime `postgres_changes` respects the existing RLS policies, so users only receive rows for their own team.
+    */
+
+    DO $$
+    DECLARE
+      t text;
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        CREATE PUBLICATION supabase_realtime;
+      END IF;
+
+      FOREACH t IN ARRAY ARRAY['games', 'game_events', 'game_lineups'] LOOP
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_publication_tables
+          WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+        ) THEN
+          EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+        END IF;
+      END LOOP;
+    END $$;
+
+    ALTER TABLE public.game_events REPLICA IDENTITY FULL;
+    ALTER TABLE public.game_lineups REPLICA IDENTITY FULL;
+
+    DROP TRIGGER IF EXISTS set_timestamp ON public.games;
+    CREATE TRIGGER set_timestamp
+    BEFORE UPDATE ON public.games
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_set_timestamp();
@@ -0,0 +1,34 @@
+/*
+      # Add revision counters for optimistic concurrency
+
+      Two devices editing the same game used to silently overwrite each other (last write wins). Every `games` and `game_lineups` row now carries a revision counter; the app only writes if the row is still at the revision it last read, and otherwise reloads the row, re-applies its change and retries.
+
+      1. Modified Tables
+         - `games`: adds `revision` (integer, NOT NULL, default 0).
+         - `game_lineups`: adds `revision` (integer, NOT NULL, default 0).
+      2. Triggers
+         - `set_revision` increments `revision` on every UPDATE (including the update path of an upsert), so clients can never set it directly.
+    */
+
+    ALTER TABLE public.games ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+    ALTER TABLE public.game_lineups ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+    CREATE OR REPLACE FUNCTION public.trigger_increment_revision()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.revision = OLD.revision + 1;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS set_revision ON public.games;
+    CREATE TRIGGER set_revision
+    BEFORE UPDATE ON public.games
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_increment_revision();
+
+    DROP TRIGGER IF EXISTS set_revision ON public.game_lineups;
+    CREATE TRIGGER set_revision
+    BEFORE UPDATE ON public.game_lineups
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_increment_revision();
@@ -0,0 +1,47 @@
+/*
+      # Store team logos in Supabase Storage
+
+      Team logos used to be saved as base64 data URLs directly in `teams.logo_url`, which bloated every team fetch and had no size limit. Logos are now resized on the client, uploaded to the `team-logos` bucket and `teams.logo_url` holds the object's public URL.
+
+      1. Storage Bucket
+         - `team-logos`: public (logos are shown without signed URLs), limited to 512 KB image uploads.
+      2. Security (RLS on `storage.objects`)
+         - Objects live under a folder named after the team id (`<team_id>/<file>`).
+         - Users can list, upload, replace and delete objects *only* in their own team's folder (via `get_my_team_id()`).
+      3. Data Migration
+         - Existing data URL logos cannot be uploaded from SQL; the app uploads them to the bucket and rewrites `logo_url` the next time the team is loaded.
+    */
+
+    -- 1. Bucket
+    INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+    VALUES ('team-logos', 'team-logos', true, 524288, ARRAY['image/webp', 'image/png', 'image/jpeg'])
+    ON CONFLICT (id) DO UPDATE
+      SET public = EXCLUDED.public,
+          file_size_limit = EXCLUDED.file_size_limit,
+          allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+    -- 2. Policies
+    DROP POLICY IF EXISTS "Allow user to read their team logos" ON storage.objects;
+    CREATE POLICY "Allow user to read their team logos"
+      ON storage.objects FOR SELECT
+      TO authenticated
+      USING (bucket_id = 'team-logos' AND (storage.foldername(name))[1] = public.get_my_team_id()::text);
+
+    DROP POLICY IF EXISTS "Allow user to upload their team logos" ON storage.objects;
+    CREATE POLICY "Allow user to upload their team logos"
+      ON storage.objects FOR INSERT
+      TO authenticated
+      WITH CHECK (bucket_id = 'team-logos' AND (storage.foldername(name))[1] = public.get_my_team_id()::text);
+
+    DROP POLICY IF EXISTS "Allow user to update their team logos" ON storage.objects;
+    CREATE POLICY "Allow user to update their team logos"
+      ON storage.objects FOR UPDATE
+      TO authenticated
+      USING (bucket_id = 'team-logos' AND (storage.foldername(name))[1] = public.get_my_team_id()::text)
+      WITH CHECK (bucket_id = 'team-logos' AND (storage.foldername(name))[1] = public.get_my_team_id()::text);
+
+    DROP POLICY IF EXISTS "Allow user to delete their team logos" ON storage.objects;
+    CREATE POLICY "Allow user to delete their team logos"
+      ON storage.objects FOR DELETE
+      TO authenticated
+      USING (bucket_id = 'team-logos' AND (storage.foldername(name))[1] = public.get_my_team_id()::text);
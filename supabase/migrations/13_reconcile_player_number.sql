@@ -0,0 +1,48 @@
+/*
+      # Reconcile the players jersey number column
+
+      `02_create_players.sql` created the jersey column as `player_number`, while the app (and the legacy `create_players_table.sql`) read and write `number`. Depending on which script created the table, a project has one, the other, or both columns. This migration leaves exactly one column, `number`, which is what `src/lib/database.types.ts` describes.
+
+      1. Modified Tables
+         - `players`:
+           - Only `player_number` exists: renamed to `number`.
+           - Both exist: `number` keeps its value, falling back to `player_number`; `player_number` is dropped.
+           - Neither exists: `number` (text, Nullable) is added.
+           - Tables created by the legacy `create_players_table.sql` get the missing `updated_at` column, and their extra `user_id` column becomes nullable (the app never sets it; the team owns the player).
+      2. Triggers
+         - `set_timestamp` keeps `players.updated_at` current (the column existed but was never maintained).
+    */
+
+    DO $$
+    DECLARE
+      has_player_number boolean;
+      has_number boolean;
+    BEGIN
+      SELECT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'players' AND column_name = 'player_number') INTO has_player_number;
+      SELECT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'players' AND column_name = 'number') INTO has_number;
+
+      IF has_player_number AND NOT has_number THEN
+        ALTER TABLE public.players RENAME COLUMN player_number TO number;
+      ELSIF has_player_number AND has_number THEN
+        UPDATE public.players SET number = player_number WHERE number IS NULL AND player_number IS NOT NULL;
+        ALTER TABLE public.players DROP COLUMN player_number;
+      END IF;
+    END $$;
+
+    ALTER TABLE public.players ADD COLUMN IF NOT EXISTS number text NULL;
+    COMMENT ON COLUMN public.players.number IS 'Player jersey number.';
+
+    ALTER TABLE public.players ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now() NOT NULL;
+
+    DO $$
+    BEGIN
+      IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'players' AND column_name = 'user_id') THEN
+        ALTER TABLE public.players ALTER COLUMN user_id DROP NOT NULL;
+      END IF;
+    END $$;
+
+    DROP TRIGGER IF EXISTS set_timestamp ON public.players;
+    CREATE TRIGGER set_timestamp
+    BEFORE UPDATE ON public.players
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_set_timestamp();
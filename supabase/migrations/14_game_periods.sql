@@ -0,0 +1,21 @@
+/*
+      # Add periods to games
+
+      The game clock used to be one continuous counter and the summary assumed two 45 minute halves. Each game now has its own match structure (number of periods, period length, break length), and the clock times at which periods were ended are stored so the timeline can show period markers and stoppage time.
+
+      1. Modified Tables
+         - `games`: adds
+           - `period_count` (integer, NOT NULL, default 2, 1-8)
+           - `period_minutes` (integer, NOT NULL, default 45)
+           - `break_minutes` (integer, NOT NULL, default 15)
+           - `period_end_seconds` (integer[], NOT NULL, default empty): `timer_elapsed_seconds` at the end of each completed period (the final period ends with the game)
+           - `break_start_time` (timestamptz, nullable): when the current break started; NULL while a period is being played
+      2. Existing games keep the old 2 x 45 minute structure through the defaults.
+    */
+
+    ALTER TABLE public.games
+      ADD COLUMN IF NOT EXISTS period_count integer NOT NULL DEFAULT 2 CHECK (period_count BETWEEN 1 AND 8),
+      ADD COLUMN IF NOT EXISTS period_minutes integer NOT NULL DEFAULT 45 CHECK (period_minutes > 0),
+      ADD COLUMN IF NOT EXISTS break_minutes integer NOT NULL DEFAULT 15 CHECK (break_minutes >= 0),
+      ADD COLUMN IF NOT EXISTS period_end_seconds integer[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS break_start_time timestamptz;
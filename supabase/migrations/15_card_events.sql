@@ -0,0 +1,19 @@
+/*
+      # Add card events
+
+      Yellow and red cards are recorded as game events. A card is about one player, which none of the existing player columns describe, so events get a general `player_id` column.
+
+      1. Modified Tables
+         - `game_events`:
+           - `type` CHECK now also allows 'yellow_card' and 'red_card'.
+           - adds `player_id` (uuid, FK to `players`, Nullable, ON DELETE SET NULL): the player the event is about (the booked player for cards). NULL for opponent players.
+    */
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_type_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_type_check CHECK (type IN ('goal', 'substitution', 'yellow_card', 'red_card'));
+
+    ALTER TABLE public.game_events
+      ADD COLUMN IF NOT EXISTS player_id uuid REFERENCES public.players(id) ON DELETE SET NULL NULL;
+
+    COMMENT ON COLUMN public.game_events.player_id IS 'Player the event is about (e.g. the booked player).';
@@ -0,0 +1,13 @@
+/*
+      # Add match stat events
+
+      Shots, saves, corners, fouls and offsides are recorded as game events so they can be totalled per game, per team and per player. Like cards, they use `player_id` for the player involved.
+
+      1. Modified Tables
+         - `game_events`:
+           - `type` CHECK now also allows 'shot_on_target', 'shot_off_target', 'save', 'corner', 'foul' and 'offside'.
+    */
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_type_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_type_check CHECK (type IN ('goal', 'substitution', 'yellow_card', 'red_card', 'shot_on_target', 'shot_off_target', 'save', 'corner', 'foul', 'offside'));
@@ -0,0 +1,18 @@
+/*
+      # Add goal types
+
+      Goals record how they were scored. An own goal is stored on the team that benefits from it (the score), with no scorer; when one of our players put it in their own net, `player_id` records who.
+
+      1. Modified Tables
+         - `game_events`:
+           - adds `goal_type` (text, Nullable, CHECK 'open_play', 'penalty', 'free_kick', 'header', 'own_goal'). NULL for non-goal events and goals recorded before goal types existed.
+    */
+
+    ALTER TABLE public.game_events
+      ADD COLUMN IF NOT EXISTS goal_type text NULL;
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_goal_type_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_goal_type_check CHECK (goal_type IS NULL OR goal_type IN ('open_play', 'penalty', 'free_kick', 'header', 'own_goal'));
+
+    COMMENT ON COLUMN public.game_events.goal_type IS 'How a goal was scored; own goals are stored on the benefiting team.';
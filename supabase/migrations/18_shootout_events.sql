@@ -0,0 +1,13 @@
+/*
+      # Add penalty shootout events
+
+      A shootout is recorded as one event per kick, after full time, so it never changes `home_score`/`away_score`. Kicks are ordered by `event_timestamp`; `player_id` is our kicker.
+
+      1. Modified Tables
+         - `game_events`:
+           - `type` CHECK now also allows 'shootout_scored' and 'shootout_missed'.
+    */
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_type_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_type_check CHECK (type IN ('goal', 'substitution', 'yellow_card', 'red_card', 'shot_on_target', 'shot_off_target', 'save', 'corner', 'foul', 'offside', 'shootout_scored', 'shootout_missed'));
@@ -0,0 +1,25 @@
+/*
+      # Add reasons for inactive players
+
+      Moving a player to the inactive zone records why (injury, illness, absent, sent off, tired) as a timestamped event, with an optional note. Injuries across games make up a player's injury history.
+
+      1. Modified Tables
+         - `game_events`:
+           - `type` CHECK now also allows 'player_inactive'.
+           - adds `inactive_reason` (text, Nullable, CHECK 'injury', 'illness', 'absent', 'sent_off', 'tired'): set for 'player_inactive' events.
+           - adds `note` (text, Nullable): free-text detail, e.g. the injury.
+    */
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_type_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_type_check CHECK (type IN ('goal', 'substitution', 'yellow_card', 'red_card', 'shot_on_target', 'shot_off_target', 'save', 'corner', 'foul', 'offside', 'shootout_scored', 'shootout_missed', 'player_inactive'));
+
+    ALTER TABLE public.game_events
+      ADD COLUMN IF NOT EXISTS inactive_reason text NULL,
+      ADD COLUMN IF NOT EXISTS note text NULL;
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_inactive_reason_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_inactive_reason_check CHECK (inactive_reason IS NULL OR inactive_reason IN ('injury', 'illness', 'absent', 'sent_off', 'tired'));
+
+    COMMENT ON COLUMN public.game_events.inactive_reason IS 'Why the player was moved to the inactive zone (player_inactive events).';
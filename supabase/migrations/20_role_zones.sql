@@ -0,0 +1,20 @@
+/*
+      # Add position roles and playtime by role
+
+      The field is divided into role zones (horizontal bands such as GK, DEF, MID, FWD, or custom ones). Each on-field stint is banked against the role of the zone the player stood in, so minutes by position can be totalled per player.
+
+      1. Modified Tables
+         - `teams`:
+           - adds `role_zones` (jsonb, Nullable): array of `{ role, minY, maxY }` bands from the top of the field; NULL uses the default bands.
+         - `game_lineups`:
+           - adds `role_playtime_seconds` (jsonb, Not Null, default '{}'): seconds played per role, e.g. `{ "DEF": 1200, "MID": 600 }`.
+    */
+
+    ALTER TABLE public.teams
+      ADD COLUMN IF NOT EXISTS role_zones jsonb NULL;
+
+    ALTER TABLE public.game_lineups
+      ADD COLUMN IF NOT EXISTS role_playtime_seconds jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+    COMMENT ON COLUMN public.teams.role_zones IS 'Field bands that define position roles; NULL for the default GK/DEF/MID/FWD bands.';
+    COMMENT ON COLUMN public.game_lineups.role_playtime_seconds IS 'Seconds played per position role in this game.';
@@ -0,0 +1,20 @@
+/*
+      # Add formation templates
+
+      Formations are named sets of field slots that players snap to. Built-in formations ship with the app; a team's own formations are stored on the team, and each game remembers the formation it is playing so it can be switched mid-game.
+
+      1. Modified Tables
+         - `teams`:
+           - adds `formations` (jsonb, Nullable): array of custom formations `{ id, name, slots: [{ x, y }] }`.
+         - `games`:
+           - adds `formation_id` (text, Nullable): the built-in or custom formation in use; NULL for free placement.
+    */
+
+    ALTER TABLE public.teams
+      ADD COLUMN IF NOT EXISTS formations jsonb NULL;
+
+    ALTER TABLE public.games
+      ADD COLUMN IF NOT EXISTS formation_id text NULL;
+
+    COMMENT ON COLUMN public.teams.formations IS 'Custom formation templates (slots as x/y field percentages).';
+    COMMENT ON COLUMN public.games.formation_id IS 'Formation in use: a built-in id or the id of one of the team''s custom formations.';
@@ -0,0 +1,18 @@
+/*
+      # Add game formats
+
+      Each game has a format (5v5, 7v7, 9v9, 11v11 or a custom size): the number of players per team on the field, goalkeeper included. It caps how many of our players can be on the field and sets the field markings.
+
+      1. Modified Tables
+         - `games`:
+           - adds `field_player_count` (integer, Nullable, CHECK 3-15): players per team on the field; NULL for no limit (games created before formats).
+    */
+
+    ALTER TABLE public.games
+      ADD COLUMN IF NOT EXISTS field_player_count integer NULL;
+
+    ALTER TABLE public.games DROP CONSTRAINT IF EXISTS games_field_player_count_check;
+    ALTER TABLE public.games
+      ADD CONSTRAINT games_field_player_count_check CHECK (field_player_count IS NULL OR field_player_count BETWEEN 3 AND 15);
+
+    COMMENT ON COLUMN public.games.field_player_count IS 'Players per team on the field (goalkeeper included); NULL for no limit.';
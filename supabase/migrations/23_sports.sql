@@ -0,0 +1,28 @@
+/*
+      # Add the team sport and points per score
+
+      Teams pick their sport (soccer, basketball or field hockey). The sport sets the playing surface drawing, the scoring actions, the defaults for new games and the stats that are recorded. Scores are still 'goal' events; basketball baskets record how many points they were worth.
+
+      1. Modified Tables
+         - `teams`:
+           - adds `sport` (text, Not Null, default 'soccer'): one of 'soccer', 'basketball', 'field_hockey'.
+         - `game_events`:
+           - adds `points` (integer, Nullable, CHECK > 0): points for a goal event; NULL counts as 1.
+    */
+
+    ALTER TABLE public.teams
+      ADD COLUMN IF NOT EXISTS sport text NOT NULL DEFAULT 'soccer';
+
+    ALTER TABLE public.teams DROP CONSTRAINT IF EXISTS teams_sport_check;
+    ALTER TABLE public.teams
+      ADD CONSTRAINT teams_sport_check CHECK (sport IN ('soccer', 'basketball', 'field_hockey'));
+
+    ALTER TABLE public.game_events
+      ADD COLUMN IF NOT EXISTS points integer NULL;
+
+    ALTER TABLE public.game_events DROP CONSTRAINT IF EXISTS game_events_points_check;
+    ALTER TABLE public.game_events
+      ADD CONSTRAINT game_events_points_check CHECK (points IS NULL OR points > 0);
+
+    COMMENT ON COLUMN public.teams.sport IS 'The team''s sport: drives the surface drawing, scoring actions, game defaults and stats.';
+    COMMENT ON COLUMN public.game_events.points IS 'Points a goal event is worth (e.g. 2 or 3 for basketball); NULL counts as 1.';
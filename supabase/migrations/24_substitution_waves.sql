@@ -0,0 +1,14 @@
+/*
+      # Add substitution waves
+
+      Coaches prepare substitution waves ahead of a game: sets of swaps tied to a game minute or to a break. They are saved with the game so every device sees them and they survive a reload; the game screen prompts to apply each wave when the clock reaches it.
+
+      1. Modified Tables
+         - `games`:
+           - adds `substitution_waves` (jsonb, Not Null, default '[]'): array of { id, period, secondsIntoPeriod, swaps: [{ inPlayerId, outPlayerId }], isHandled }.
+    */
+
+    ALTER TABLE public.games
+      ADD COLUMN IF NOT EXISTS substitution_waves jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+    COMMENT ON COLUMN public.games.substitution_waves IS 'Prepared substitution waves (see lib/substitutionWaves); handled ones are kept for the record.';